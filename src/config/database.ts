@@ -3,6 +3,17 @@ import { User } from '../entities/User';
 import { Event } from '../entities/Event';
 import { Participant } from '../entities/Participant';
 import { CheckInLog } from '../entities/CheckInLog';
+import { EventHistory } from '../entities/EventHistory';
+import { CachedVoter } from '../entities/CachedVoter';
+import { VoterRegisterEntry } from '../entities/VoterRegisterEntry';
+import { AttendanceVisit } from '../entities/AttendanceVisit';
+import { OrganisationUnit } from '../entities/OrganisationUnit';
+import { EventStaffAssignment } from '../entities/EventStaffAssignment';
+import { Role } from '../entities/Role';
+import { PasswordResetToken } from '../entities/PasswordResetToken';
+import { UserInvitation } from '../entities/UserInvitation';
+import { UserSession } from '../entities/UserSession';
+import { AuditLog } from '../entities/AuditLog';
 import { env } from './env';
 import logger from './logger';
 
@@ -29,7 +40,23 @@ const dbConfig = {
   synchronize: true,
   // synchronize: env.NODE_ENV !== 'production',
   logging: env.NODE_ENV === 'development',
-  entities: [User, Event, Participant, CheckInLog],
+  entities: [
+    User,
+    Event,
+    Participant,
+    CheckInLog,
+    EventHistory,
+    CachedVoter,
+    VoterRegisterEntry,
+    AttendanceVisit,
+    OrganisationUnit,
+    EventStaffAssignment,
+    Role,
+    PasswordResetToken,
+    UserInvitation,
+    UserSession,
+    AuditLog,
+  ],
   migrations: ['src/migrations/**/*.ts'],
   subscribers: ['src/subscribers/**/*.ts'],
   ssl,
@@ -28,13 +28,50 @@ const envSchema = Joi.object({
     }),
   JWT_ACCESS_TOKEN_EXPIRY: Joi.string().default('15m'),
   JWT_REFRESH_TOKEN_EXPIRY: Joi.string().default('7d'),
+  PASSWORD_RESET_TOKEN_TTL_MINUTES: Joi.number().min(1).default(60),
+  INVITATION_TTL_HOURS: Joi.number().min(1).default(72),
+
+  // QR badges (falls back to JWT_SECRET)
+  BADGE_TOKEN_SECRET: Joi.string().min(32).optional()
+    .messages({
+      'string.min': 'BADGE_TOKEN_SECRET must be at least 32 characters long for security'
+    }),
   
+  // Two-factor authentication (falls back to JWT_SECRET)
+  TWO_FACTOR_ENCRYPTION_KEY: Joi.string().min(32).optional()
+    .messages({
+      'string.min': 'TWO_FACTOR_ENCRYPTION_KEY must be at least 32 characters long for security'
+    }),
+  TWO_FACTOR_ISSUER: Joi.string().default('Election Events'),
+
+  // Organisation hierarchy root, created on startup
+  NATIONAL_UNIT_NAME: Joi.string().max(255).optional(),
+  NATIONAL_UNIT_COORDINATOR_EMAIL: Joi.string().email().optional(),
+
+  // Login brute-force protection
+  LOGIN_MAX_ACCOUNT_FAILURES: Joi.number().min(1).default(5),
+  LOGIN_MAX_IP_FAILURES: Joi.number().min(1).default(20),
+  LOGIN_FAILURE_WINDOW_MINUTES: Joi.number().min(1).default(15),
+  LOGIN_LOCKOUT_MINUTES: Joi.number().min(1).default(15),
+
+  // Public registration rate limit
+  REGISTRATION_MAX_PER_IP: Joi.number().min(1).default(20),
+  REGISTRATION_WINDOW_MINUTES: Joi.number().min(1).default(60),
+
+  // Password reset request rate limit
+  PASSWORD_RESET_MAX_PER_IP: Joi.number().min(1).default(10),
+  PASSWORD_RESET_MAX_PER_EMAIL: Joi.number().min(1).default(3),
+  PASSWORD_RESET_WINDOW_MINUTES: Joi.number().min(1).default(60),
+
   // Server
   PORT: Joi.number().default(3000),
+  TRUST_PROXY: Joi.number().min(0).default(0),
+  API_DOCS_ENABLED: Joi.string().valid('true', 'false').default('true'),
   
   // External API
   VOTER_LOOKUP_API_URL: Joi.string().uri().required(),
   VOTER_LOOKUP_API_TOKEN: Joi.string().required(),
+  VOTER_CACHE_TTL_HOURS: Joi.number().min(0).default(168),
   
   // CORS
   FRONTEND_URL: Joi.string().uri().optional(),
@@ -81,13 +118,44 @@ export const env = {
   JWT_SECRET: envVars.JWT_SECRET,
   JWT_ACCESS_TOKEN_EXPIRY: envVars.JWT_ACCESS_TOKEN_EXPIRY,
   JWT_REFRESH_TOKEN_EXPIRY: envVars.JWT_REFRESH_TOKEN_EXPIRY,
+  PASSWORD_RESET_TOKEN_TTL_MINUTES: envVars.PASSWORD_RESET_TOKEN_TTL_MINUTES,
+  INVITATION_TTL_HOURS: envVars.INVITATION_TTL_HOURS,
+
+  // QR badges
+  BADGE_TOKEN_SECRET: envVars.BADGE_TOKEN_SECRET || envVars.JWT_SECRET,
   
+  // Two-factor authentication
+  TWO_FACTOR_ENCRYPTION_KEY: envVars.TWO_FACTOR_ENCRYPTION_KEY || envVars.JWT_SECRET,
+  TWO_FACTOR_ISSUER: envVars.TWO_FACTOR_ISSUER,
+
+  // Organisation hierarchy root
+  NATIONAL_UNIT_NAME: envVars.NATIONAL_UNIT_NAME,
+  NATIONAL_UNIT_COORDINATOR_EMAIL: envVars.NATIONAL_UNIT_COORDINATOR_EMAIL,
+
+  // Login brute-force protection
+  LOGIN_MAX_ACCOUNT_FAILURES: envVars.LOGIN_MAX_ACCOUNT_FAILURES,
+  LOGIN_MAX_IP_FAILURES: envVars.LOGIN_MAX_IP_FAILURES,
+  LOGIN_FAILURE_WINDOW_MINUTES: envVars.LOGIN_FAILURE_WINDOW_MINUTES,
+  LOGIN_LOCKOUT_MINUTES: envVars.LOGIN_LOCKOUT_MINUTES,
+
+  // Public registration rate limit
+  REGISTRATION_MAX_PER_IP: envVars.REGISTRATION_MAX_PER_IP,
+  REGISTRATION_WINDOW_MINUTES: envVars.REGISTRATION_WINDOW_MINUTES,
+
+  // Password reset request rate limit
+  PASSWORD_RESET_MAX_PER_IP: envVars.PASSWORD_RESET_MAX_PER_IP,
+  PASSWORD_RESET_MAX_PER_EMAIL: envVars.PASSWORD_RESET_MAX_PER_EMAIL,
+  PASSWORD_RESET_WINDOW_MINUTES: envVars.PASSWORD_RESET_WINDOW_MINUTES,
+
   // Server
   PORT: envVars.PORT,
+  TRUST_PROXY: envVars.TRUST_PROXY,
+  API_DOCS_ENABLED: envVars.API_DOCS_ENABLED,
   
   // External API
   VOTER_LOOKUP_API_URL: envVars.VOTER_LOOKUP_API_URL,
   VOTER_LOOKUP_API_TOKEN: envVars.VOTER_LOOKUP_API_TOKEN,
+  VOTER_CACHE_TTL_HOURS: envVars.VOTER_CACHE_TTL_HOURS,
   
   // CORS
   FRONTEND_URL: envVars.FRONTEND_URL || 'http://localhost:3000',
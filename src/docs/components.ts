@@ -0,0 +1,223 @@
+import { EventStatus } from '../entities/Event';
+import { OrganisationLevel } from '../entities/OrganisationUnit';
+import { ParticipantStatus } from '../entities/Participant';
+import { UserRole } from '../entities/User';
+import { ApiResponse, OpenApiSchema } from './types';
+
+// Helpers for writing response schemas
+export const ref = (name: string): OpenApiSchema => ({ $ref: `#/components/schemas/${name}` });
+export const string = (extra: OpenApiSchema = {}): OpenApiSchema => ({ type: 'string', ...extra });
+export const uuid = (): OpenApiSchema => string({ format: 'uuid' });
+export const dateTime = (): OpenApiSchema => string({ format: 'date-time' });
+export const date = (): OpenApiSchema => string({ format: 'date' });
+export const integer = (extra: OpenApiSchema = {}): OpenApiSchema => ({ type: 'integer', ...extra });
+export const boolean = (): OpenApiSchema => ({ type: 'boolean' });
+export const arrayOf = (items: OpenApiSchema): OpenApiSchema => ({ type: 'array', items });
+
+// OpenAPI 3.0 ignores siblings of $ref, so references are wrapped in allOf
+export const nullable = (schema: OpenApiSchema): OpenApiSchema =>
+  schema.$ref ? { allOf: [schema], nullable: true } : { ...schema, nullable: true };
+
+// Object schema; every property is required unless listed as optional
+export function object(
+  properties: Record<string, OpenApiSchema>,
+  optional: string[] = []
+): OpenApiSchema {
+  const required = Object.keys(properties).filter((key) => !optional.includes(key));
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+// JSON response with a message and other properties
+export function jsonResponse(
+  description: string,
+  properties: Record<string, OpenApiSchema> = {},
+  optional: string[] = []
+): ApiResponse {
+  return { description, schema: object({ message: string(), ...properties }, optional) };
+}
+
+// Error response in the standard { message, code } format
+export function errorResponse(description: string): ApiResponse {
+  return { description, schema: ref('Error') };
+}
+
+const LOCATION_FIELDS = {
+  county: nullable(string()),
+  constituency: nullable(string()),
+  ward: nullable(string()),
+};
+
+const SCHEDULE_FIELDS = {
+  status: string({ enum: Object.values(EventStatus) }),
+  startDate: nullable(dateTime()),
+  endDate: nullable(dateTime()),
+  dailyOpenTime: nullable(string({ description: 'HH:MM:SS, server local time', example: '07:00:00' })),
+  dailyCloseTime: nullable(string({ description: 'HH:MM:SS, server local time', example: '17:30:00' })),
+};
+
+const VOTER_FIELDS = {
+  idNumber: string({ example: '23057470' }),
+  name: string({ example: 'REGINAH WAMBUI' }),
+  dateOfBirth: date(),
+  sex: string({ enum: ['Male', 'Female'] }),
+};
+
+// Reusable schemas, referenced as #/components/schemas/<name>
+export const COMPONENT_SCHEMAS: Record<string, OpenApiSchema> = {
+  Error: object(
+    {
+      message: string(),
+      code: string({ description: 'Machine-readable error code, e.g. EVENT_NOT_OPEN' }),
+    },
+    ['code']
+  ),
+  ValidationIssue: object(
+    {
+      field: nullable(string({ description: 'Dotted path, e.g. checkIns.2.idNumber; null for rules spanning several fields' })),
+      location: string({ enum: ['body', 'query', 'params'] }),
+      code: string({ example: 'REQUIRED' }),
+      message: string(),
+    },
+    ['location']
+  ),
+  ValidationError: object({
+    message: string({ example: 'Request validation failed' }),
+    code: string({ enum: ['VALIDATION_ERROR'] }),
+    errors: arrayOf(ref('ValidationIssue')),
+  }),
+  FieldChange: object({ from: {}, to: {} }),
+  UserSummary: object({ id: uuid(), name: string(), email: string({ format: 'email' }) }),
+  LoginResponse: object(
+    {
+      message: string(),
+      accessToken: string(),
+      user: object({
+        id: uuid(),
+        name: string(),
+        email: string({ format: 'email' }),
+        role: string({ enum: Object.values(UserRole) }),
+        mustChangePassword: boolean(),
+        twoFactorEnabled: boolean(),
+        twoFactorSetupRequired: boolean(),
+      }),
+      recoveryCodesLeft: integer({ description: 'Only after a two-factor login' }),
+    },
+    ['recoveryCodesLeft']
+  ),
+  TwoFactorChallenge: object({
+    message: string(),
+    twoFactorRequired: { type: 'boolean', enum: [true] },
+    challengeToken: string({ description: 'Valid 5 minutes; send to /api/auth/login/2fa' }),
+  }),
+  Session: object({
+    id: uuid(),
+    userAgent: nullable(string()),
+    ipAddress: nullable(string()),
+    createdAt: dateTime(),
+    lastUsedAt: dateTime(),
+    expiresAt: dateTime(),
+    current: boolean(),
+  }),
+  ManagedUser: object(
+    {
+      id: uuid(),
+      name: string(),
+      email: string({ format: 'email' }),
+      role: string({ enum: Object.values(UserRole) }),
+      adminId: nullable(uuid()),
+      isActive: boolean(),
+      mustChangePassword: boolean(),
+      twoFactorEnabledAt: nullable(dateTime()),
+      createdAt: dateTime(),
+    }
+  ),
+  Lockout: object({
+    scope: string({ enum: ['account', 'ip'] }),
+    identifier: string({ description: 'Email or IP address' }),
+    failures: integer(),
+    lockouts: integer(),
+    lockedUntil: dateTime(),
+  }),
+  OrganisationUnitSummary: object({
+    id: uuid(),
+    name: string(),
+    level: string({ enum: Object.values(OrganisationLevel) }),
+  }),
+  Event: object({
+    eventId: uuid(),
+    eventName: string(),
+    ...LOCATION_FIELDS,
+    ...SCHEDULE_FIELDS,
+    organisationUnit: nullable(ref('OrganisationUnitSummary')),
+    createdBy: ref('UserSummary'),
+    createdAt: dateTime(),
+    updatedAt: dateTime(),
+  }),
+  Registration: object({
+    open: boolean(),
+    token: nullable(string()),
+    url: nullable(string({ format: 'uri' })),
+  }),
+  VoterInfo: object({
+    ...VOTER_FIELDS,
+    county: string(),
+    constituency: string(),
+    ward: string(),
+    pollingCenter: string(),
+  }),
+  ParticipantSummary: object({ id: uuid(), idNumber: string(), name: string() }),
+  ParticipantDetails: object({
+    id: uuid(),
+    ...VOTER_FIELDS,
+    ...LOCATION_FIELDS,
+    pollingCenter: nullable(string()),
+  }),
+  CheckIn: object({
+    id: uuid(),
+    participantId: uuid(),
+    eventId: uuid(),
+    checkInDate: date(),
+    checkedInAt: dateTime(),
+  }),
+  CheckInResult: object({
+    message: string({ example: 'Participant checked in successfully' }),
+    checkIn: ref('CheckIn'),
+    visit: object({ id: uuid(), enteredAt: dateTime() }),
+    participant: ref('ParticipantSummary'),
+  }),
+  SyncItemResult: object(
+    {
+      index: integer({ description: 'Position of the item in the request' }),
+      idempotencyKey: nullable(string()),
+      status: string({ enum: ['created', 'replayed', 'conflict', 'rejected', 'error'] }),
+      code: string({ example: 'ALREADY_CHECKED_IN' }),
+      message: string(),
+      errors: arrayOf(ref('ValidationIssue')),
+      checkIn: ref('CheckIn'),
+    },
+    ['code', 'message', 'errors', 'checkIn']
+  ),
+  ListedParticipant: object({
+    id: uuid(),
+    ...VOTER_FIELDS,
+    ...LOCATION_FIELDS,
+    pollingCenter: nullable(string()),
+    status: string({ enum: Object.values(ParticipantStatus) }),
+    registeredAt: nullable(dateTime()),
+    checkInLogs: arrayOf(
+      object({
+        id: uuid(),
+        checkInDate: date(),
+        checkedInAt: dateTime(),
+        checkedInBy: ref('UserSummary'),
+      })
+    ),
+    totalCheckIns: integer(),
+    eventId: uuid(),
+    createdAt: dateTime(),
+  }),
+};
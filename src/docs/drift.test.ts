@@ -0,0 +1,49 @@
+import '../test/env';
+import 'reflect-metadata';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Router } from 'express';
+import authRoutes from '../routes/auth';
+import eventRoutes from '../routes/events';
+import eventStaffRoutes from '../routes/eventStaff';
+import invitationRoutes from '../routes/invitations';
+import participantRoutes from '../routes/participants';
+import twoFactorRoutes from '../routes/twoFactor';
+import { findDocumentationDrift } from './drift';
+import { API_DOCS, buildOpenApiDocument } from './openapi';
+import { authDocs } from './paths/auth';
+import { eventDocs } from './paths/events';
+import { eventStaffDocs } from './paths/eventStaff';
+import { invitationDocs } from './paths/invitations';
+import { participantDocs } from './paths/participants';
+import { twoFactorDocs } from './paths/twoFactor';
+import { ApiRouterDocs } from './types';
+
+// Each documented router with its documentation
+const DOCUMENTED_ROUTERS: Array<[Router, ApiRouterDocs]> = [
+  [authRoutes, authDocs],
+  [invitationRoutes, invitationDocs],
+  [twoFactorRoutes, twoFactorDocs],
+  [eventRoutes, eventDocs],
+  [eventStaffRoutes, eventStaffDocs],
+  [participantRoutes, participantDocs],
+];
+
+describe('API documentation', () => {
+  it('checks every router in the document', () => {
+    const checked = DOCUMENTED_ROUTERS.map(([, docs]) => docs.prefix);
+    assert.deepEqual(checked, API_DOCS.map((docs) => docs.prefix));
+  });
+
+  for (const [router, docs] of DOCUMENTED_ROUTERS) {
+    it(`matches the routes of ${docs.prefix}`, () => {
+      assert.deepEqual(findDocumentationDrift(router, docs), []);
+    });
+  }
+
+  // Building the document converts every request schema, so this also fails on Joi types it cannot convert
+  it('builds the OpenAPI document', () => {
+    const document = buildOpenApiDocument();
+    assert.ok(Object.keys(document.paths).length > 0);
+  });
+});
@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import { authenticate, authenticateAccountSetup } from '../middleware/auth';
+import { RequestLocation, getValidatedSchemas } from '../middleware/validate';
+import { ApiRouterDocs } from './types';
+
+const LOCATIONS: RequestLocation[] = ['params', 'query', 'body'];
+
+interface RouteInfo {
+  authenticated: boolean;
+  validated: ReturnType<typeof getValidatedSchemas>;
+}
+
+// Routes registered on a router, keyed by "METHOD path"
+function collectRoutes(router: Router): Map<string, RouteInfo> {
+  const routes = new Map<string, RouteInfo>();
+  for (const layer of router.stack) {
+    if (!layer.route) {
+      continue;
+    }
+    const handlers = layer.route.stack;
+    const methods = new Set(handlers.map((handler) => handler.method).filter(Boolean));
+    for (const method of methods) {
+      const routeHandlers = handlers.filter((handler) => handler.method === method).map((handler) => handler.handle);
+      routes.set(`${method.toUpperCase()} ${layer.route.path}`, {
+        authenticated: routeHandlers.some(
+          (handle) => handle === authenticate || handle === authenticateAccountSetup
+        ),
+        validated: routeHandlers.map(getValidatedSchemas).find(Boolean),
+      });
+    }
+  }
+  return routes;
+}
+
+/**
+ * Compare a router with its API documentation. Returns one line per
+ * mismatch: routes missing from either side, documented request schemas
+ * that are not the ones the route validates with, and wrong auth.
+ */
+export function findDocumentationDrift(router: Router, docs: ApiRouterDocs): string[] {
+  const problems: string[] = [];
+  const routes = collectRoutes(router);
+  const documented = new Set<string>();
+
+  for (const operation of docs.operations) {
+    const key = `${operation.method.toUpperCase()} ${operation.path}`;
+    const label = `${operation.method.toUpperCase()} ${docs.prefix}${operation.path}`;
+    documented.add(key);
+
+    const route = routes.get(key);
+    if (!route) {
+      problems.push(`${label}: documented but no such route`);
+      continue;
+    }
+
+    for (const location of LOCATIONS) {
+      const documentedSchema = operation.request?.[location];
+      const validatedSchema = route.validated?.[location];
+      if (documentedSchema === validatedSchema) {
+        continue;
+      }
+      if (!documentedSchema) {
+        problems.push(`${label}: ${location} validated by the route but not documented`);
+      } else if (!validatedSchema) {
+        problems.push(`${label}: ${location} documented but not validated by the route`);
+      } else {
+        problems.push(`${label}: ${location} schema differs from the one the route validates`);
+      }
+    }
+
+    const pathParams = (operation.path.match(/:(\w+)/g) || []).map((param) => param.slice(1));
+    const documentedParams = Object.keys(operation.request?.params?.describe().keys || {});
+    for (const param of pathParams.filter((name) => !documentedParams.includes(name))) {
+      problems.push(`${label}: path parameter ${param} has no params schema`);
+    }
+
+    const bearer = (operation.auth || 'bearer') === 'bearer';
+    if (bearer !== route.authenticated) {
+      problems.push(
+        bearer ? `${label}: documented as authenticated but the route is public` : `${label}: route requires an access token`
+      );
+    }
+  }
+
+  for (const key of routes.keys()) {
+    if (!documented.has(key)) {
+      const [method, path] = key.split(' ');
+      problems.push(`${method} ${docs.prefix}${path}: route is not documented`);
+    }
+  }
+
+  return problems;
+}
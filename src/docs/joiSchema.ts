@@ -0,0 +1,173 @@
+import Joi from 'joi';
+import { RequestSchemas } from '../middleware/validate';
+import { OpenApiParameter, OpenApiSchema } from './types';
+
+// The parts of Joi's describe() output used to build OpenAPI schemas
+interface JoiDescription {
+  type?: string;
+  flags?: {
+    presence?: 'required' | 'optional' | 'forbidden';
+    only?: boolean;
+    format?: string;
+    description?: string;
+    default?: unknown;
+  };
+  rules?: Array<{ name: string; args?: Record<string, unknown> }>;
+  allow?: unknown[];
+  examples?: unknown[];
+  keys?: Record<string, JoiDescription>;
+  items?: JoiDescription[];
+  matches?: Array<{ schema?: JoiDescription }>;
+  dependencies?: Array<{ rel: string; peers: string[] }>;
+}
+
+// Limits of min/max rules per schema type
+const LIMIT_KEYWORDS: Record<string, ['minLength' | 'minimum' | 'minItems', 'maxLength' | 'maximum' | 'maxItems']> = {
+  string: ['minLength', 'maxLength'],
+  number: ['minimum', 'maximum'],
+  array: ['minItems', 'maxItems'],
+};
+
+// Joi keeps regexes as "/source/flags"
+function regexSource(regex: unknown): string {
+  const text = String(regex);
+  return text.slice(1, text.lastIndexOf('/'));
+}
+
+function isRequired(description: JoiDescription): boolean {
+  return description.flags?.presence === 'required';
+}
+
+function convert(description: JoiDescription): OpenApiSchema {
+  const schema: OpenApiSchema = {};
+
+  switch (description.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      schema.type = description.type;
+      break;
+    case 'date':
+      // Joi.date().iso() accepts dates (YYYY-MM-DD) as well as date-times
+      schema.type = 'string';
+      schema.format = description.flags?.format === 'iso' ? 'date-time' : undefined;
+      break;
+    case 'array':
+      schema.type = 'array';
+      schema.items = description.items?.[0] ? convert(description.items[0]) : {};
+      break;
+    case 'object': {
+      schema.type = 'object';
+      const keys = description.keys || {};
+      schema.properties = {};
+      for (const [key, child] of Object.entries(keys)) {
+        schema.properties[key] = convert(child);
+      }
+      const required = Object.keys(keys).filter((key) => isRequired(keys[key]));
+      if (required.length > 0) {
+        schema.required = required;
+      }
+      // or(): at least one of the peers; xor(): exactly one
+      for (const dependency of description.dependencies || []) {
+        const choices = dependency.peers.map((peer) => ({ required: [peer] }));
+        if (dependency.rel === 'or') {
+          schema.anyOf = choices;
+        } else if (dependency.rel === 'xor') {
+          schema.oneOf = choices;
+        }
+      }
+      break;
+    }
+    case 'alternatives':
+      schema.oneOf = (description.matches || [])
+        .filter((match) => match.schema)
+        .map((match) => convert(match.schema!));
+      break;
+    case 'any':
+      break;
+    default:
+      throw new Error(`Joi type ${description.type} has no OpenAPI conversion`);
+  }
+
+  for (const rule of description.rules || []) {
+    const limits = LIMIT_KEYWORDS[description.type || ''];
+    switch (rule.name) {
+      case 'min':
+      case 'max':
+        if (limits && typeof rule.args?.limit === 'number') {
+          schema[limits[rule.name === 'min' ? 0 : 1]] = rule.args.limit;
+        }
+        break;
+      case 'integer':
+        schema.type = 'integer';
+        break;
+      case 'email':
+        schema.format = 'email';
+        break;
+      case 'guid':
+        schema.format = 'uuid';
+        break;
+      case 'isoDate':
+        schema.format = 'date-time';
+        break;
+      case 'pattern':
+        schema.pattern = regexSource(rule.args?.regex);
+        break;
+    }
+  }
+
+  const allowed = description.allow || [];
+  if (allowed.includes(null)) {
+    schema.nullable = true;
+  }
+  if (description.flags?.only) {
+    schema.enum = allowed.filter((value) => value !== null);
+  }
+  if (description.flags?.description) {
+    schema.description = description.flags.description;
+  }
+  if (description.flags?.default !== undefined) {
+    schema.default = description.flags.default;
+  }
+  if (description.examples?.length) {
+    schema.example = description.examples[0];
+  }
+
+  // Drop keywords left unset (e.g. format of a non-ISO date)
+  for (const key of Object.keys(schema) as Array<keyof OpenApiSchema>) {
+    if (schema[key] === undefined) {
+      delete schema[key];
+    }
+  }
+  return schema;
+}
+
+// OpenAPI schema of a Joi schema
+export function joiToOpenApi(schema: Joi.Schema): OpenApiSchema {
+  return convert(schema.describe() as JoiDescription);
+}
+
+// Path and query parameters of a route from its params and query schemas
+export function requestParameters(schemas: RequestSchemas): OpenApiParameter[] {
+  const parameters: OpenApiParameter[] = [];
+
+  for (const location of ['params', 'query'] as const) {
+    const schema = schemas[location];
+    if (!schema) {
+      continue;
+    }
+    const keys = (schema.describe() as JoiDescription).keys || {};
+    for (const [name, child] of Object.entries(keys)) {
+      const { description, ...parameterSchema } = convert(child);
+      parameters.push({
+        name,
+        in: location === 'params' ? 'path' : 'query',
+        required: location === 'params' || isRequired(child),
+        ...(description ? { description } : {}),
+        schema: parameterSchema,
+      });
+    }
+  }
+
+  return parameters;
+}
@@ -0,0 +1,158 @@
+import { COMPONENT_SCHEMAS, errorResponse, ref } from './components';
+import { joiToOpenApi, requestParameters } from './joiSchema';
+import { authDocs } from './paths/auth';
+import { eventDocs } from './paths/events';
+import { eventStaffDocs } from './paths/eventStaff';
+import { invitationDocs } from './paths/invitations';
+import { participantDocs } from './paths/participants';
+import { twoFactorDocs } from './paths/twoFactor';
+import { ApiOperation, ApiResponse, ApiRouterDocs, OpenApiSchema } from './types';
+
+// Routers covered by the API documentation
+export const API_DOCS: ApiRouterDocs[] = [
+  authDocs,
+  invitationDocs,
+  twoFactorDocs,
+  eventDocs,
+  eventStaffDocs,
+  participantDocs,
+];
+
+const SECURITY_SCHEMES = {
+  bearerAuth: {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+    description: 'Access token from login, signup or refresh (valid 15 minutes)',
+  },
+  refreshCookie: {
+    type: 'apiKey',
+    in: 'cookie',
+    name: 'refreshToken',
+    description: 'HTTP-only refresh token cookie set by login and signup',
+  },
+};
+
+// Express path (/event/:eventId) to OpenAPI path (/event/{eventId}) under the mount point
+export function openApiPath(prefix: string, path: string): string {
+  return (path === '/' ? prefix : `${prefix}${path}`).replace(/:(\w+)/g, '{$1}');
+}
+
+// Combine two responses documented for the same status
+function mergeResponses(first: ApiResponse, second: ApiResponse): ApiResponse {
+  const schemas = [first.schema, second.schema]
+    .filter((schema): schema is OpenApiSchema => !!schema)
+    .filter((schema, index, all) => all.findIndex((other) => JSON.stringify(other) === JSON.stringify(schema)) === index);
+  return {
+    ...first,
+    ...second,
+    description: `${first.description}; ${second.description}`,
+    schema: schemas.length > 1 ? { oneOf: schemas } : schemas[0],
+  };
+}
+
+// Responses every route of this kind can give, plus the documented ones
+function operationResponses(operation: ApiOperation): Record<number, ApiResponse> {
+  const responses: Record<number, ApiResponse> = {};
+  if (operation.request) {
+    responses[400] = { description: 'Request validation failed', schema: ref('ValidationError') };
+  }
+  if ((operation.auth || 'bearer') === 'bearer') {
+    responses[401] = errorResponse('Missing, expired or revoked access token');
+    responses[403] = errorResponse(
+      'Password change or two-factor setup pending (PASSWORD_CHANGE_REQUIRED, TWO_FACTOR_SETUP_REQUIRED)'
+    );
+  }
+  if (operation.permission) {
+    responses[403] = mergeResponses(responses[403], errorResponse(`Missing the ${operation.permission} permission`));
+  }
+
+  for (const [status, response] of Object.entries(operation.responses)) {
+    const code = Number(status);
+    responses[code] = responses[code] ? mergeResponses(responses[code], response) : response;
+  }
+  responses[500] = errorResponse('Internal server error');
+
+  return responses;
+}
+
+function buildOperation(docs: ApiRouterDocs, operation: ApiOperation) {
+  const auth = operation.auth || 'bearer';
+  const description = [
+    operation.description,
+    operation.permission ? `Requires the \`${operation.permission}\` permission.` : undefined,
+  ].filter(Boolean).join('\n\n');
+
+  const parameters = [
+    ...(operation.request ? requestParameters(operation.request) : []),
+    ...(operation.extraParameters || []),
+  ];
+
+  const responses: Record<string, unknown> = {};
+  for (const [status, response] of Object.entries(operationResponses(operation))) {
+    const content: Record<string, { schema: OpenApiSchema }> = {};
+    if (response.schema) {
+      content['application/json'] = { schema: response.schema };
+    }
+    for (const [mediaType, schema] of Object.entries(response.content || {})) {
+      content[mediaType] = { schema };
+    }
+    responses[status] = {
+      description: response.description,
+      ...(response.headers ? { headers: response.headers } : {}),
+      ...(Object.keys(content).length > 0 ? { content } : {}),
+    };
+  }
+
+  return {
+    tags: [docs.tag],
+    summary: operation.summary,
+    ...(description ? { description } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(operation.request?.body
+      ? {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: joiToOpenApi(operation.request.body) } },
+          },
+        }
+      : {}),
+    responses,
+    security: auth === 'none' ? [] : [{ [auth === 'bearer' ? 'bearerAuth' : 'refreshCookie']: [] }],
+  };
+}
+
+/**
+ * Build the OpenAPI 3 document of the documented routers. Request parameters
+ * and bodies are generated from the Joi schemas the routes validate with;
+ * responses are described in src/docs/paths.
+ */
+export function buildOpenApiDocument(routers: ApiRouterDocs[] = API_DOCS) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  const schemas: Record<string, OpenApiSchema> = { ...COMPONENT_SCHEMAS };
+
+  for (const docs of routers) {
+    Object.assign(schemas, docs.schemas);
+    for (const operation of docs.operations) {
+      const path = openApiPath(docs.prefix, operation.path);
+      paths[path] = { ...paths[path], [operation.method]: buildOperation(docs, operation) };
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Election Events API',
+      version: '1.0.0',
+      description:
+        'Event check-in system. Errors use { message, code }; invalid requests get 400 with ' +
+        '{ message, code: "VALIDATION_ERROR", errors: [{ field, location, code, message }] }.',
+    },
+    tags: routers.map(({ tag, description }) => ({ name: tag, description })),
+    paths,
+    components: {
+      schemas,
+      securitySchemes: SECURITY_SCHEMES,
+    },
+  };
+}
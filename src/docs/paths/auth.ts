@@ -0,0 +1,308 @@
+import {
+  changePasswordSchema,
+  forgotPasswordSchema,
+  lockoutParamsSchema,
+  loginSchema,
+  resetPasswordSchema,
+  sessionParamsSchema,
+  signupSchema,
+  twoFactorLoginSchema,
+  twoFactorRequirementSchema,
+  userEmailParamsSchema,
+  userParamsSchema,
+} from '../../validation/auth';
+import {
+  arrayOf,
+  boolean,
+  errorResponse,
+  integer,
+  jsonResponse,
+  ref,
+  string,
+  uuid,
+} from '../components';
+import { ApiResponse, ApiRouterDocs } from '../types';
+
+const REFRESH_COOKIE_SET = {
+  'Set-Cookie': {
+    description: 'HTTP-only refreshToken cookie, valid 7 days',
+    schema: string(),
+  },
+};
+
+const loginResponse: ApiResponse = {
+  description: 'Signed in; the refresh token is set as a cookie',
+  schema: ref('LoginResponse'),
+  headers: REFRESH_COOKIE_SET,
+};
+
+const throttled = errorResponse(
+  'Too many failed attempts (TOO_MANY_ATTEMPTS) or account locked (ACCOUNT_LOCKED); see Retry-After'
+);
+
+const managedUser = jsonResponse('Updated user', {
+  user: {
+    type: 'object',
+    properties: { id: uuid(), name: string(), email: string({ format: 'email' }), isActive: boolean() },
+  },
+});
+
+export const authDocs: ApiRouterDocs = {
+  prefix: '/api/auth',
+  tag: 'Auth',
+  description: 'Signup, login, sessions, passwords and user management',
+  operations: [
+    {
+      method: 'post',
+      path: '/signup',
+      summary: 'Create an account',
+      description: 'Creates a user with the "user" role and signs them in on this device.',
+      auth: 'none',
+      request: signupSchema,
+      responses: {
+        201: {
+          description: 'Account created; the refresh token is set as a cookie',
+          schema: {
+            type: 'object',
+            required: ['message', 'accessToken', 'user'],
+            properties: {
+              message: string(),
+              accessToken: string(),
+              user: {
+                type: 'object',
+                properties: { id: uuid(), name: string(), email: string({ format: 'email' }), role: string() },
+              },
+            },
+          },
+          headers: REFRESH_COOKIE_SET,
+        },
+        400: errorResponse('User with this email already exists'),
+        429: throttled,
+      },
+    },
+    {
+      method: 'post',
+      path: '/login',
+      summary: 'Log in with email and password',
+      description:
+        'Accounts with two-factor authentication get a challenge token instead of tokens; ' +
+        'finish with POST /api/auth/login/2fa.',
+      auth: 'none',
+      request: loginSchema,
+      responses: {
+        200: {
+          ...loginResponse,
+          description: 'Signed in, or a two-factor challenge',
+          schema: { oneOf: [ref('LoginResponse'), ref('TwoFactorChallenge')] },
+        },
+        401: errorResponse('Invalid email or password'),
+        403: errorResponse('Account is deactivated (ACCOUNT_DEACTIVATED)'),
+        429: throttled,
+      },
+    },
+    {
+      method: 'post',
+      path: '/login/2fa',
+      summary: 'Finish a two-factor login',
+      description: 'Send the challenge token with a code from the authenticator app or a recovery code.',
+      auth: 'none',
+      request: twoFactorLoginSchema,
+      responses: {
+        200: loginResponse,
+        401: errorResponse('Expired challenge (INVALID_CHALLENGE) or wrong code (INVALID_TWO_FACTOR_CODE)'),
+        429: throttled,
+      },
+    },
+    {
+      method: 'post',
+      path: '/refresh',
+      summary: 'Get a new access token',
+      description:
+        'Rotates the refresh token cookie. Presenting an already rotated token revokes the session ' +
+        '(REFRESH_TOKEN_REUSED), except within 10 seconds of the rotation (REFRESH_TOKEN_SUPERSEDED).',
+      auth: 'refreshCookie',
+      responses: {
+        200: {
+          description: 'New access token; the rotated refresh token is set as a cookie',
+          schema: {
+            type: 'object',
+            required: ['message', 'accessToken'],
+            properties: { message: string(), accessToken: string() },
+          },
+          headers: REFRESH_COOKIE_SET,
+        },
+        401: errorResponse('Missing, invalid, reused or superseded refresh token'),
+      },
+    },
+    {
+      method: 'post',
+      path: '/logout',
+      summary: 'Sign out this device',
+      description: 'Also allowed while a password change or two-factor setup is pending.',
+      responses: {
+        200: jsonResponse('Signed out; the refresh token cookie is cleared'),
+      },
+    },
+    {
+      method: 'get',
+      path: '/sessions',
+      summary: 'List signed-in devices',
+      responses: {
+        200: jsonResponse('Active sessions', { sessions: arrayOf(ref('Session')) }),
+      },
+    },
+    {
+      method: 'delete',
+      path: '/sessions',
+      summary: 'Sign out all other devices',
+      responses: {
+        200: jsonResponse('Other sessions revoked', { revoked: integer() }),
+      },
+    },
+    {
+      method: 'delete',
+      path: '/sessions/:sessionId',
+      summary: 'Sign out one device',
+      request: sessionParamsSchema,
+      responses: {
+        200: jsonResponse('Session revoked'),
+        404: errorResponse('Session not found'),
+      },
+    },
+    {
+      method: 'post',
+      path: '/forgot-password',
+      summary: 'Email a password reset link',
+      description: 'The response is the same whether or not the account exists. Limited per IP address and per email.',
+      auth: 'none',
+      request: forgotPasswordSchema,
+      responses: {
+        200: jsonResponse('Reset link sent if the account exists'),
+        429: errorResponse('Too many requests from this IP address (TOO_MANY_REQUESTS)'),
+      },
+    },
+    {
+      method: 'post',
+      path: '/reset-password',
+      summary: 'Set a new password with a reset token',
+      description: 'Signs out every session of the account.',
+      auth: 'none',
+      request: resetPasswordSchema,
+      responses: {
+        200: jsonResponse('Password reset'),
+        400: errorResponse('Invalid or expired link (INVALID_RESET_TOKEN)'),
+      },
+    },
+    {
+      method: 'post',
+      path: '/change-password',
+      summary: 'Change your password',
+      description: 'Clears a pending forced password change. Other devices are signed out.',
+      request: changePasswordSchema,
+      responses: {
+        200: jsonResponse('Password changed'),
+        400: errorResponse('New password must be different from the current password'),
+        401: errorResponse('Current password is incorrect'),
+      },
+    },
+    {
+      method: 'get',
+      path: '/users',
+      summary: 'List your users',
+      permission: 'user:manage',
+      responses: {
+        200: jsonResponse('Users assigned to the admin', { users: arrayOf(ref('ManagedUser')) }),
+      },
+    },
+    {
+      method: 'get',
+      path: '/lockouts',
+      summary: 'List your accounts locked out after failed logins',
+      description: "Only the admin's own account and their users' accounts. IP lockouts are not listed.",
+      permission: 'user:manage',
+      responses: {
+        200: jsonResponse('Current lockouts', { lockouts: arrayOf(ref('Lockout')) }),
+      },
+    },
+    {
+      method: 'delete',
+      path: '/lockouts/:scope/:identifier',
+      summary: 'Clear the lockout of an account or IP',
+      description:
+        "identifier is the account email (scope accounts) or the IP address (scope ips). Accounts must be the admin's own or one of their users'; IPs must have failed to log in to one of those accounts in the last day.",
+      permission: 'user:manage',
+      request: lockoutParamsSchema,
+      responses: {
+        200: jsonResponse('Lockout cleared'),
+        404: errorResponse('User not found, no failed logins to your accounts from this IP, or no failed attempts recorded'),
+      },
+    },
+    {
+      method: 'put',
+      path: '/users/two-factor-requirement',
+      summary: 'Require two-factor authentication for your users',
+      permission: 'user:manage',
+      request: twoFactorRequirementSchema,
+      responses: {
+        200: jsonResponse('Requirement updated', { requireTwoFactorForUsers: boolean() }),
+        400: errorResponse('Enable two-factor authentication on your own account first (TWO_FACTOR_NOT_ENABLED)'),
+      },
+    },
+    {
+      method: 'post',
+      path: '/users/:userId/reset-two-factor',
+      summary: "Turn off a user's two-factor authentication",
+      permission: 'user:manage',
+      request: userParamsSchema,
+      responses: {
+        200: jsonResponse('Two-factor authentication reset'),
+        404: errorResponse('User not found'),
+      },
+    },
+    {
+      method: 'post',
+      path: '/users/:userId/deactivate',
+      summary: 'Deactivate a user',
+      description: 'Blocks login and signs the user out of every device.',
+      permission: 'user:manage',
+      request: userParamsSchema,
+      responses: {
+        200: managedUser,
+        404: errorResponse('User not found'),
+      },
+    },
+    {
+      method: 'post',
+      path: '/users/:userId/reactivate',
+      summary: 'Reactivate a user',
+      permission: 'user:manage',
+      request: userParamsSchema,
+      responses: {
+        200: managedUser,
+        404: errorResponse('User not found'),
+      },
+    },
+    {
+      method: 'post',
+      path: '/users/:userId/revoke-sessions',
+      summary: 'Sign a user out of every device',
+      permission: 'user:manage',
+      request: userParamsSchema,
+      responses: {
+        200: jsonResponse('Sessions revoked'),
+        404: errorResponse('User not found'),
+      },
+    },
+    {
+      method: 'delete',
+      path: '/users/:email',
+      summary: 'Delete one of your users',
+      permission: 'user:manage',
+      request: userEmailParamsSchema,
+      responses: {
+        200: jsonResponse('User and their sessions deleted'),
+        404: errorResponse('User not found among your users'),
+      },
+    },
+  ],
+};
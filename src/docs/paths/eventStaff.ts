@@ -0,0 +1,88 @@
+import { EventStaffRole } from '../../entities/EventStaffAssignment';
+import {
+  assignStaffSchema,
+  staffListSchema,
+  staffMemberParamsSchema,
+} from '../../validation/eventStaff';
+import {
+  arrayOf,
+  boolean,
+  dateTime,
+  errorResponse,
+  jsonResponse,
+  nullable,
+  object,
+  ref,
+  string,
+  uuid,
+} from '../components';
+import { ApiRouterDocs } from '../types';
+
+const notFound = errorResponse('Event not found');
+const notOwner = errorResponse('Only the admin who created the event can manage its staff');
+
+export const eventStaffDocs: ApiRouterDocs = {
+  prefix: '/api/events/:eventId/staff',
+  tag: 'Event staff',
+  description: 'Users assigned to work on an event, with a role and an optional access window',
+  schemas: {
+    StaffAssignment: object(
+      {
+        id: uuid(),
+        userId: uuid(),
+        user: object({ id: uuid(), name: string(), email: string({ format: 'email' }) }),
+        role: string({ enum: Object.values(EventStaffRole) }),
+        startsAt: nullable(dateTime()),
+        endsAt: nullable(dateTime()),
+        active: boolean(),
+        assignedById: nullable(uuid()),
+        updatedAt: dateTime(),
+      },
+      ['user']
+    ),
+  },
+  operations: [
+    {
+      method: 'get',
+      path: '/',
+      summary: 'List the staff of an event',
+      description: 'active tells whether the assignment grants access now.',
+      permission: 'event:manage-staff',
+      request: staffListSchema,
+      responses: {
+        200: jsonResponse('Assignments, oldest first', { staff: arrayOf(ref('StaffAssignment')) }),
+        403: notOwner,
+        404: notFound,
+      },
+    },
+    {
+      method: 'put',
+      path: '/:userId',
+      summary: 'Assign a user to an event, or change their role or window',
+      description:
+        "Outside startsAt and endsAt the assignment grants nothing; send null to clear either end. " +
+        "The user must be one of the admin's users or within their organisation unit.",
+      permission: 'event:manage-staff',
+      request: assignStaffSchema,
+      responses: {
+        200: jsonResponse('Assignment updated', { assignment: ref('StaffAssignment') }),
+        201: jsonResponse('User assigned', { assignment: ref('StaffAssignment') }),
+        400: errorResponse('endsAt is not after startsAt (INVALID_STAFF_ASSIGNMENT)'),
+        403: errorResponse('Not the creator of the event, or access denied to this user'),
+        404: errorResponse('Event or user not found'),
+      },
+    },
+    {
+      method: 'delete',
+      path: '/:userId',
+      summary: 'Remove a user from the staff of an event',
+      permission: 'event:manage-staff',
+      request: staffMemberParamsSchema,
+      responses: {
+        200: jsonResponse('Staff removed'),
+        403: notOwner,
+        404: errorResponse('Event or staff assignment not found'),
+      },
+    },
+  ],
+};
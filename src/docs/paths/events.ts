@@ -0,0 +1,172 @@
+import {
+  createEventSchema,
+  eventParamsSchema,
+  updateEventSchema,
+  updateRegistrationSchema,
+} from '../../validation/events';
+import {
+  arrayOf,
+  dateTime,
+  errorResponse,
+  jsonResponse,
+  nullable,
+  ref,
+  string,
+  uuid,
+} from '../components';
+import { ApiRouterDocs, OpenApiSchema } from '../types';
+
+// Event fields returned after a create or update
+const savedEvent = (extra: Record<string, OpenApiSchema>): OpenApiSchema => ({
+  type: 'object',
+  properties: {
+    eventId: uuid(),
+    eventName: string(),
+    county: nullable(string()),
+    constituency: nullable(string()),
+    ward: nullable(string()),
+    status: string(),
+    startDate: nullable(dateTime()),
+    endDate: nullable(dateTime()),
+    dailyOpenTime: nullable(string()),
+    dailyCloseTime: nullable(string()),
+    ...extra,
+    createdAt: dateTime(),
+  },
+});
+
+const changes: OpenApiSchema = {
+  type: 'object',
+  description: 'Changed fields, keyed by field name',
+  additionalProperties: ref('FieldChange'),
+};
+
+const notFound = errorResponse('Event not found');
+const notOwner = errorResponse('Only the admin who created the event can do this');
+
+export const eventDocs: ApiRouterDocs = {
+  prefix: '/api/events',
+  tag: 'Events',
+  description: 'Events, their schedule, history and pre-registration link',
+  operations: [
+    {
+      method: 'post',
+      path: '/',
+      summary: 'Create an event',
+      description:
+        'Check-ins are accepted while the event is open, between startDate and endDate and inside ' +
+        'the daily window. The event belongs to the creator\'s organisation unit unless organisationUnitId is given.',
+      permission: 'event:create',
+      request: createEventSchema,
+      responses: {
+        201: jsonResponse('Event created', {
+          event: savedEvent({ organisationUnitId: nullable(uuid()), createdBy: uuid() }),
+        }),
+        400: { description: 'Invalid schedule, e.g. endDate before startDate', schema: ref('ValidationError') },
+        403: errorResponse('Unit outside your organisation unit, or missing permission'),
+      },
+    },
+    {
+      method: 'get',
+      path: '/',
+      summary: 'List the events you can access',
+      description:
+        'Events you created, events you are currently assigned to as staff, and events of your ' +
+        'organisation unit and the units below it.',
+      permission: 'event:view',
+      responses: {
+        200: jsonResponse('Accessible events', { events: arrayOf(ref('Event')) }),
+      },
+    },
+    {
+      method: 'get',
+      path: '/:eventId',
+      summary: 'Get an event',
+      permission: 'event:view',
+      request: eventParamsSchema,
+      responses: {
+        200: jsonResponse('Event', { event: ref('Event') }),
+        404: notFound,
+      },
+    },
+    {
+      method: 'put',
+      path: '/:eventId',
+      summary: 'Update an event',
+      description:
+        'Only the fields sent are changed; send null to clear a value. Each change is recorded in the event history.',
+      permission: 'event:update',
+      request: updateEventSchema,
+      responses: {
+        200: jsonResponse('Event updated (or nothing to change)', {
+          changes,
+          event: savedEvent({ updatedAt: dateTime() }),
+        }),
+        400: { description: 'Invalid schedule, e.g. endDate before startDate', schema: ref('ValidationError') },
+        403: notOwner,
+        404: notFound,
+      },
+    },
+    {
+      method: 'get',
+      path: '/:eventId/history',
+      summary: 'Get the change history of an event',
+      description: 'Newest first.',
+      permission: 'event:update',
+      request: eventParamsSchema,
+      responses: {
+        200: jsonResponse('Event history', {
+          history: arrayOf({
+            type: 'object',
+            properties: {
+              id: uuid(),
+              changes,
+              changedBy: nullable(ref('UserSummary')),
+              changedAt: dateTime(),
+            },
+          }),
+        }),
+        403: notOwner,
+        404: notFound,
+      },
+    },
+    {
+      method: 'get',
+      path: '/:eventId/registration',
+      summary: 'Get the pre-registration link settings',
+      permission: 'event:manage-registration',
+      request: eventParamsSchema,
+      responses: {
+        200: jsonResponse('Registration settings', { registration: ref('Registration') }),
+        403: notOwner,
+        404: notFound,
+      },
+    },
+    {
+      method: 'put',
+      path: '/:eventId/registration',
+      summary: 'Open or close the pre-registration link',
+      description:
+        'A link is generated the first time registration is opened; regenerateLink replaces it and the old link stops working.',
+      permission: 'event:manage-registration',
+      request: updateRegistrationSchema,
+      responses: {
+        200: jsonResponse('Registration settings', { registration: ref('Registration') }),
+        403: notOwner,
+        404: notFound,
+      },
+    },
+    {
+      method: 'delete',
+      path: '/:eventId',
+      summary: 'Delete an event',
+      permission: 'event:delete',
+      request: eventParamsSchema,
+      responses: {
+        200: jsonResponse('Event deleted'),
+        403: notOwner,
+        404: notFound,
+      },
+    },
+  ],
+};
@@ -0,0 +1,133 @@
+import { InvitationStatus } from '../../entities/UserInvitation';
+import { UserRole } from '../../entities/User';
+import {
+  acceptInvitationSchema,
+  createInvitationSchema,
+  invitationListSchema,
+  invitationParamsSchema,
+  invitationTokenParamsSchema,
+} from '../../validation/auth';
+import {
+  arrayOf,
+  boolean,
+  dateTime,
+  errorResponse,
+  jsonResponse,
+  nullable,
+  object,
+  ref,
+  string,
+  uuid,
+} from '../components';
+import { ApiRouterDocs } from '../types';
+
+const invalidInvitation = errorResponse('Invitation is invalid, expired, accepted or revoked (INVALID_INVITATION)');
+
+export const invitationDocs: ApiRouterDocs = {
+  prefix: '/api/auth/invitations',
+  tag: 'Invitations',
+  description: 'Inviting users by email; invitees choose their own password from the link',
+  schemas: {
+    Invitation: object({
+      id: uuid(),
+      name: string(),
+      email: string({ format: 'email' }),
+      status: string({ enum: Object.values(InvitationStatus) }),
+      expiresAt: dateTime(),
+      lastSentAt: nullable(dateTime()),
+      acceptedAt: nullable(dateTime()),
+      revokedAt: nullable(dateTime()),
+      userId: nullable(uuid()),
+      createdAt: dateTime(),
+    }),
+  },
+  operations: [
+    {
+      method: 'get',
+      path: '/accept/:token',
+      summary: 'Get invitation details for the accept page',
+      auth: 'none',
+      request: invitationTokenParamsSchema,
+      responses: {
+        200: jsonResponse('Pending invitation', {
+          invitation: object({ name: string(), email: string({ format: 'email' }), expiresAt: dateTime() }),
+        }),
+        404: invalidInvitation,
+      },
+    },
+    {
+      method: 'post',
+      path: '/accept/:token',
+      summary: 'Accept an invitation by choosing a password',
+      description: 'Creates the account; the user then logs in.',
+      auth: 'none',
+      request: acceptInvitationSchema,
+      responses: {
+        201: jsonResponse('Account created', {
+          user: object({
+            id: uuid(),
+            name: string(),
+            email: string({ format: 'email' }),
+            role: string({ enum: Object.values(UserRole) }),
+          }),
+        }),
+        404: invalidInvitation,
+        409: errorResponse('An account with this email already exists (ACCOUNT_EXISTS)'),
+      },
+    },
+    {
+      method: 'get',
+      path: '/',
+      summary: 'List the invitations you sent',
+      permission: 'user:manage',
+      request: invitationListSchema,
+      responses: {
+        200: jsonResponse('Invitations, newest first', { invitations: arrayOf(ref('Invitation')) }),
+      },
+    },
+    {
+      method: 'post',
+      path: '/',
+      summary: 'Invite a new user',
+      description: 'Emails a link, valid for INVITATION_TTL_HOURS, where the invitee chooses a password.',
+      permission: 'user:manage',
+      request: createInvitationSchema,
+      responses: {
+        201: jsonResponse('Invitation created; emailSent is false if the email could not be sent', {
+          emailSent: boolean(),
+          invitation: ref('Invitation'),
+        }),
+        400: errorResponse("A user with this email already exists, or another admin's invitation to it is pending"),
+        409: errorResponse('You already sent this email a pending invitation (INVITATION_PENDING)'),
+      },
+    },
+    {
+      method: 'post',
+      path: '/:invitationId/resend',
+      summary: 'Resend an invitation with a new link and expiry',
+      description: 'Earlier links stop working.',
+      permission: 'user:manage',
+      request: invitationParamsSchema,
+      responses: {
+        200: jsonResponse('Invitation renewed; emailSent is false if the email could not be sent', {
+          emailSent: boolean(),
+          invitation: ref('Invitation'),
+        }),
+        404: errorResponse('Invitation not found'),
+        409: errorResponse('Invitation was accepted or revoked (INVITATION_ACCEPTED, INVITATION_REVOKED)'),
+      },
+    },
+    {
+      method: 'delete',
+      path: '/:invitationId',
+      summary: 'Revoke an invitation',
+      permission: 'user:manage',
+      request: invitationParamsSchema,
+      responses: {
+        200: jsonResponse('Invitation revoked', { invitation: ref('Invitation') }),
+        404: errorResponse('Invitation not found'),
+        409: errorResponse('Invitation has already been accepted (INVITATION_ACCEPTED)'),
+      },
+    },
+  ],
+};
@@ -0,0 +1,306 @@
+import {
+  MAX_SYNC_BATCH_SIZE,
+  badgeSchema,
+  badgeSheetSchema,
+  checkInSchema,
+  checkOutSchema,
+  eventParticipantsSchema,
+  listParticipantsSchema,
+  participantsByDateSchema,
+  scanCheckInSchema,
+  searchParticipantSchema,
+  syncCheckInItemSchema,
+  syncCheckInsSchema,
+  voidCheckInSchema,
+} from '../../validation/participants';
+import { joiToOpenApi } from '../joiSchema';
+import {
+  arrayOf,
+  boolean,
+  date,
+  dateTime,
+  errorResponse,
+  integer,
+  jsonResponse,
+  nullable,
+  object,
+  ref,
+  string,
+  uuid,
+} from '../components';
+import { ApiResponse, ApiRouterDocs } from '../types';
+
+const eventNotFound = errorResponse('Event not found');
+const noEventAccess = errorResponse('Access denied to this event');
+
+const checkInResponses: Record<number, ApiResponse> = {
+  200: { description: 'Participant re-entered after checking out earlier the same day', schema: ref('CheckInResult') },
+  201: { description: 'Participant checked in', schema: ref('CheckInResult') },
+  400: errorResponse('Voter already checked in today'),
+  403: noEventAccess,
+  404: eventNotFound,
+  409: errorResponse(
+    'Event not accepting check-ins: EVENT_NOT_OPEN, EVENT_NOT_STARTED, EVENT_ENDED or OUTSIDE_CHECKIN_WINDOW'
+  ),
+};
+
+export const participantDocs: ApiRouterDocs = {
+  prefix: '/api/participants',
+  tag: 'Participants',
+  description: 'Voter lookup, check-in and check-out, listings, badges and voiding',
+  // Items of a sync request are validated one by one, not with the request body
+  schemas: {
+    SyncCheckInItem: joiToOpenApi(syncCheckInItemSchema),
+  },
+  operations: [
+    {
+      method: 'post',
+      path: '/search',
+      summary: 'Look up a voter for an event',
+      description:
+        "Searches the event admin's imported register, then the local voter cache, then the voter lookup API, " +
+        "limited to the event's county, constituency and ward.",
+      permission: 'participant:search',
+      request: searchParticipantSchema,
+      responses: {
+        200: jsonResponse('Voter found', {
+          participant: ref('VoterInfo'),
+          source: string({ enum: ['register', 'cache', 'api', 'stale-cache'] }),
+        }),
+        403: noEventAccess,
+        404: errorResponse('Event or participant not found'),
+      },
+    },
+    {
+      method: 'post',
+      path: '/checkin',
+      summary: 'Check in a participant',
+      description:
+        'Once per participant per day. A participant who checked out earlier the same day re-enters instead (200).',
+      permission: 'participant:checkin',
+      request: checkInSchema,
+      responses: checkInResponses,
+    },
+    {
+      method: 'post',
+      path: '/checkin/scan',
+      summary: 'Check in a participant by scanning their QR badge',
+      permission: 'participant:checkin',
+      request: scanCheckInSchema,
+      responses: {
+        ...checkInResponses,
+        400: errorResponse(
+          'Invalid badge (INVALID_BADGE), badge of another event (BADGE_EVENT_MISMATCH) or already checked in today'
+        ),
+      },
+    },
+    {
+      method: 'post',
+      path: '/checkout',
+      summary: 'Check out a participant',
+      description: "Closes the participant's current visit for the day. Accepted outside the daily check-in window.",
+      permission: 'participant:checkin',
+      request: checkOutSchema,
+      responses: {
+        200: jsonResponse('Participant checked out', {
+          checkIn: ref('CheckIn'),
+          visit: object({
+            id: uuid(),
+            enteredAt: dateTime(),
+            exitedAt: dateTime(),
+            durationMinutes: integer(),
+          }),
+          participant: ref('ParticipantSummary'),
+        }),
+        403: noEventAccess,
+        404: errorResponse('Event not found, or participant not checked in today (NOT_CHECKED_IN)'),
+        409: errorResponse('Participant already checked out (ALREADY_CHECKED_OUT)'),
+      },
+    },
+    {
+      method: 'post',
+      path: '/checkin/sync',
+      summary: 'Upload check-ins captured offline',
+      description:
+        `Up to ${MAX_SYNC_BATCH_SIZE} items, applied in order, each on its own. Items are validated one by one ` +
+        'against the SyncCheckInItem schema; invalid items are rejected with code VALIDATION_ERROR without failing the batch. ' +
+        'Re-sending an idempotencyKey (scoped to the signed-in user) returns "replayed"; reusing it for another event is ' +
+        'rejected with IDEMPOTENCY_KEY_REUSED.',
+      permission: 'participant:checkin',
+      request: syncCheckInsSchema,
+      responses: {
+        200: jsonResponse('Result per item', {
+          summary: object({
+            total: integer(),
+            created: integer(),
+            replayed: integer(),
+            conflicts: integer(),
+            rejected: integer(),
+            errors: integer(),
+          }),
+          results: arrayOf(ref('SyncItemResult')),
+        }),
+      },
+    },
+    {
+      method: 'get',
+      path: '/event/:eventId',
+      summary: 'List the participants of an event',
+      description:
+        'One page at a time. Pass nextCursor back as cursor with the same sortBy and order for the next page.',
+      permission: 'participant:view',
+      request: listParticipantsSchema,
+      responses: {
+        200: jsonResponse('Page of participants', {
+          participants: arrayOf(ref('ListedParticipant')),
+          pagination: object({
+            limit: integer(),
+            total: integer({ description: 'Participants matching the filters' }),
+            hasMore: boolean(),
+            nextCursor: nullable(string()),
+          }),
+        }),
+        403: noEventAccess,
+        404: eventNotFound,
+      },
+    },
+    {
+      method: 'get',
+      path: '/event/:eventId/live',
+      summary: 'Stream check-ins as they happen',
+      description:
+        'Server-Sent Events: "totals" on connect, then "checkin" and "void" events. Missed check-ins (up to 500) ' +
+        'are replayed after Last-Event-ID. EventSource cannot set headers, so access_token may be passed as a query parameter.',
+      permission: 'participant:view',
+      request: eventParticipantsSchema,
+      extraParameters: [
+        { name: 'access_token', in: 'query', required: false, description: 'Access token, instead of the Authorization header', schema: string() },
+        { name: 'lastEventId', in: 'query', required: false, description: 'Fallback for the Last-Event-ID header', schema: string() },
+        { name: 'Last-Event-ID', in: 'header', required: false, description: 'Sent by browsers on reconnect', schema: string() },
+      ],
+      responses: {
+        200: {
+          description: 'Event stream',
+          content: {
+            'text/event-stream': string({
+              description:
+                'checkin data: { checkIn, participant, checkedInBy, totals }; ' +
+                'totals data: { totalCheckIns, uniqueAttendees, checkInsToday }',
+            }),
+          },
+        },
+        403: noEventAccess,
+        404: eventNotFound,
+      },
+    },
+    {
+      method: 'get',
+      path: '/event/:eventId/badges',
+      summary: 'Download a printable sheet of QR badges',
+      description: 'A4 PDF, eight badges per page, sorted by name.',
+      permission: 'participant:view',
+      request: badgeSheetSchema,
+      responses: {
+        200: { description: 'Badge sheet', content: { 'application/pdf': string({ format: 'binary' }) } },
+        403: noEventAccess,
+        404: eventNotFound,
+      },
+    },
+    {
+      method: 'get',
+      path: '/:participantId/badge',
+      summary: "Get a participant's QR badge",
+      permission: 'participant:view',
+      request: badgeSchema,
+      responses: {
+        200: {
+          description: 'Badge image (png by default)',
+          content: {
+            'image/png': string({ format: 'binary' }),
+            'image/svg+xml': string(),
+          },
+        },
+        403: noEventAccess,
+        404: errorResponse('Participant not found'),
+      },
+    },
+    {
+      method: 'get',
+      path: '/event/:eventId/date/:date',
+      summary: 'List the check-ins of one day',
+      description: 'Newest first; voided check-ins are left out.',
+      permission: 'participant:view',
+      request: participantsByDateSchema,
+      responses: {
+        200: jsonResponse('Check-ins of the day', {
+          date: date(),
+          count: integer(),
+          participants: arrayOf(
+            object({
+              checkInId: uuid(),
+              checkInDate: date(),
+              checkedInAt: dateTime(),
+              participant: ref('ParticipantDetails'),
+              checkedInBy: ref('UserSummary'),
+            })
+          ),
+        }),
+        403: noEventAccess,
+        404: eventNotFound,
+      },
+    },
+    {
+      method: 'post',
+      path: '/checkins/:checkInId/void',
+      summary: 'Void a check-in recorded in error',
+      description:
+        'Registrars can void check-ins they recorded; supervisors and the event admin any check-in of the event.',
+      permission: 'checkin:void',
+      request: voidCheckInSchema,
+      responses: {
+        200: jsonResponse('Check-in voided', {
+          checkIn: object({
+            id: uuid(),
+            participantId: uuid(),
+            eventId: uuid(),
+            checkInDate: date(),
+            checkedInAt: dateTime(),
+            voidedAt: dateTime(),
+            voidedById: uuid(),
+            voidReason: string(),
+          }),
+        }),
+        403: errorResponse('Access denied to this event, or not your check-in'),
+        404: errorResponse('Check-in not found'),
+        409: errorResponse('Check-in has already been voided'),
+      },
+    },
+    {
+      method: 'get',
+      path: '/event/:eventId/voided',
+      summary: 'List the voided check-ins of an event',
+      description: 'Newest first.',
+      permission: 'participant:view',
+      request: eventParticipantsSchema,
+      responses: {
+        200: jsonResponse('Voided check-ins', {
+          count: integer(),
+          checkIns: arrayOf(
+            object({
+              id: uuid(),
+              checkInDate: date(),
+              checkedInAt: dateTime(),
+              participant: ref('ParticipantSummary'),
+              checkedInBy: ref('UserSummary'),
+              voidedAt: dateTime(),
+              voidedBy: nullable(ref('UserSummary')),
+              voidReason: nullable(string()),
+            })
+          ),
+        }),
+        403: noEventAccess,
+        404: eventNotFound,
+      },
+    },
+  ],
+};
@@ -0,0 +1,92 @@
+import { twoFactorCodeSchema, twoFactorDisableSchema, twoFactorSetupSchema } from '../../validation/auth';
+import { arrayOf, boolean, dateTime, errorResponse, integer, jsonResponse, nullable, string } from '../components';
+import { ApiRouterDocs } from '../types';
+
+const recoveryCodes = arrayOf(string({ description: 'Single-use recovery code' }));
+const invalidCode = errorResponse('Invalid authentication code (INVALID_TWO_FACTOR_CODE)');
+const alreadyEnabled = errorResponse('Two-factor authentication is already enabled (TWO_FACTOR_ALREADY_ENABLED)');
+const notEnabled = errorResponse('Two-factor authentication is not enabled (TWO_FACTOR_NOT_ENABLED)');
+// Wrong passwords and codes count towards the account's login lockout
+const throttled = errorResponse(
+  'Too many failed attempts (TOO_MANY_ATTEMPTS) or account locked (ACCOUNT_LOCKED); see Retry-After'
+);
+
+export const twoFactorDocs: ApiRouterDocs = {
+  prefix: '/api/auth/2fa',
+  tag: 'Two-Factor Authentication',
+  description: 'Enrolling in and managing TOTP two-factor authentication',
+  operations: [
+    {
+      method: 'get',
+      path: '/',
+      summary: 'Get your two-factor status',
+      description: 'Also available while two-factor setup is pending.',
+      responses: {
+        200: jsonResponse('Two-factor status', {
+          enabled: boolean(),
+          enabledAt: nullable(dateTime()),
+          required: boolean(),
+          recoveryCodesLeft: integer(),
+        }),
+      },
+    },
+    {
+      method: 'post',
+      path: '/setup',
+      summary: 'Start enrolment',
+      description:
+        'Returns a new secret and a QR code for the authenticator app. Two-factor authentication is not on ' +
+        'until a code is confirmed with /enable. Also available while two-factor setup is pending.',
+      request: twoFactorSetupSchema,
+      responses: {
+        200: jsonResponse('Secret to add to the authenticator app', {
+          secret: string({ description: 'Base32' }),
+          otpauthUrl: string(),
+          qrCode: string({ description: 'PNG data URL' }),
+        }),
+        401: errorResponse('Password is incorrect'),
+        409: alreadyEnabled,
+        429: throttled,
+      },
+    },
+    {
+      method: 'post',
+      path: '/enable',
+      summary: 'Finish enrolment with a code from the app',
+      description: 'The recovery codes are shown only once. Also available while two-factor setup is pending.',
+      request: twoFactorCodeSchema,
+      responses: {
+        200: jsonResponse('Two-factor authentication enabled', { recoveryCodes }),
+        400: errorResponse('Setup not started (TWO_FACTOR_SETUP_NOT_STARTED) or wrong code (INVALID_TWO_FACTOR_CODE)'),
+        409: alreadyEnabled,
+      },
+    },
+    {
+      method: 'post',
+      path: '/recovery-codes',
+      summary: 'Replace your recovery codes',
+      description: 'Needs a current code from the app. The previous codes stop working.',
+      request: twoFactorCodeSchema,
+      responses: {
+        200: jsonResponse('New recovery codes', { recoveryCodes }),
+        400: notEnabled,
+        401: invalidCode,
+        429: throttled,
+      },
+    },
+    {
+      method: 'post',
+      path: '/disable',
+      summary: 'Turn two-factor authentication off',
+      description: 'Needs the password and a code from the app or a recovery code.',
+      request: twoFactorDisableSchema,
+      responses: {
+        200: jsonResponse('Two-factor authentication disabled'),
+        400: notEnabled,
+        401: errorResponse('Password is incorrect, or invalid authentication code (INVALID_TWO_FACTOR_CODE)'),
+        403: errorResponse('Your administrator requires two-factor authentication (TWO_FACTOR_REQUIRED)'),
+        429: throttled,
+      },
+    },
+  ],
+};
@@ -0,0 +1,68 @@
+import { RequestSchemas } from '../middleware/validate';
+import { Permission } from '../services/permissions';
+
+// Subset of the OpenAPI 3.0 Schema Object used by the API documentation
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  format?: string;
+  pattern?: string;
+  enum?: unknown[];
+  nullable?: boolean;
+  description?: string;
+  example?: unknown;
+  default?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  allOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema: OpenApiSchema;
+}
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+export interface ApiResponse {
+  description: string;
+  schema?: OpenApiSchema; // JSON body
+  content?: Record<string, OpenApiSchema>; // Other media types (PDF, images, event streams)
+  headers?: Record<string, { description: string; schema: OpenApiSchema }>;
+}
+
+export interface ApiOperation {
+  method: HttpMethod;
+  path: string; // Express path relative to the router, e.g. /:eventId/history
+  summary: string;
+  description?: string;
+  auth?: 'bearer' | 'refreshCookie' | 'none'; // Defaults to bearer
+  permission?: Permission;
+  // The schemas the route validates; request parameters and bodies are
+  // generated from them, so they are the same objects the route passes to validate()
+  request?: RequestSchemas;
+  extraParameters?: OpenApiParameter[]; // Read by the handler without validation
+  responses: Record<number, ApiResponse>;
+}
+
+// Documentation of the routes of one router
+export interface ApiRouterDocs {
+  prefix: string; // Mount point, e.g. /api/events
+  tag: string;
+  description: string;
+  schemas?: Record<string, OpenApiSchema>; // Added to the document's component schemas
+  operations: ApiOperation[];
+}
@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { CheckInLog } from './CheckInLog';
+import { Participant } from './Participant';
+import { Event } from './Event';
+import { User } from './User';
+
+// One stay on site: a check-in (or re-entry) and the matching check-out.
+// A participant has at most one check-in log per day but may have several visits.
+@Entity('attendance_visits')
+@Index(['checkInLogId', 'exitedAt'])
+@Index(['eventId', 'enteredAt'])
+export class AttendanceVisit {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  checkInLogId: string;
+
+  @ManyToOne(() => CheckInLog, (checkInLog) => checkInLog.visits, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'checkInLogId' })
+  checkInLog: CheckInLog;
+
+  @Column({ type: 'uuid' })
+  participantId: string;
+
+  @ManyToOne(() => Participant, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'participantId' })
+  participant: Participant;
+
+  @Column({ type: 'uuid' })
+  eventId: string;
+
+  @ManyToOne(() => Event, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'eventId' })
+  event: Event;
+
+  @Column({ type: 'timestamp' })
+  enteredAt: Date;
+
+  @Column({ type: 'uuid' })
+  enteredById: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'enteredById' })
+  enteredBy: User;
+
+  @Column({ type: 'timestamp', nullable: true })
+  exitedAt: Date | null; // NULL while the participant is still on site
+
+  @Column({ type: 'uuid', nullable: true })
+  exitedById: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'exitedById' })
+  exitedBy: User | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,128 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './User';
+import { FieldChange } from './EventHistory';
+
+// Stored as varchar so new actions need no schema change on a large table
+export enum AuditAction {
+  // Authentication
+  SIGNUP = 'auth.signup',
+  LOGIN = 'auth.login',
+  LOGIN_FAILED = 'auth.login_failed',
+  ACCOUNT_LOCKED = 'auth.account_locked',
+  LOGOUT = 'auth.logout',
+  REFRESH_TOKEN_REUSED = 'auth.refresh_token_reused',
+  SESSION_REVOKED = 'auth.session_revoked',
+  PASSWORD_CHANGED = 'auth.password_changed',
+  PASSWORD_RESET_REQUESTED = 'auth.password_reset_requested',
+  PASSWORD_RESET = 'auth.password_reset',
+  TWO_FACTOR_ENABLED = 'auth.two_factor_enabled',
+  TWO_FACTOR_DISABLED = 'auth.two_factor_disabled',
+  RECOVERY_CODES_REGENERATED = 'auth.recovery_codes_regenerated',
+
+  // User administration
+  USER_INVITED = 'user.invited',
+  INVITATION_RESENT = 'user.invitation_resent',
+  INVITATION_REVOKED = 'user.invitation_revoked',
+  USER_CREATED = 'user.created',
+  USER_DELETED = 'user.deleted',
+  USER_DEACTIVATED = 'user.deactivated',
+  USER_REACTIVATED = 'user.reactivated',
+  USER_SESSIONS_REVOKED = 'user.sessions_revoked',
+  USER_TWO_FACTOR_RESET = 'user.two_factor_reset',
+  USER_ROLE_CHANGED = 'user.role_changed',
+  USER_UNIT_CHANGED = 'user.unit_changed',
+  TWO_FACTOR_REQUIREMENT_CHANGED = 'user.two_factor_requirement_changed',
+  LOCKOUT_CLEARED = 'user.lockout_cleared',
+
+  // Roles and organisation
+  ROLE_CREATED = 'role.created',
+  ROLE_UPDATED = 'role.updated',
+  ROLE_DELETED = 'role.deleted',
+  ORGANISATION_UNIT_CREATED = 'organisation.unit_created',
+
+  // Events
+  EVENT_CREATED = 'event.created',
+  EVENT_UPDATED = 'event.updated',
+  EVENT_DELETED = 'event.deleted',
+  EVENT_REGISTRATION_UPDATED = 'event.registration_updated',
+  EVENT_STAFF_ASSIGNED = 'event.staff_assigned',
+  EVENT_STAFF_REMOVED = 'event.staff_removed',
+
+  // Voters and participants
+  VOTER_SEARCHED = 'voter.searched',
+  VOTER_REGISTER_IMPORTED = 'voter.register_imported',
+  VOTER_REGISTER_CLEARED = 'voter.register_cleared',
+  VOTER_CACHE_PURGED = 'voter.cache_purged',
+  PARTICIPANT_CHECKED_IN = 'participant.checked_in',
+  PARTICIPANT_CHECKED_OUT = 'participant.checked_out',
+  CHECK_INS_SYNCED = 'participant.check_ins_synced',
+  CHECK_IN_VOIDED = 'participant.check_in_voided',
+  ATTENDANCE_EXPORTED = 'report.attendance_exported',
+  AUDIT_LOG_EXPORTED = 'audit.exported',
+}
+
+export enum AuditOutcome {
+  SUCCESS = 'success',
+  FAILURE = 'failure',
+}
+
+@Entity('audit_logs')
+@Index(['createdAt'])
+@Index(['action', 'createdAt'])
+@Index(['actorId', 'createdAt'])
+@Index(['targetType', 'targetId'])
+@Index(['eventId', 'createdAt'])
+export class AuditLog {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  action: AuditAction;
+
+  @Column({ type: 'enum', enum: AuditOutcome, default: AuditOutcome.SUCCESS })
+  outcome: AuditOutcome;
+
+  @Column({ type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actorId' })
+  actor: User | null;
+
+  // Kept as text so entries stay readable after the user is deleted, and for failed logins
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  actorEmail: string | null;
+
+  @Column({ type: 'varchar', length: 45, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'varchar', length: 32, nullable: true })
+  targetType: string | null; // e.g. user, event, participant, check_in, role
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  targetId: string | null;
+
+  // Event the action relates to; no foreign key so entries outlive deleted events
+  @Column({ type: 'uuid', nullable: true })
+  eventId: string | null;
+
+  @Column({ type: 'json', nullable: true })
+  changes: Record<string, FieldChange> | null; // Field name -> old and new value
+
+  @Column({ type: 'json', nullable: true })
+  metadata: Record<string, unknown> | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
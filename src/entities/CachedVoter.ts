@@ -0,0 +1,58 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('voter_cache')
+export class CachedVoter {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 50 })
+  idNumber: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  dateOfBirth: string; // As returned by the voter lookup API
+
+  @Column({ type: 'varchar', length: 20 })
+  sex: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  county: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  constituency: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  ward: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  pollingCenter: string;
+
+  @Column({ type: 'timestamp' })
+  fetchedAt: Date; // Last successful fetch from the voter lookup API
+
+  @Index()
+  @Column({ type: 'timestamp' })
+  expiresAt: Date; // Fresh until this moment, then only used as a fallback
+
+  @Column({ type: 'int', default: 0 })
+  hitCount: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastHitAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -5,14 +5,21 @@ import {
   CreateDateColumn,
   ManyToOne,
   JoinColumn,
+  OneToMany,
   Index,
 } from 'typeorm';
 import { Participant } from './Participant';
 import { User } from './User';
 import { Event } from './Event';
+import { AttendanceVisit } from './AttendanceVisit';
 
 @Entity('check_in_logs')
-@Index(['participantId', 'eventId', 'checkInDate'], { unique: true })
+// Only active check-ins are unique per day: voiding sets `active` to NULL,
+// which the unique index ignores, so the participant can be checked in again
+@Index(['participantId', 'eventId', 'checkInDate', 'active'], { unique: true })
+@Index(['eventId', 'checkInDate'])
+// Idempotency keys are generated per device, so they are only unique per user
+@Index(['checkedInById', 'idempotencyKey'], { unique: true })
 export class CheckInLog {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -44,7 +51,29 @@ export class CheckInLog {
   checkInDate: Date; // Date only (for reporting by date)
 
   @Column({ type: 'timestamp' })
-  checkedInAt: Date; // Full timestamp
+  checkedInAt: Date; // Full timestamp (first arrival of the day)
+
+  @OneToMany(() => AttendanceVisit, (visit) => visit.checkInLog)
+  visits: AttendanceVisit[];
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  idempotencyKey: string | null; // Client-generated key for offline sync replays
+
+  @Column({ type: 'boolean', nullable: true, default: true })
+  active: true | null; // true while valid, NULL once voided
+
+  @Column({ type: 'timestamp', nullable: true })
+  voidedAt: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  voidedById: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'voidedById' })
+  voidedBy: User | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  voidReason: string | null;
 
   @CreateDateColumn()
   createdAt: Date;
@@ -11,6 +11,14 @@ import {
 import { User } from './User';
 import { Participant } from './Participant';
 import { CheckInLog } from './CheckInLog';
+import { OrganisationUnit } from './OrganisationUnit';
+
+export enum EventStatus {
+  DRAFT = 'draft',
+  OPEN = 'open',
+  CLOSED = 'closed',
+  ARCHIVED = 'archived',
+}
 
 @Entity('events')
 export class Event {
@@ -29,6 +37,31 @@ export class Event {
   @Column({ type: 'varchar', length: 255, nullable: true })
   ward: string | null;
 
+  @Column({
+    type: 'enum',
+    enum: EventStatus,
+    default: EventStatus.OPEN,
+  })
+  status: EventStatus;
+
+  @Column({ type: 'datetime', nullable: true })
+  startDate: Date | null; // Check-ins are rejected before this moment
+
+  @Column({ type: 'datetime', nullable: true })
+  endDate: Date | null; // Check-ins are rejected after this moment
+
+  @Column({ type: 'time', nullable: true })
+  dailyOpenTime: string | null; // HH:MM:SS, opening time on each event day
+
+  @Column({ type: 'time', nullable: true })
+  dailyCloseTime: string | null; // HH:MM:SS, closing time on each event day
+
+  @Column({ type: 'varchar', length: 64, nullable: true, unique: true })
+  registrationToken: string | null; // Secret part of the public pre-registration link
+
+  @Column({ type: 'boolean', default: false })
+  registrationOpen: boolean;
+
   @Column({ type: 'uuid' })
   createdById: string;
 
@@ -36,6 +69,13 @@ export class Event {
   @JoinColumn({ name: 'createdById' })
   createdBy: User;
 
+  @Column({ type: 'uuid', nullable: true })
+  organisationUnitId: string | null; // Unit the event belongs to, for hierarchical access
+
+  @ManyToOne(() => OrganisationUnit, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'organisationUnitId' })
+  organisationUnit: OrganisationUnit | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
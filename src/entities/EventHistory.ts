@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Event } from './Event';
+import { User } from './User';
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+@Entity('event_history')
+@Index(['eventId', 'createdAt'])
+export class EventHistory {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  eventId: string;
+
+  @ManyToOne(() => Event, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'eventId' })
+  event: Event;
+
+  @Column({ type: 'uuid', nullable: true })
+  changedById: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'changedById' })
+  changedBy: User | null;
+
+  @Column({ type: 'json' })
+  changes: Record<string, FieldChange>; // Field name -> old and new value
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Event } from './Event';
+import { User } from './User';
+
+export enum EventStaffRole {
+  REGISTRAR = 'registrar', // Looks up, checks in and checks out participants
+  SUPERVISOR = 'supervisor', // Registrar who can also void other staff's check-ins
+  VIEWER = 'viewer', // Read-only: participant listings and reports
+}
+
+@Entity('event_staff')
+@Index(['eventId', 'userId'], { unique: true })
+@Index(['userId'])
+export class EventStaffAssignment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  eventId: string;
+
+  @ManyToOne(() => Event, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'eventId' })
+  event: Event;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({
+    type: 'enum',
+    enum: EventStaffRole,
+  })
+  role: EventStaffRole;
+
+  @Column({ type: 'datetime', nullable: true })
+  startsAt: Date | null; // Access begins at this moment (NULL: immediately)
+
+  @Column({ type: 'datetime', nullable: true })
+  endsAt: Date | null; // Access ends at this moment (NULL: no end)
+
+  @Column({ type: 'uuid', nullable: true })
+  assignedById: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'assignedById' })
+  assignedBy: User | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,64 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+
+// Levels of the campaign organisation, from the top down
+export enum OrganisationLevel {
+  NATIONAL = 'national',
+  COUNTY = 'county',
+  CONSTITUENCY = 'constituency',
+  WARD = 'ward',
+}
+
+export const ORGANISATION_LEVELS: OrganisationLevel[] = [
+  OrganisationLevel.NATIONAL,
+  OrganisationLevel.COUNTY,
+  OrganisationLevel.CONSTITUENCY,
+  OrganisationLevel.WARD,
+];
+
+@Entity('organisation_units')
+@Index(['parentId', 'name'], { unique: true })
+export class OrganisationUnit {
+  @PrimaryColumn({ type: 'uuid' })
+  id: string; // Generated before insert, as it is part of the path
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({
+    type: 'enum',
+    enum: OrganisationLevel,
+  })
+  level: OrganisationLevel;
+
+  @Column({ type: 'uuid', nullable: true })
+  parentId: string | null;
+
+  @ManyToOne(() => OrganisationUnit, (unit) => unit.children, { nullable: true, onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'parentId' })
+  parent: OrganisationUnit | null;
+
+  @OneToMany(() => OrganisationUnit, (unit) => unit.parent)
+  children: OrganisationUnit[];
+
+  // Materialised path of ancestor ids including this unit, e.g. "/<national>/<county>/".
+  // Descendants of a unit are the units whose path starts with its path.
+  @Index()
+  @Column({ type: 'varchar', length: 200 })
+  path: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
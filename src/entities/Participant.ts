@@ -7,12 +7,24 @@ import {
   ManyToOne,
   OneToMany,
   JoinColumn,
+  Index,
 } from 'typeorm';
 import { User } from './User';
 import { Event } from './Event';
 import { CheckInLog } from './CheckInLog';
 
+export enum ParticipantStatus {
+  REGISTERED = 'registered', // Pre-registered, not yet arrived
+  ATTENDED = 'attended',
+}
+
 @Entity('participants')
+@Index(['eventId', 'idNumber'])
+@Index(['eventId', 'createdAt'])
+@Index(['eventId', 'name'])
+@Index(['eventId', 'sex'])
+@Index(['eventId', 'ward', 'pollingCenter'])
+@Index(['eventId', 'status'])
 export class Participant {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -41,6 +53,16 @@ export class Participant {
   @Column({ type: 'varchar', length: 255, nullable: true })
   pollingCenter: string | null;
 
+  @Column({
+    type: 'enum',
+    enum: ParticipantStatus,
+    default: ParticipantStatus.ATTENDED,
+  })
+  status: ParticipantStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  registeredAt: Date | null; // Set when the participant pre-registered through the public link
+
   @Column({ type: 'uuid' })
   eventId: string;
 
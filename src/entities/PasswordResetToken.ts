@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './User';
+
+// Single-use password reset link; only a hash of the emailed token is stored
+@Entity('password_reset_tokens')
+@Index(['userId'])
+export class PasswordResetToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'char', length: 64, unique: true })
+  tokenHash: string; // SHA-256 (hex) of the token
+
+  @Column({ type: 'datetime' })
+  expiresAt: Date;
+
+  @Column({ type: 'datetime', nullable: true })
+  usedAt: Date | null; // Set when used, or when superseded by a newer reset
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+// A named set of permissions. The built-in "admin" and "user" roles apply to
+// accounts of that type that have no custom role assigned. Custom roles
+// belong to the admin who created them.
+@Entity('roles')
+export class Role {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100, unique: true })
+  name: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  description: string | null;
+
+  @Column({ type: 'simple-json' })
+  permissions: string[];
+
+  @Column({ type: 'boolean', default: false })
+  isSystem: boolean; // Built-in roles cannot be changed or deleted
+
+  // Admin who created the role; only they can change, delete or assign it. Null for built-in roles
+  @Column({ type: 'uuid', nullable: true })
+  createdById: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -10,6 +10,8 @@ import {
 } from 'typeorm';
 import { Event } from './Event';
 import { CheckInLog } from './CheckInLog';
+import { OrganisationUnit } from './OrganisationUnit';
+import { Role } from './Role';
 
 export enum UserRole {
   ADMIN = 'admin',
@@ -35,10 +37,43 @@ export class User {
     enum: UserRole,
     default: UserRole.USER,
   })
-  role: UserRole;
+  role: UserRole; // Account type; also selects the built-in role when no custom role is set
 
-  @Column({ type: 'varchar', length: 500, nullable: true })
-  refreshToken: string | null;
+  @Column({ type: 'uuid', nullable: true })
+  roleId: string | null; // Custom role granting the user's permissions
+
+  @ManyToOne(() => Role, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'roleId' })
+  customRole: Role | null;
+
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean; // Deactivated users cannot log in and their tokens stop working
+
+  // Embedded in tokens; bumping it invalidates every token issued before
+  @Column({ type: 'int', default: 0 })
+  tokenVersion: number;
+
+  @Column({ type: 'boolean', default: false })
+  mustChangePassword: boolean; // Accounts created with an emailed password; blocks the API until changed
+
+  // TOTP secret, encrypted; set at setup, in use once twoFactorEnabledAt is set
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  twoFactorSecret: string | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  twoFactorEnabledAt: Date | null;
+
+  // SHA-256 hashes of the unused recovery codes
+  @Column({ type: 'simple-json', nullable: true })
+  twoFactorRecoveryCodes: string[] | null;
+
+  // Last accepted TOTP time step, so a code cannot be used twice
+  @Column({ type: 'bigint', nullable: true })
+  twoFactorLastStep: string | null;
+
+  // Admins only: users assigned to them must enrol in two-factor authentication
+  @Column({ type: 'boolean', default: false })
+  requireTwoFactorForUsers: boolean;
 
   @Column({ type: 'uuid', nullable: true })
   adminId: string | null;
@@ -50,6 +85,14 @@ export class User {
   @OneToMany(() => User, (user) => user.admin)
   users: User[];
 
+  // Organisation unit the user coordinates; grants access to events of the unit and its descendants
+  @Column({ type: 'uuid', nullable: true })
+  organisationUnitId: string | null;
+
+  @ManyToOne(() => OrganisationUnit, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'organisationUnitId' })
+  organisationUnit: OrganisationUnit | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './User';
+
+export enum SessionRevokeReason {
+  LOGOUT = 'logout',
+  REVOKED = 'revoked', // Signed out from the sessions list
+  REUSE_DETECTED = 'reuse_detected', // An already rotated refresh token was presented
+  PASSWORD_CHANGED = 'password_changed',
+  ADMIN_REVOKED = 'admin_revoked', // An admin signed the user out everywhere
+  DEACTIVATED = 'deactivated',
+}
+
+// One signed-in device. The refresh token rotates on every refresh; only the
+// id of the current token (and the one it replaced) is kept.
+@Entity('user_sessions')
+@Index(['userId', 'revokedAt'])
+export class UserSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 64 })
+  tokenId: string; // jti of the current refresh token
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  previousTokenId: string | null; // jti of the token replaced at rotatedAt
+
+  @Column({ type: 'datetime', nullable: true })
+  rotatedAt: Date | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'varchar', length: 45, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'datetime' })
+  lastUsedAt: Date;
+
+  @Column({ type: 'datetime' })
+  expiresAt: Date; // Expiry of the current refresh token
+
+  @Column({ type: 'datetime', nullable: true })
+  revokedAt: Date | null;
+
+  @Column({ type: 'enum', enum: SessionRevokeReason, nullable: true })
+  revokedReason: SessionRevokeReason | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
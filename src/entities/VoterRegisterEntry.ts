@@ -0,0 +1,58 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './User';
+
+@Entity('voter_register')
+@Index(['adminId', 'idNumber'], { unique: true })
+export class VoterRegisterEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  adminId: string; // Admin who imported the record; lookups are scoped to them
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'adminId' })
+  admin: User;
+
+  @Column({ type: 'varchar', length: 50 })
+  idNumber: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  dateOfBirth: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  sex: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  county: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  constituency: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  ward: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  pollingCenter: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  stream: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -8,19 +8,37 @@ import { AppDataSource } from './config/database';
 import logger from './config/logger';
 import { env } from './config/env';
 import authRoutes from './routes/auth';
+import invitationRoutes from './routes/invitations';
+import twoFactorRoutes from './routes/twoFactor';
 import eventRoutes from './routes/events';
+import eventStaffRoutes from './routes/eventStaff';
 import participantRoutes from './routes/participants';
+import voterRoutes from './routes/voters';
+import reportRoutes from './routes/reports';
+import registrationRoutes from './routes/registration';
+import organisationRoutes from './routes/organisation';
+import roleRoutes from './routes/roles';
+import auditLogRoutes from './routes/auditLogs';
+import docsRoutes from './routes/docs';
+import { permissionService } from './services/permissions';
+import { ensureNationalUnit } from './services/organisation';
+import { flagEmailedPasswordAccounts } from './services/passwordReset';
 
 const app = express();
 
+// Read client IPs from X-Forwarded-For behind reverse proxies (used by login throttling)
+if (env.TRUST_PROXY > 0) {
+  app.set('trust proxy', env.TRUST_PROXY);
+}
+
 // Security middleware - Helmet
 app.use(helmet({
   crossOriginResourcePolicy: { policy: 'cross-origin' }, // Allow CORS for frontend
   contentSecurityPolicy: false, // Disable CSP for API (can be configured if needed)
 }));
 
-// Body parsing middleware
-app.use(express.json());
+// Body parsing middleware (raised limit for offline check-in sync batches)
+app.use(express.json({ limit: '1mb' }));
 app.use(cookieParser());
 
 // CORS middleware
@@ -44,7 +62,7 @@ app.use((req, res, next) => {
   }
   
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Last-Event-ID');
   
   if (req.method === 'OPTIONS') {
     res.sendStatus(200);
@@ -65,8 +83,22 @@ app.use((req, res, next) => {
 
 // Routes
 app.use('/api/auth', authRoutes);
+app.use('/api/auth/invitations', invitationRoutes);
+app.use('/api/auth/2fa', twoFactorRoutes);
 app.use('/api/events', eventRoutes);
+app.use('/api/events/:eventId/staff', eventStaffRoutes);
 app.use('/api/participants', participantRoutes);
+app.use('/api/voters', voterRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/registration', registrationRoutes);
+app.use('/api/organisation', organisationRoutes);
+app.use('/api/roles', roleRoutes);
+app.use('/api/audit-logs', auditLogRoutes);
+
+// API documentation (OpenAPI document and Swagger UI)
+if (env.API_DOCS_ENABLED === 'true') {
+  app.use('/api/docs', docsRoutes);
+}
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -75,6 +107,16 @@ app.get('/health', (req, res) => {
 
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // Malformed JSON bodies get the same envelope as validation errors
+  if ((err as { type?: string }).type === 'entity.parse.failed') {
+    res.status(400).json({
+      message: 'Request body is not valid JSON',
+      code: 'INVALID_JSON',
+      errors: [],
+    });
+    return;
+  }
+
   logger.error('Unhandled error:', {
     error: err.message,
     stack: err.stack,
@@ -91,13 +133,20 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 
 // Initialize database and start server
 AppDataSource.initialize()
-  .then(() => {
+  .then(async () => {
     logger.info('Database connected successfully', {
       host: env.DB_HOST,
       port: env.DB_PORT,
       database: env.DB_DATABASE,
     });
 
+    // Make sure the built-in admin and user roles exist before serving requests
+    await permissionService.ensureSystemRoles();
+    // Create the national organisation unit from NATIONAL_UNIT_NAME, if configured
+    await ensureNationalUnit();
+    // Users still on a password an admin emailed them must replace it
+    await flagEmailedPasswordAccounts();
+
     app.listen(env.PORT, () => {
       logger.info(`Server is running on port ${env.PORT}`, {
         environment: env.NODE_ENV,
@@ -1,13 +1,20 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken, TokenPayload } from '../utils/auth';
 import { AppDataSource } from '../config/database';
-import { User, UserRole } from '../entities/User';
+import { User } from '../entities/User';
+import { Permission, permissionService } from '../services/permissions';
+import { isSessionActive } from '../services/sessions';
+import { isTwoFactorEnabled, isTwoFactorRequired } from '../services/twoFactor';
 
 export interface AuthRequest extends Request {
   user?: User;
+  sessionId?: string; // Session the access token was issued for
 }
 
-export const authenticate = async (
+// Verify the access token and load the user. Users who still have to replace
+// an emailed password, or enrol in required two-factor authentication, are
+// only let through when allowAccountSetup is set.
+const authenticateUser = (allowAccountSetup: boolean) => async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
@@ -33,28 +40,92 @@ export const authenticate = async (
       return;
     }
 
+    if (!user.isActive) {
+      res.status(401).json({ message: 'Account is deactivated', code: 'ACCOUNT_DEACTIVATED' });
+      return;
+    }
+
+    // Tokens issued before a sign-out-everywhere, or for a revoked session, stop working at once
+    if (
+      decoded.tokenVersion !== user.tokenVersion ||
+      !decoded.sessionId ||
+      !(await isSessionActive(decoded.sessionId, user.id))
+    ) {
+      res.status(401).json({ message: 'Token has been revoked', code: 'TOKEN_REVOKED' });
+      return;
+    }
+
+    if (!allowAccountSetup && user.mustChangePassword) {
+      res.status(403).json({
+        message: 'You must change your password before continuing',
+        code: 'PASSWORD_CHANGE_REQUIRED',
+      });
+      return;
+    }
+
+    if (!allowAccountSetup && !isTwoFactorEnabled(user) && (await isTwoFactorRequired(user))) {
+      res.status(403).json({
+        message: 'You must set up two-factor authentication before continuing',
+        code: 'TWO_FACTOR_SETUP_REQUIRED',
+      });
+      return;
+    }
+
     req.user = user;
+    req.sessionId = decoded.sessionId;
     next();
   } catch (error) {
     res.status(401).json({ message: 'Invalid token' });
   }
 };
 
-export const requireAdmin = (
+export const authenticate = authenticateUser(false);
+
+// For the endpoints a user with a pending password change or two-factor
+// enrolment can still use (changing the password, two-factor setup, logout)
+export const authenticateAccountSetup = authenticateUser(true);
+
+// Allow the access token in the query string for clients that cannot set
+// headers (e.g. browser EventSource). Use only on streaming GET routes.
+export const allowQueryToken = (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): void => {
+  const token = req.query.access_token;
+  if (!req.headers.authorization && typeof token === 'string' && token) {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+  next();
+};
+
+// Require the authenticated user's role to grant all of the given permissions
+export const requirePermission = (...permissions: Permission[]) => async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   if (!req.user) {
     res.status(401).json({ message: 'Unauthorized' });
     return;
   }
 
-  if (req.user.role !== UserRole.ADMIN) {
-    res.status(403).json({ message: 'Admin access required' });
-    return;
-  }
+  try {
+    const granted = await permissionService.getPermissions(req.user);
+    const missing = permissions.filter((permission) => !granted.has(permission));
 
-  next();
+    if (missing.length > 0) {
+      res.status(403).json({
+        message: 'Permission denied',
+        code: 'PERMISSION_DENIED',
+        missing,
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
 };
 
@@ -0,0 +1,137 @@
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+
+export type RequestLocation = 'body' | 'query' | 'params';
+
+export type RequestSchemas = Partial<Record<RequestLocation, Joi.ObjectSchema>>;
+
+export interface ValidationIssue {
+  field: string | null; // Dotted path, e.g. checkIns.2.idNumber; null for whole-object rules
+  location?: RequestLocation;
+  code: string;
+  message: string;
+}
+
+const VALIDATION_OPTIONS: Joi.ValidationOptions = {
+  abortEarly: false,
+  allowUnknown: true, // Extra fields are ignored rather than rejected
+  convert: true,
+  errors: { wrap: { label: false } },
+};
+
+// Machine-readable codes for Joi error types
+const ISSUE_CODES: Record<string, string> = {
+  'any.required': 'REQUIRED',
+  'string.empty': 'REQUIRED',
+  'object.missing': 'REQUIRED',
+  'any.only': 'INVALID_VALUE',
+  'string.email': 'INVALID_EMAIL',
+  'string.guid': 'INVALID_ID',
+  'string.pattern.base': 'INVALID_FORMAT',
+  'string.pattern.name': 'INVALID_FORMAT',
+  'string.isoDate': 'INVALID_DATE',
+  'date.base': 'INVALID_DATE',
+  'date.format': 'INVALID_DATE',
+  'date.max': 'DATE_TOO_LATE',
+  'date.min': 'DATE_TOO_EARLY',
+  'string.min': 'TOO_SHORT',
+  'string.max': 'TOO_LONG',
+  'array.min': 'TOO_FEW',
+  'array.max': 'TOO_MANY',
+  'number.base': 'INVALID_NUMBER',
+  'number.integer': 'INVALID_NUMBER',
+  'number.min': 'OUT_OF_RANGE',
+  'number.max': 'OUT_OF_RANGE',
+};
+
+function issueCode(type: string): string {
+  if (ISSUE_CODES[type]) {
+    return ISSUE_CODES[type];
+  }
+  // string.base, boolean.base, object.base, alternatives.types, ...
+  if (type.endsWith('.base') || type === 'alternatives.types') {
+    return 'INVALID_TYPE';
+  }
+  return 'INVALID';
+}
+
+/**
+ * Validate a value against a schema. Returns the converted value (trimmed
+ * strings, parsed numbers and dates) and the issues found, if any.
+ */
+export function checkSchema<T = unknown>(
+  schema: Joi.Schema,
+  value: unknown,
+  location?: RequestLocation
+): { value: T; issues: ValidationIssue[] } {
+  const result = schema.validate(value, VALIDATION_OPTIONS);
+  const issues = (result.error?.details || []).map((detail) => ({
+    field: detail.path.length > 0 ? detail.path.join('.') : null,
+    ...(location ? { location } : {}),
+    code: issueCode(detail.type),
+    message: detail.message,
+  }));
+  return { value: result.value as T, issues };
+}
+
+// Reply 400 with the shared validation error envelope
+export function sendValidationError(
+  res: Response,
+  issues: ValidationIssue[],
+  message = 'Request validation failed'
+): void {
+  res.status(400).json({
+    message,
+    code: 'VALIDATION_ERROR',
+    errors: issues,
+  });
+}
+
+// Schemas checked by each validate() middleware, read by the API docs drift check
+const middlewareSchemas = new WeakMap<object, RequestSchemas>();
+
+// The schemas a route handler validates, if it is a validate() middleware
+export function getValidatedSchemas(handler: object): RequestSchemas | undefined {
+  return middlewareSchemas.get(handler);
+}
+
+/**
+ * Validate the body, query and route params of a request against schemas.
+ * Every issue is reported at once; on success the converted values replace
+ * the originals, so handlers read already-normalised input.
+ */
+export const validate = (schemas: RequestSchemas) => {
+  const middleware = (req: Request, res: Response, next: NextFunction): void => {
+    const issues: ValidationIssue[] = [];
+    const values: Partial<Record<RequestLocation, unknown>> = {};
+
+    for (const location of ['params', 'query', 'body'] as const) {
+      const schema = schemas[location];
+      if (!schema) {
+        continue;
+      }
+      const result = checkSchema(schema, req[location] ?? {}, location);
+      issues.push(...result.issues);
+      values[location] = result.value;
+    }
+
+    if (issues.length > 0) {
+      sendValidationError(res, issues);
+      return;
+    }
+
+    if (values.params) {
+      req.params = values.params as Request['params'];
+    }
+    if (values.query) {
+      req.query = values.query as Request['query'];
+    }
+    if (values.body) {
+      req.body = values.body;
+    }
+    next();
+  };
+
+  middlewareSchemas.set(middleware, schemas);
+  return middleware;
+};
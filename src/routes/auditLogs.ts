@@ -0,0 +1,159 @@
+import { Router, Response } from 'express';
+import { AuditAction, AuditOutcome } from '../entities/AuditLog';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { auditLog, AuditLogFilters } from '../services/auditLog';
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, ExportFormat } from '../services/attendanceExport';
+import { parseDateRange } from '../services/reportRange';
+import logger from '../config/logger';
+
+const router = Router();
+
+const DEFAULT_AUDIT_PAGE_SIZE = 100;
+const MAX_AUDIT_PAGE_SIZE = 1000;
+
+const AUDIT_ACTIONS = Object.values(AuditAction) as string[];
+const AUDIT_OUTCOMES = Object.values(AuditOutcome) as string[];
+
+// Helper function to read an optional string query parameter
+function queryString(query: Record<string, unknown>, key: string): string | undefined {
+  const value = query[key];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+// Helper function to parse audit log filters from a query string
+function parseFilters(query: Record<string, unknown>): {
+  filters: AuditLogFilters;
+  error?: string;
+} {
+  const { range, error } = parseDateRange(query);
+  const filters: AuditLogFilters = {
+    outcome: queryString(query, 'outcome') as AuditOutcome | undefined,
+    actorId: queryString(query, 'actorId'),
+    actorEmail: queryString(query, 'actorEmail'),
+    targetType: queryString(query, 'targetType'),
+    targetId: queryString(query, 'targetId'),
+    eventId: queryString(query, 'eventId'),
+    ipAddress: queryString(query, 'ipAddress'),
+    range,
+  };
+  if (error) {
+    return { filters, error };
+  }
+
+  // Comma separated list, e.g. action=auth.login,auth.login_failed
+  const actions = queryString(query, 'action');
+  if (actions) {
+    const list = actions.split(',').map((action) => action.trim()).filter(Boolean);
+    const unknown = list.filter((action) => !AUDIT_ACTIONS.includes(action));
+    if (unknown.length > 0) {
+      return { filters, error: `Unknown action: ${unknown.join(', ')}` };
+    }
+    filters.actions = list as AuditAction[];
+  }
+
+  if (filters.outcome && !AUDIT_OUTCOMES.includes(filters.outcome)) {
+    return { filters, error: `outcome must be one of: ${AUDIT_OUTCOMES.join(', ')}` };
+  }
+
+  return { filters };
+}
+
+// Search the audit log, newest first
+router.get(
+  '/',
+  authenticate,
+  requirePermission('audit:view'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { filters, error } = parseFilters(req.query);
+      if (error) {
+        res.status(400).json({ message: error });
+        return;
+      }
+
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : DEFAULT_AUDIT_PAGE_SIZE;
+      const offset = req.query.offset !== undefined ? Number(req.query.offset) : 0;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+        res.status(400).json({
+          message: `limit must be an integer between 1 and ${MAX_AUDIT_PAGE_SIZE}`,
+        });
+        return;
+      }
+      if (!Number.isInteger(offset) || offset < 0) {
+        res.status(400).json({ message: 'offset must be a non-negative integer' });
+        return;
+      }
+
+      const page = await auditLog.search(filters, { limit, offset }, req.user!);
+
+      res.json({
+        entries: page.entries,
+        pagination: {
+          total: page.total,
+          limit: page.limit,
+          offset: page.offset,
+          hasMore: page.offset + page.entries.length < page.total,
+        },
+      });
+    } catch (error) {
+      logger.error('Search audit log error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Export matching audit log entries as CSV or XLSX
+router.get(
+  '/export',
+  authenticate,
+  requirePermission('audit:view'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const format = ((req.query.format as string) || 'csv') as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        res.status(400).json({
+          message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+        });
+        return;
+      }
+
+      const { filters, error } = parseFilters(req.query);
+      if (error) {
+        res.status(400).json({ message: error });
+        return;
+      }
+
+      // Exports of the audit log are themselves audited
+      auditLog.record(req, {
+        action: AuditAction.AUDIT_LOG_EXPORTED,
+        metadata: { format, filters },
+      });
+
+      const period = filters.range.from || filters.range.to
+        ? `-${filters.range.from || 'start'}-to-${filters.range.to || 'end'}`
+        : '';
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log${period}.${format}"`);
+
+      await auditLog.streamExport(filters, format, res, req.user!);
+
+      logger.info('Audit log exported', { format, exportedBy: req.user!.id });
+    } catch (error) {
+      logger.error('Export audit log error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      // Once streaming has started the status can no longer change
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
@@ -1,18 +1,68 @@
 import { Router, Request, Response } from 'express';
+import { In } from 'typeorm';
 import { AppDataSource } from '../config/database';
 import { User, UserRole } from '../entities/User';
+import { SessionRevokeReason } from '../entities/UserSession';
+import { AuditAction, AuditLog, AuditOutcome } from '../entities/AuditLog';
 import {
-  generateAccessToken,
-  generateRefreshToken,
   hashPassword,
   comparePassword,
-  verifyToken,
-  TokenPayload,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
+  TwoFactorChallengePayload,
 } from '../utils/auth';
-import { AuthRequest, authenticate, requireAdmin } from '../middleware/auth';
+import {
+  AuthRequest,
+  authenticate,
+  authenticateAccountSetup,
+  requirePermission,
+} from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  LoginAttempt,
+  clientIp,
+  recordLoginFailure,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  reserveLoginAttempt,
+} from '../utils/loginAttempts';
+import {
+  changePasswordSchema,
+  forgotPasswordSchema,
+  lockoutParamsSchema,
+  loginSchema,
+  resetPasswordSchema,
+  sessionParamsSchema,
+  signupSchema,
+  twoFactorLoginSchema,
+  twoFactorRequirementSchema,
+  userEmailParamsSchema,
+  userParamsSchema,
+} from '../validation/auth';
 import logger from '../config/logger';
 import { env } from '../config/env';
 import { emailService } from '../services/email';
+import {
+  createPasswordResetToken,
+  passwordResetUrl,
+  resetPassword,
+} from '../services/passwordReset';
+import {
+  createSession,
+  listActiveSessions,
+  refreshSession,
+  revokeSession,
+  revokeUserAccess,
+  revokeUserSessions,
+} from '../services/sessions';
+import { loginThrottle, ThrottleScope } from '../services/loginThrottle';
+import {
+  disableTwoFactor,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  verifySecondFactor,
+} from '../services/twoFactor';
+import { auditLog, diffFields } from '../services/auditLog';
 
 const router = Router();
 
@@ -27,15 +77,82 @@ function getCookieOptions() {
   };
 }
 
+// Start a session for this device (other devices stay signed in) and send the tokens
+async function completeLogin(
+  user: User,
+  req: Request,
+  res: Response,
+  method: 'password' | 'totp' | 'recovery_code',
+  extra: Record<string, unknown> = {}
+): Promise<void> {
+  const { accessToken, refreshToken, session } = await createSession(user, req);
+
+  auditLog.record(req, {
+    action: AuditAction.LOGIN,
+    actor: user,
+    target: { type: 'session', id: session.id },
+    metadata: { method },
+  });
+
+  // Set refresh token as http-only cookie
+  res.cookie('refreshToken', refreshToken, getCookieOptions());
+
+  res.json({
+    message: 'Login successful',
+    accessToken,
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      mustChangePassword: user.mustChangePassword,
+      twoFactorEnabled: isTwoFactorEnabled(user),
+      twoFactorSetupRequired: !isTwoFactorEnabled(user) && (await isTwoFactorRequired(user)),
+    },
+    ...extra,
+  });
+}
+
+// Cookie options for clearing the refresh token (must match setCookie)
+function getClearCookieOptions() {
+  const { maxAge, ...options } = getCookieOptions();
+  return options;
+}
+
+// Create a reset token and email the link; runs after the forgot-password response is sent
+async function sendPasswordResetLink(req: Request, user: User): Promise<void> {
+  try {
+    const token = await createPasswordResetToken(user);
+    const emailSent = await emailService.sendPasswordReset(
+      user.email,
+      user.name,
+      passwordResetUrl(token),
+      env.PASSWORD_RESET_TOKEN_TTL_MINUTES,
+    );
+    logger.info('Password reset requested', { userId: user.id, emailSent });
+    auditLog.record(req, {
+      action: AuditAction.PASSWORD_RESET_REQUESTED,
+      actor: user,
+      target: { type: 'user', id: user.id },
+      metadata: { emailSent },
+    });
+  } catch (error) {
+    logger.error('Password reset email error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      userId: user.id,
+    });
+  }
+}
+
 // Signup
-router.post('/signup', async (req: Request, res: Response): Promise<void> => {
+router.post('/signup', validate(signupSchema), async (req: Request, res: Response): Promise<void> => {
+  let attempt: LoginAttempt | null = null;
   try {
     const { name, email, password } = req.body;
 
-    if (!name || !email || !password) {
-      res.status(400).json({
-        message: 'Name, email, and password are required',
-      });
+    attempt = await reserveLoginAttempt(req, res);
+    if (!attempt) {
       return;
     }
 
@@ -47,6 +164,8 @@ router.post('/signup', async (req: Request, res: Response): Promise<void> => {
     });
 
     if (existingUser) {
+      // Counts against the IP so signups cannot be used to probe for accounts
+      await recordLoginFailure(req, attempt, 'email_taken');
       res.status(400).json({ message: 'User with this email already exists' });
       return;
     }
@@ -63,20 +182,17 @@ router.post('/signup', async (req: Request, res: Response): Promise<void> => {
     });
 
     await userRepository.save(user);
+    await releaseLoginAttempt(req, attempt);
 
-    // Generate tokens
-    const tokenPayload: TokenPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    };
+    // Start a session for this device
+    const { accessToken, refreshToken, session } = await createSession(user, req);
 
-    const accessToken = generateAccessToken(tokenPayload);
-    const refreshToken = generateRefreshToken(tokenPayload);
-
-    // Save refresh token to database
-    user.refreshToken = refreshToken;
-    await userRepository.save(user);
+    auditLog.record(req, {
+      action: AuditAction.SIGNUP,
+      actor: user,
+      target: { type: 'user', id: user.id },
+      metadata: { sessionId: session.id },
+    });
 
     // Set refresh token as http-only cookie
     res.cookie('refreshToken', refreshToken, getCookieOptions());
@@ -92,6 +208,9 @@ router.post('/signup', async (req: Request, res: Response): Promise<void> => {
       },
     });
   } catch (error) {
+    if (attempt) {
+      await releaseLoginAttempt(req, attempt);
+    }
     logger.error('Signup error:', {
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
@@ -101,14 +220,14 @@ router.post('/signup', async (req: Request, res: Response): Promise<void> => {
 });
 
 // Login
-router.post('/login', async (req: Request, res: Response): Promise<void> => {
+router.post('/login', validate(loginSchema), async (req: Request, res: Response): Promise<void> => {
+  let attempt: LoginAttempt | null = null;
   try {
     const { email, password } = req.body;
 
-    if (!email || !password) {
-      res.status(400).json({
-        message: 'Email and password are required',
-      });
+    // Reserved before the password check, so parallel guesses count against the limit
+    attempt = await reserveLoginAttempt(req, res, email);
+    if (!attempt) {
       return;
     }
 
@@ -120,6 +239,8 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
     });
 
     if (!user) {
+      // Unknown emails are tracked like real ones, so lockouts do not reveal accounts
+      await recordLoginFailure(req, attempt, 'unknown_email');
       res.status(401).json({ message: 'Invalid email or password' });
       return;
     }
@@ -128,39 +249,111 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
     const isPasswordValid = await comparePassword(password, user.password);
 
     if (!isPasswordValid) {
+      await recordLoginFailure(req, attempt, 'wrong_password', user);
       res.status(401).json({ message: 'Invalid email or password' });
       return;
     }
 
-    // Generate tokens
-    const tokenPayload: TokenPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    };
+    if (!user.isActive) {
+      await releaseLoginAttempt(req, attempt);
+      auditLog.record(req, {
+        action: AuditAction.LOGIN_FAILED,
+        outcome: AuditOutcome.FAILURE,
+        actor: user,
+        target: { type: 'user', id: user.id },
+        metadata: { reason: 'deactivated' },
+      });
+      res.status(403).json({ message: 'Account is deactivated', code: 'ACCOUNT_DEACTIVATED' });
+      return;
+    }
+
+    // With two-factor authentication, tokens are only issued by /login/2fa
+    // (failures are only cleared once the second factor succeeds)
+    if (isTwoFactorEnabled(user)) {
+      await releaseLoginAttempt(req, attempt);
+      res.json({
+        message: 'Two-factor authentication code required',
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken({
+          userId: user.id,
+          tokenVersion: user.tokenVersion,
+        }),
+      });
+      return;
+    }
 
-    const accessToken = generateAccessToken(tokenPayload);
-    const refreshToken = generateRefreshToken(tokenPayload);
+    await recordLoginSuccess(req, attempt);
+    await completeLogin(user, req, res, 'password');
+  } catch (error) {
+    if (attempt) {
+      await releaseLoginAttempt(req, attempt);
+    }
+    logger.error('Login error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-    // Save refresh token to database
-    user.refreshToken = refreshToken;
-    await userRepository.save(user);
+// Login step two: exchange the challenge token and a TOTP or recovery code for tokens
+router.post('/login/2fa', validate(twoFactorLoginSchema), async (req: Request, res: Response): Promise<void> => {
+  let attempt: LoginAttempt | null = null;
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
 
-    // Set refresh token as http-only cookie
-    res.cookie('refreshToken', refreshToken, getCookieOptions());
+    let challenge: TwoFactorChallengePayload;
+    try {
+      challenge = verifyTwoFactorChallengeToken(challengeToken);
+    } catch {
+      res.status(401).json({
+        message: 'Login attempt has expired. Please log in again.',
+        code: 'INVALID_CHALLENGE',
+      });
+      return;
+    }
 
-    res.json({
-      message: 'Login successful',
-      accessToken,
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-      },
+    const user = await AppDataSource.getRepository(User).findOne({
+      where: { id: challenge.userId },
     });
+
+    if (!user || !user.isActive || user.tokenVersion !== challenge.tokenVersion) {
+      res.status(401).json({
+        message: 'Login attempt has expired. Please log in again.',
+        code: 'INVALID_CHALLENGE',
+      });
+      return;
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    attempt = await reserveLoginAttempt(req, res, user.email);
+    if (!attempt) {
+      return;
+    }
+
+    const result = await verifySecondFactor(user.id, { code, recoveryCode });
+
+    if (!result.valid) {
+      await recordLoginFailure(req, attempt, 'wrong_two_factor_code', user);
+      res.status(401).json({ message: 'Invalid authentication code', code: 'INVALID_TWO_FACTOR_CODE' });
+      return;
+    }
+
+    await recordLoginSuccess(req, attempt);
+
+    if (result.method === 'recovery_code') {
+      logger.info('Recovery code used to log in', {
+        userId: user.id,
+        recoveryCodesLeft: result.recoveryCodesLeft,
+      });
+    }
+
+    await completeLogin(user, req, res, result.method, { recoveryCodesLeft: result.recoveryCodesLeft });
   } catch (error) {
-    logger.error('Login error:', {
+    if (attempt) {
+      await releaseLoginAttempt(req, attempt);
+    }
+    logger.error('Two-factor login error:', {
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
     });
@@ -178,39 +371,43 @@ router.post('/refresh', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Verify refresh token
-    const decoded = verifyToken(refreshToken) as TokenPayload;
+    // Rotate the session's refresh token
+    const result = await refreshSession(refreshToken, req);
 
-    const userRepository = AppDataSource.getRepository(User);
-    const user = await userRepository.findOne({
-      where: { id: decoded.userId },
-    });
-
-    if (!user || user.refreshToken !== refreshToken) {
-      res.status(401).json({ message: 'Invalid refresh token' });
+    if (result.status === 'superseded') {
+      res.status(401).json({
+        message: 'Refresh token was already used by a concurrent request',
+        code: 'REFRESH_TOKEN_SUPERSEDED',
+      });
       return;
     }
 
-    // Generate new tokens
-    const tokenPayload: TokenPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    };
-
-    const newAccessToken = generateAccessToken(tokenPayload);
-    const newRefreshToken = generateRefreshToken(tokenPayload);
+    if (result.status === 'reused') {
+      auditLog.record(req, {
+        action: AuditAction.REFRESH_TOKEN_REUSED,
+        outcome: AuditOutcome.FAILURE,
+        actor: null,
+        target: { type: 'session', id: result.session.id },
+        metadata: { userId: result.session.userId },
+      });
+    }
 
-    // Update refresh token in database
-    user.refreshToken = newRefreshToken;
-    await userRepository.save(user);
+    if (result.status !== 'rotated') {
+      res.clearCookie('refreshToken', getClearCookieOptions());
+      res.status(401).json(
+        result.status === 'reused'
+          ? { message: 'Refresh token reuse detected. Please log in again.', code: 'REFRESH_TOKEN_REUSED' }
+          : { message: 'Invalid refresh token' }
+      );
+      return;
+    }
 
     // Set new refresh token as http-only cookie
-    res.cookie('refreshToken', newRefreshToken, getCookieOptions());
+    res.cookie('refreshToken', result.refreshToken, getCookieOptions());
 
     res.json({
       message: 'Token refreshed successfully',
-      accessToken: newAccessToken,
+      accessToken: result.accessToken,
     });
   } catch (error) {
     logger.error('Refresh token error:', {
@@ -222,21 +419,20 @@ router.post('/refresh', async (req: Request, res: Response): Promise<void> => {
 });
 
 // Logout
-router.post('/logout', authenticate, async (req: AuthRequest, res: Response): Promise<void> => {
+router.post('/logout', authenticateAccountSetup, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const user = req.user!;
-    const userRepository = AppDataSource.getRepository(User);
+    // End only this device's session
+    if (req.sessionId) {
+      await revokeSession(req.user!.id, req.sessionId, SessionRevokeReason.LOGOUT);
+    }
 
-    // Clear refresh token from database
-    user.refreshToken = null;
-    await userRepository.save(user);
+    auditLog.record(req, {
+      action: AuditAction.LOGOUT,
+      target: req.sessionId ? { type: 'session', id: req.sessionId } : null,
+    });
 
     // Clear refresh token cookie (must use same options as setCookie)
-    res.clearCookie('refreshToken', {
-      httpOnly: true,
-      secure: env.NODE_ENV === 'production',
-      sameSite: env.NODE_ENV === 'production' ? ('none' as const) : ('lax' as const),
-    });
+    res.clearCookie('refreshToken', getClearCookieOptions());
 
     res.json({ message: 'Logout successful' });
   } catch (error) {
@@ -248,24 +444,223 @@ router.post('/logout', authenticate, async (req: AuthRequest, res: Response): Pr
   }
 });
 
-// Helper function to generate random password
-function generateRandomPassword(): string {
-  const length = 12;
-  const charset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*';
-  let password = '';
-  
-  for (let i = 0; i < length; i++) {
-    password += charset.charAt(Math.floor(Math.random() * charset.length));
+// List the user's signed-in devices
+router.get('/sessions', authenticate, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const sessions = await listActiveSessions(req.user!.id);
+
+    res.json({
+      message: 'Sessions fetched successfully',
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session.id === req.sessionId,
+      })),
+    });
+  } catch (error) {
+    logger.error('Get sessions error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Sign out all other devices
+router.delete('/sessions', authenticate, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const revoked = await revokeUserSessions(
+      req.user!.id,
+      SessionRevokeReason.REVOKED,
+      req.sessionId
+    );
+
+    logger.info('Other sessions revoked', { userId: req.user!.id, revoked });
+    auditLog.record(req, {
+      action: AuditAction.SESSION_REVOKED,
+      target: { type: 'user', id: req.user!.id },
+      metadata: { scope: 'other_sessions', revoked },
+    });
+
+    res.json({ message: 'Other sessions signed out successfully', revoked });
+  } catch (error) {
+    logger.error('Revoke sessions error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ message: 'Internal server error' });
   }
-  
-  return password;
-}
+});
+
+// Sign out one device
+router.delete('/sessions/:sessionId', authenticate, validate(sessionParamsSchema), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const revoked = await revokeSession(
+      req.user!.id,
+      req.params.sessionId,
+      SessionRevokeReason.REVOKED
+    );
+
+    if (!revoked) {
+      res.status(404).json({ message: 'Session not found' });
+      return;
+    }
+
+    logger.info('Session revoked', { userId: req.user!.id, sessionId: req.params.sessionId });
+    auditLog.record(req, {
+      action: AuditAction.SESSION_REVOKED,
+      target: { type: 'session', id: req.params.sessionId },
+    });
+
+    res.json({ message: 'Session signed out successfully' });
+  } catch (error) {
+    logger.error('Revoke session error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Request a password reset link by email
+router.post('/forgot-password', validate(forgotPasswordSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+    const windowMs = env.PASSWORD_RESET_WINDOW_MINUTES * 60 * 1000;
+
+    const ipCheck = await loginThrottle.consume('password-reset-ip', clientIp(req), env.PASSWORD_RESET_MAX_PER_IP, windowMs);
+    if (!ipCheck.allowed) {
+      res.set('Retry-After', String(ipCheck.retryAfterSeconds));
+      res.status(429).json({
+        message: 'Too many password reset requests. Please wait before trying again.',
+        code: 'TOO_MANY_REQUESTS',
+        retryAfter: ipCheck.retryAfterSeconds,
+      });
+      return;
+    }
+
+    // Over the per-email limit the response stays the same but no email is
+    // sent, so a mailbox cannot be flooded and the limit reveals nothing
+    const emailCheck = await loginThrottle.consume(
+      'password-reset-email',
+      email.toLowerCase(),
+      env.PASSWORD_RESET_MAX_PER_EMAIL,
+      windowMs
+    );
+
+    const user = await AppDataSource.getRepository(User).findOne({
+      where: { email },
+    });
+
+    // Not awaited, so the response time does not reveal whether the account exists
+    if (user && user.isActive && emailCheck.allowed) {
+      void sendPasswordResetLink(req, user);
+    }
+
+    res.json({
+      message: 'If an account exists for this email, a password reset link has been sent.',
+    });
+  } catch (error) {
+    logger.error('Forgot password error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Set a new password with a reset token
+router.post('/reset-password', validate(resetPasswordSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, password } = req.body;
+
+    const result = await resetPassword(token, password);
+
+    if (result.status === 'invalid') {
+      res.status(400).json({
+        message: 'This password reset link is invalid or has expired',
+        code: 'INVALID_RESET_TOKEN',
+      });
+      return;
+    }
+
+    logger.info('Password reset', { userId: result.user.id });
+    auditLog.record(req, {
+      action: AuditAction.PASSWORD_RESET,
+      actor: result.user,
+      target: { type: 'user', id: result.user.id },
+    });
+
+    res.json({ message: 'Password reset successfully. Please log in with your new password.' });
+  } catch (error) {
+    logger.error('Reset password error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Change password (also clears a pending forced change)
+router.post(
+  '/change-password',
+  authenticateAccountSetup,
+  validate(changePasswordSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+      const user = req.user!;
+
+      const isPasswordValid = await comparePassword(currentPassword, user.password);
+      if (!isPasswordValid) {
+        auditLog.record(req, {
+          action: AuditAction.PASSWORD_CHANGED,
+          outcome: AuditOutcome.FAILURE,
+          target: { type: 'user', id: user.id },
+          metadata: { reason: 'wrong_password' },
+        });
+        res.status(401).json({ message: 'Current password is incorrect' });
+        return;
+      }
+
+      if (await comparePassword(newPassword, user.password)) {
+        res.status(400).json({ message: 'New password must be different from the current password' });
+        return;
+      }
+
+      user.password = await hashPassword(newPassword);
+      user.mustChangePassword = false;
+      await AppDataSource.getRepository(User).save(user);
+
+      // Sign out other devices; this one stays signed in
+      await revokeUserSessions(user.id, SessionRevokeReason.PASSWORD_CHANGED, req.sessionId);
+
+      logger.info('Password changed', { userId: user.id });
+      auditLog.record(req, {
+        action: AuditAction.PASSWORD_CHANGED,
+        target: { type: 'user', id: user.id },
+      });
+
+      res.json({ message: 'Password changed successfully' });
+    } catch (error) {
+      logger.error('Change password error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
 
 // Get users (Admin only) - returns users assigned to the admin
 router.get(
   '/users',
   authenticate,
-  requireAdmin,
+  requirePermission('user:manage'),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const userRepository = AppDataSource.getRepository(User);
@@ -274,7 +669,7 @@ router.get(
       // Fetch users assigned to this admin
       const users = await userRepository.find({
         where: { adminId },
-        select: ['id', 'name', 'email', 'role', 'adminId', 'createdAt'],
+        select: ['id', 'name', 'email', 'role', 'adminId', 'isActive', 'mustChangePassword', 'twoFactorEnabledAt', 'createdAt'],
         order: { createdAt: 'DESC' },
       });
 
@@ -292,82 +687,253 @@ router.get(
   }
 );
 
-// Create user (Admin only)
-router.post(
-  '/users',
+// Helper function to find one of the admin's users for account actions
+async function findManagedUser(req: AuthRequest, res: Response): Promise<User | null> {
+  const user = await AppDataSource.getRepository(User).findOne({
+    where: { id: req.params.userId, adminId: req.user!.id },
+  });
+
+  if (!user) {
+    res.status(404).json({ message: 'User not found' });
+    return null;
+  }
+
+  return user;
+}
+
+// Whether the account with this email is the admin's own or one of their users
+async function managesAccount(admin: User, email: string): Promise<boolean> {
+  const count = await AppDataSource.getRepository(User).count({
+    where: [
+      { email, id: admin.id },
+      { email, adminId: admin.id },
+    ],
+  });
+  return count > 0;
+}
+
+// Throttle records are kept for a day, so older failed logins cannot explain a lockout
+const IP_LOCKOUT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// Whether logins to the admin's own account or their users' accounts failed from this IP
+async function failedLoginsFromIp(admin: User, ip: string): Promise<boolean> {
+  const count = await AppDataSource.getRepository(AuditLog)
+    .createQueryBuilder('entry')
+    .innerJoin(User, 'managed', 'managed.id = entry.targetId')
+    .where('entry.action = :action', { action: AuditAction.LOGIN_FAILED })
+    .andWhere("entry.targetType = 'user'")
+    .andWhere('entry.ipAddress = :ip', { ip })
+    .andWhere('entry.createdAt >= :since', { since: new Date(Date.now() - IP_LOCKOUT_LOOKBACK_MS) })
+    .andWhere('(managed.id = :adminId OR managed.adminId = :adminId)', { adminId: admin.id })
+    .getCount();
+  return count > 0;
+}
+
+// List the admin's accounts locked out after failed logins (Admin only)
+router.get(
+  '/lockouts',
+  authenticate,
+  requirePermission('user:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const admin = req.user!;
+      const all = await loginThrottle.listLockouts();
+
+      // IP lockouts cannot be tied to one admin's users and other admins'
+      // accounts are not theirs to see, so only their own accounts are listed
+      const lockedEmails = all.filter((lockout) => lockout.scope === 'account').map((lockout) => lockout.identifier);
+      const managed = lockedEmails.length > 0
+        ? await AppDataSource.getRepository(User).find({
+            where: [
+              { email: In(lockedEmails), id: admin.id },
+              { email: In(lockedEmails), adminId: admin.id },
+            ],
+            select: ['email'],
+          })
+        : [];
+      const managedEmails = new Set(managed.map((user) => user.email.toLowerCase()));
+      const lockouts = all.filter(
+        (lockout) => lockout.scope === 'account' && managedEmails.has(lockout.identifier)
+      );
+
+      res.json({
+        message: 'Lockouts fetched successfully',
+        lockouts,
+      });
+    } catch (error) {
+      logger.error('Get lockouts error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Clear the lockout and failed attempts of one of the admin's accounts (email), or of an IP
+// that logins to those accounts failed from (Admin only)
+router.delete(
+  '/lockouts/:scope/:identifier',
+  authenticate,
+  requirePermission('user:manage'),
+  validate(lockoutParamsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const scopes: Record<string, ThrottleScope> = { accounts: 'account', ips: 'ip' };
+      const scope = scopes[req.params.scope];
+      const { identifier } = req.params;
+
+      if (scope === 'account' && !(await managesAccount(req.user!, identifier))) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+
+      // Other admins' users may be locked out by the same IP, so an IP is only
+      // cleared by an admin whose accounts it failed to log in to
+      if (scope === 'ip' && !(await failedLoginsFromIp(req.user!, identifier))) {
+        res.status(404).json({ message: 'No failed logins to your accounts from this IP' });
+        return;
+      }
+
+      const cleared = await loginThrottle.clear(scope, identifier);
+      if (!cleared) {
+        res.status(404).json({ message: `No failed attempts recorded for this ${scope}` });
+        return;
+      }
+
+      logger.info('Login lockout cleared', { scope, identifier, clearedBy: req.user!.id });
+      auditLog.record(req, {
+        action: AuditAction.LOCKOUT_CLEARED,
+        metadata: { scope, identifier },
+      });
+
+      res.json({ message: 'Lockout cleared successfully' });
+    } catch (error) {
+      logger.error('Clear lockout error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Require two-factor authentication for all of the admin's users (Admin only)
+router.put(
+  '/users/two-factor-requirement',
   authenticate,
-  requireAdmin,
+  requirePermission('user:manage'),
+  validate(twoFactorRequirementSchema),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { name, email } = req.body;
+      const { required } = req.body;
+      const admin = req.user!;
 
-      if (!name || !email) {
+      if (required && !isTwoFactorEnabled(admin)) {
         res.status(400).json({
-          message: 'Name and email are required',
+          message: 'Enable two-factor authentication on your own account first',
+          code: 'TWO_FACTOR_NOT_ENABLED',
         });
         return;
       }
 
-      const userRepository = AppDataSource.getRepository(User);
+      const changes = diffFields(
+        { requireTwoFactorForUsers: admin.requireTwoFactorForUsers },
+        { requireTwoFactorForUsers: required }
+      );
+      admin.requireTwoFactorForUsers = required;
+      await AppDataSource.getRepository(User).save(admin);
+
+      auditLog.record(req, {
+        action: AuditAction.TWO_FACTOR_REQUIREMENT_CHANGED,
+        target: { type: 'user', id: admin.id },
+        changes,
+      });
 
-      // Check if user already exists
-      const existingUser = await userRepository.findOne({
-        where: { email },
+      logger.info('Two-factor requirement updated', { adminId: admin.id, required });
+
+      res.json({
+        message: required
+          ? 'Two-factor authentication is now required for your users. Users without it must set it up on their next request.'
+          : 'Two-factor authentication is no longer required for your users',
+        requireTwoFactorForUsers: admin.requireTwoFactorForUsers,
+      });
+    } catch (error) {
+      logger.error('Update two-factor requirement error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
       });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
 
-      if (existingUser) {
-        res.status(400).json({ message: 'User with this email already exists' });
+// Reset a user's two-factor authentication after a lost device (Admin only)
+router.post(
+  '/users/:userId/reset-two-factor',
+  authenticate,
+  requirePermission('user:manage'),
+  validate(userParamsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = await findManagedUser(req, res);
+      if (!user) {
         return;
       }
 
-      // Generate random password
-      const randomPassword = generateRandomPassword();
-      const hashedPassword = await hashPassword(randomPassword);
+      await disableTwoFactor(user);
 
-      // Create user assigned to the creating admin
-      const user = userRepository.create({
-        name,
-        email,
-        password: hashedPassword,
-        role: UserRole.USER,
-        adminId: req.user!.id, // Assign to the creating admin
+      logger.info('Two-factor authentication reset', { userId: user.id, resetBy: req.user!.id });
+      auditLog.record(req, {
+        action: AuditAction.USER_TWO_FACTOR_RESET,
+        target: { type: 'user', id: user.id },
+      });
+
+      res.json({
+        message: 'Two-factor authentication reset. The user can log in with their password and set it up again.',
+      });
+    } catch (error) {
+      logger.error('Reset two-factor error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
       });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
 
-      await userRepository.save(user);
+// Deactivate a user (Admin only) - blocks login and cuts off existing tokens at once
+router.post(
+  '/users/:userId/deactivate',
+  authenticate,
+  requirePermission('user:manage'),
+  validate(userParamsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = await findManagedUser(req, res);
+      if (!user) {
+        return;
+      }
 
-      // Send email with credentials
-      const emailSent = await emailService.sendUserCredentials(
-        email,
-        name,
-        randomPassword,
-      );
+      if (user.isActive) {
+        user.isActive = false;
+        await AppDataSource.getRepository(User).save(user);
+        await revokeUserAccess(user, SessionRevokeReason.DEACTIVATED);
 
-      if (emailSent) {
-        res.status(201).json({
-          message: 'User created successfully. Login credentials have been sent to their email.',
-          user: {
-            id: user.id,
-            name: user.name,
-            email: user.email,
-            role: user.role,
-            adminId: user.adminId,
-          },
-        });
-      } else {
-        res.status(201).json({
-          message: 'User created successfully, but failed to send email. Please provide credentials manually.',
-          user: {
-            id: user.id,
-            name: user.name,
-            email: user.email,
-            role: user.role,
-            adminId: user.adminId,
-          },
-          password: randomPassword, // Return password if email failed
+        logger.info('User deactivated', { userId: user.id, deactivatedBy: req.user!.id });
+        auditLog.record(req, {
+          action: AuditAction.USER_DEACTIVATED,
+          target: { type: 'user', id: user.id },
+          changes: { isActive: { from: true, to: false } },
         });
       }
+
+      res.json({
+        message: 'User deactivated successfully. All of their sessions have been signed out.',
+        user: { id: user.id, name: user.name, email: user.email, isActive: user.isActive },
+      });
     } catch (error) {
-      logger.error('Create user error:', {
+      logger.error('Deactivate user error:', {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
       });
@@ -376,27 +942,92 @@ router.post(
   }
 );
 
-// Delete user (Admin only)
-router.delete(
-  '/users/:email',
+// Reactivate a user (Admin only) - they log in again with their password
+router.post(
+  '/users/:userId/reactivate',
   authenticate,
-  requireAdmin,
+  requirePermission('user:manage'),
+  validate(userParamsSchema),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { email } = req.params;
+      const user = await findManagedUser(req, res);
+      if (!user) {
+        return;
+      }
 
-      if (!email) {
-        res.status(400).json({
-          message: 'Email is required',
+      if (!user.isActive) {
+        user.isActive = true;
+        await AppDataSource.getRepository(User).save(user);
+
+        logger.info('User reactivated', { userId: user.id, reactivatedBy: req.user!.id });
+        auditLog.record(req, {
+          action: AuditAction.USER_REACTIVATED,
+          target: { type: 'user', id: user.id },
+          changes: { isActive: { from: false, to: true } },
         });
+      }
+
+      res.json({
+        message: 'User reactivated successfully',
+        user: { id: user.id, name: user.name, email: user.email, isActive: user.isActive },
+      });
+    } catch (error) {
+      logger.error('Reactivate user error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Sign a user out of every device (Admin only), e.g. after a lost phone
+router.post(
+  '/users/:userId/revoke-sessions',
+  authenticate,
+  requirePermission('user:manage'),
+  validate(userParamsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const user = await findManagedUser(req, res);
+      if (!user) {
         return;
       }
 
+      await revokeUserAccess(user, SessionRevokeReason.ADMIN_REVOKED);
+
+      logger.info('User sessions revoked', { userId: user.id, revokedBy: req.user!.id });
+      auditLog.record(req, {
+        action: AuditAction.USER_SESSIONS_REVOKED,
+        target: { type: 'user', id: user.id },
+      });
+
+      res.json({ message: 'User signed out of all devices successfully' });
+    } catch (error) {
+      logger.error('Revoke user sessions error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Delete one of the admin's users (Admin only)
+router.delete(
+  '/users/:email',
+  authenticate,
+  requirePermission('user:manage'),
+  validate(userEmailParamsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { email } = req.params;
+
       const userRepository = AppDataSource.getRepository(User);
 
-      // Find user by email
+      // Only the admin's own users can be deleted, like the other account actions
       const user = await userRepository.findOne({
-        where: { email },
+        where: { email, adminId: req.user!.id },
       });
 
       if (!user) {
@@ -404,17 +1035,19 @@ router.delete(
         return;
       }
 
-      // Revoke all tokens by clearing refresh token
-      user.refreshToken = null;
-      await userRepository.save(user);
-
-      // Delete user from database
+      // Delete user from database (their sessions are deleted with them)
+      const userId = user.id; // Cleared from the entity by remove()
       await userRepository.remove(user);
 
       logger.info('User deleted successfully', {
         email,
         deletedBy: req.user!.id,
       });
+      auditLog.record(req, {
+        action: AuditAction.USER_DELETED,
+        target: { type: 'user', id: userId },
+        metadata: { email: user.email, name: user.name, role: user.role },
+      });
 
       res.json({
         message: 'User deleted successfully. All access tokens and refresh tokens have been revoked.',
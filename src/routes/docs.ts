@@ -0,0 +1,20 @@
+import { Router, Request, Response } from 'express';
+import swaggerUi from 'swagger-ui-express';
+import { buildOpenApiDocument } from '../docs/openapi';
+
+const router = Router();
+
+const document = buildOpenApiDocument();
+
+// OpenAPI document, for client generators and API tools (public)
+router.get('/openapi.json', (req: Request, res: Response): void => {
+  res.json(document);
+});
+
+// Interactive API documentation (public)
+router.use('/', swaggerUi.serve, swaggerUi.setup(document, {
+  customSiteTitle: 'Election Events API',
+  swaggerOptions: { persistAuthorization: true },
+}));
+
+export default router;
@@ -0,0 +1,265 @@
+import { Router, Response } from 'express';
+import { AppDataSource } from '../config/database';
+import { Event } from '../entities/Event';
+import { User } from '../entities/User';
+import { AuditAction } from '../entities/AuditLog';
+import { EventStaffAssignment } from '../entities/EventStaffAssignment';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { auditLog, diffFields } from '../services/auditLog';
+import { isUnitInScope } from '../utils/eventAccess';
+import {
+  assignStaffSchema,
+  staffListSchema,
+  staffMemberParamsSchema,
+} from '../validation/eventStaff';
+import logger from '../config/logger';
+
+// Mounted at /api/events/:eventId/staff
+const router = Router({ mergeParams: true });
+
+// Helper function to format a staff assignment
+function formatAssignment(assignment: EventStaffAssignment, now: Date = new Date()) {
+  return {
+    id: assignment.id,
+    userId: assignment.userId,
+    user: assignment.user
+      ? {
+          id: assignment.user.id,
+          name: assignment.user.name,
+          email: assignment.user.email,
+        }
+      : undefined,
+    role: assignment.role,
+    startsAt: assignment.startsAt,
+    endsAt: assignment.endsAt,
+    active:
+      (!assignment.startsAt || new Date(assignment.startsAt) <= now) &&
+      (!assignment.endsAt || new Date(assignment.endsAt) > now),
+    assignedById: assignment.assignedById,
+    updatedAt: assignment.updatedAt,
+  };
+}
+
+// Helper function to read a validated window date-time (null or empty clears it)
+function windowDate(value: string | null | undefined): Date | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value ? new Date(value) : null;
+}
+
+// Find the event and make sure the requester created it
+async function findOwnEvent(
+  req: AuthRequest,
+  res: Response
+): Promise<Event | null> {
+  const event = await AppDataSource.getRepository(Event).findOne({
+    where: { eventId: req.params.eventId },
+  });
+
+  if (!event) {
+    res.status(404).json({ message: 'Event not found' });
+    return null;
+  }
+
+  if (event.createdById !== req.user!.id) {
+    res.status(403).json({ message: 'Access denied. You can only manage staff of events you created.' });
+    return null;
+  }
+
+  return event;
+}
+
+// List staff assigned to an event (Admin only)
+router.get(
+  '/',
+  authenticate,
+  requirePermission('event:manage-staff'),
+  validate(staffListSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const event = await findOwnEvent(req, res);
+      if (!event) {
+        return;
+      }
+
+      const assignments = await AppDataSource.getRepository(EventStaffAssignment).find({
+        where: { eventId: event.eventId },
+        relations: ['user'],
+        order: { createdAt: 'ASC' },
+      });
+
+      const now = new Date();
+      res.json({
+        message: 'Event staff retrieved successfully',
+        staff: assignments.map((assignment) => formatAssignment(assignment, now)),
+      });
+    } catch (error) {
+      logger.error('Get event staff error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Assign a user to an event, or change their role or access window (Admin only)
+router.put(
+  '/:userId',
+  authenticate,
+  requirePermission('event:manage-staff'),
+  validate(assignStaffSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const { role } = req.body;
+      const startsAt = windowDate(req.body.startsAt);
+      const endsAt = windowDate(req.body.endsAt);
+
+      const event = await findOwnEvent(req, res);
+      if (!event) {
+        return;
+      }
+
+      const user = await AppDataSource.getRepository(User).findOne({
+        where: { id: userId },
+      });
+
+      if (!user) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+
+      // Staff must be the admin's own users or users within their organisation unit
+      const managesUser =
+        user.adminId === req.user!.id ||
+        (user.organisationUnitId !== null &&
+          (await isUnitInScope(req.user!, user.organisationUnitId)));
+      if (!managesUser) {
+        res.status(403).json({ message: 'Access denied to this user' });
+        return;
+      }
+
+      const assignmentRepository = AppDataSource.getRepository(EventStaffAssignment);
+      let assignment = await assignmentRepository.findOne({
+        where: { eventId: event.eventId, userId },
+      });
+      const created = !assignment;
+      const before = assignment
+        ? { role: assignment.role, startsAt: assignment.startsAt, endsAt: assignment.endsAt }
+        : {};
+
+      if (!assignment) {
+        assignment = assignmentRepository.create({
+          eventId: event.eventId,
+          userId,
+          startsAt: null,
+          endsAt: null,
+        });
+      }
+
+      assignment.role = role;
+      if (startsAt !== undefined) {
+        assignment.startsAt = startsAt;
+      }
+      if (endsAt !== undefined) {
+        assignment.endsAt = endsAt;
+      }
+      // Validate the resulting window, as either end may be kept from before
+      if (
+        assignment.startsAt &&
+        assignment.endsAt &&
+        new Date(assignment.endsAt) <= new Date(assignment.startsAt)
+      ) {
+        res.status(400).json({
+          message: 'Invalid staff assignment',
+          code: 'INVALID_STAFF_ASSIGNMENT',
+          errors: ['endsAt must be after startsAt'],
+        });
+        return;
+      }
+      assignment.assignedById = req.user!.id;
+
+      assignment = await assignmentRepository.save(assignment);
+      assignment.user = user;
+
+      logger.info('Event staff assigned', {
+        eventId: event.eventId,
+        userId,
+        role,
+        assignedBy: req.user!.id,
+      });
+      auditLog.record(req, {
+        action: AuditAction.EVENT_STAFF_ASSIGNED,
+        target: { type: 'user', id: userId },
+        eventId: event.eventId,
+        changes: diffFields(before, {
+          role: assignment.role,
+          startsAt: assignment.startsAt,
+          endsAt: assignment.endsAt,
+        }),
+        metadata: { created },
+      });
+
+      res.status(created ? 201 : 200).json({
+        message: created ? 'Staff assigned successfully' : 'Staff assignment updated',
+        assignment: formatAssignment(assignment),
+      });
+    } catch (error) {
+      logger.error('Assign event staff error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Remove a user from an event's staff (Admin only)
+router.delete(
+  '/:userId',
+  authenticate,
+  requirePermission('event:manage-staff'),
+  validate(staffMemberParamsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const event = await findOwnEvent(req, res);
+      if (!event) {
+        return;
+      }
+
+      const result = await AppDataSource.getRepository(EventStaffAssignment).delete({
+        eventId: event.eventId,
+        userId: req.params.userId,
+      });
+
+      if (!result.affected) {
+        res.status(404).json({ message: 'Staff assignment not found' });
+        return;
+      }
+
+      logger.info('Event staff removed', {
+        eventId: event.eventId,
+        userId: req.params.userId,
+        removedBy: req.user!.id,
+      });
+      auditLog.record(req, {
+        action: AuditAction.EVENT_STAFF_REMOVED,
+        target: { type: 'user', id: req.params.userId },
+        eventId: event.eventId,
+      });
+
+      res.json({ message: 'Staff removed successfully' });
+    } catch (error) {
+      logger.error('Remove event staff error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
@@ -1,28 +1,106 @@
 import { Router, Response } from 'express';
 import { AppDataSource } from '../config/database';
 import { Event } from '../entities/Event';
-import { UserRole } from '../entities/User';
-import { authenticate, AuthRequest, requireAdmin } from '../middleware/auth';
+import { EventHistory, FieldChange } from '../entities/EventHistory';
+import { AuditAction } from '../entities/AuditLog';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { sendValidationError, validate } from '../middleware/validate';
+import {
+  createEventSchema,
+  eventParamsSchema,
+  updateEventSchema,
+  updateRegistrationSchema,
+} from '../validation/events';
+import { accessibleEventsQuery, checkEventAccess, isUnitInScope } from '../utils/eventAccess';
 import logger from '../config/logger';
+import { parseScheduleInput } from '../services/eventSchedule';
+import { generateRegistrationToken, registrationUrl } from '../services/registration';
+import { auditLog } from '../services/auditLog';
 
 const router = Router();
 
+// Helper function to format the scheduling fields of an event
+function formatSchedule(event: Event) {
+  return {
+    status: event.status,
+    startDate: event.startDate,
+    endDate: event.endDate,
+    dailyOpenTime: event.dailyOpenTime,
+    dailyCloseTime: event.dailyCloseTime,
+  };
+}
+
+// Helper function to format the organisation unit of an event
+function formatUnit(event: Event) {
+  return event.organisationUnit
+    ? {
+        id: event.organisationUnit.id,
+        name: event.organisationUnit.name,
+        level: event.organisationUnit.level,
+      }
+    : null;
+}
+
+// Helper function to format the pre-registration link settings of an event
+function formatRegistration(event: Event) {
+  return {
+    open: event.registrationOpen,
+    token: event.registrationToken,
+    url: event.registrationToken ? registrationUrl(event.registrationToken) : null,
+  };
+}
+
+// Helper function to make field values comparable and JSON friendly
+function normaliseValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value === undefined ? null : value;
+}
+
+// Helper function to pick the event details (name and location filters) present
+// in a validated body; empty locations clear the filter
+function pickDetailsInput(
+  body: Record<string, unknown>
+): Partial<Pick<Event, 'eventName' | 'county' | 'constituency' | 'ward'>> {
+  const values: Partial<Pick<Event, 'eventName' | 'county' | 'constituency' | 'ward'>> = {};
+
+  if (body.eventName !== undefined) {
+    values.eventName = body.eventName as string;
+  }
+  for (const key of ['county', 'constituency', 'ward'] as const) {
+    if (body[key] !== undefined) {
+      values[key] = (body[key] as string | null) || null;
+    }
+  }
+
+  return values;
+}
+
 // Create event (Admin only)
 router.post(
   '/',
   authenticate,
-  requireAdmin,
+  requirePermission('event:create'),
+  validate(createEventSchema),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { eventName, county, constituency, ward } = req.body;
+      const { eventName, county, constituency, ward, organisationUnitId } = req.body;
 
-      if (!eventName) {
-        res.status(400).json({
-          message: 'Event name is required',
+      // Events belong to the creator's unit unless a unit within their scope is given
+      if (organisationUnitId && !(await isUnitInScope(req.user!, organisationUnitId))) {
+        res.status(403).json({
+          message: 'You can only create events for your organisation unit or units below it',
         });
         return;
       }
 
+      const { values: schedule, errors } = parseScheduleInput(req.body);
+      if (errors.length > 0) {
+        sendValidationError(res, errors, 'Invalid event schedule');
+        return;
+      }
+
       const eventRepository = AppDataSource.getRepository(Event);
 
       const event = eventRepository.create({
@@ -30,11 +108,24 @@ router.post(
         county: county || null,
         constituency: constituency || null,
         ward: ward || null,
+        ...schedule,
+        organisationUnitId: organisationUnitId || req.user!.organisationUnitId,
         createdById: req.user!.id,
       });
 
       await eventRepository.save(event);
 
+      auditLog.record(req, {
+        action: AuditAction.EVENT_CREATED,
+        target: { type: 'event', id: event.eventId },
+        eventId: event.eventId,
+        metadata: {
+          eventName: event.eventName,
+          organisationUnitId: event.organisationUnitId,
+          ...formatSchedule(event),
+        },
+      });
+
       res.status(201).json({
         message: 'Event created successfully',
         event: {
@@ -43,6 +134,8 @@ router.post(
           county: event.county || 'UDA HQ',
           constituency: event.county ? event.constituency : 'HUSTLER PLAZA',
           ward: event.ward,
+          ...formatSchedule(event),
+          organisationUnitId: event.organisationUnitId,
           createdBy: req.user!.id,
           createdAt: event.createdAt,
         },
@@ -61,33 +154,16 @@ router.post(
 router.get(
   '/',
   authenticate,
+  requirePermission('event:view'),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const eventRepository = AppDataSource.getRepository(Event);
-      let events: Event[];
-
-      if (req.user!.role === UserRole.ADMIN) {
-        // Admins see only events they created
-        events = await eventRepository.find({
-          where: { createdById: req.user!.id },
-          relations: ['createdBy'],
-          order: { createdAt: 'DESC' },
-        });
-      } else {
-        // Users see only events created by their admin
-        if (!req.user!.adminId) {
-          res.status(403).json({
-            message: 'User is not assigned to an admin',
-          });
-          return;
-        }
-
-        events = await eventRepository.find({
-          where: { createdById: req.user!.adminId },
-          relations: ['createdBy'],
-          order: { createdAt: 'DESC' },
-        });
-      }
+      // Events the user created or is assigned to as staff, plus events of
+      // their organisation unit and the units below it
+      const query = await accessibleEventsQuery(req.user!);
+      const events = await query
+        .innerJoinAndSelect('event.createdBy', 'createdBy')
+        .orderBy('event.createdAt', 'DESC')
+        .getMany();
 
       res.json({
         message: 'Events retrieved successfully',
@@ -97,6 +173,8 @@ router.get(
           county: event.county || 'UDA HQ',
           constituency: event.county ? event.constituency : 'HUSTLER PLAZA',
           ward: event.ward,
+          ...formatSchedule(event),
+          organisationUnit: formatUnit(event),
           createdBy: {
             id: event.createdBy.id,
             name: event.createdBy.name,
@@ -120,6 +198,8 @@ router.get(
 router.get(
   '/:eventId',
   authenticate,
+  requirePermission('event:view'),
+  validate(eventParamsSchema),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const { eventId } = req.params;
@@ -128,7 +208,7 @@ router.get(
 
       const event = await eventRepository.findOne({
         where: { eventId },
-        relations: ['createdBy'],
+        relations: ['createdBy', 'organisationUnit'],
       });
 
       if (!event) {
@@ -137,16 +217,9 @@ router.get(
       }
 
       // Check access permissions
-      if (req.user!.role === UserRole.ADMIN) {
-        if (event.createdById !== req.user!.id) {
-          res.status(403).json({ message: 'Access denied' });
-          return;
-        }
-      } else {
-        if (!req.user!.adminId || event.createdById !== req.user!.adminId) {
-          res.status(403).json({ message: 'Access denied' });
-          return;
-        }
+      if (!(await checkEventAccess(event, req.user!))) {
+        res.status(403).json({ message: 'Access denied' });
+        return;
       }
 
       res.json({
@@ -157,6 +230,8 @@ router.get(
           county: event.county || 'UDA HQ',
           constituency: event.county ? event.constituency : 'HUSTLER PLAZA',
           ward: event.ward,
+          ...formatSchedule(event),
+          organisationUnit: formatUnit(event),
           createdBy: {
             id: event.createdBy.id,
             name: event.createdBy.name,
@@ -176,11 +251,289 @@ router.get(
   }
 );
 
+// Update event (Admin only)
+router.put(
+  '/:eventId',
+  authenticate,
+  requirePermission('event:update'),
+  validate(updateEventSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { eventId } = req.params;
+
+      const eventRepository = AppDataSource.getRepository(Event);
+
+      const event = await eventRepository.findOne({
+        where: { eventId },
+      });
+
+      if (!event) {
+        res.status(404).json({ message: 'Event not found' });
+        return;
+      }
+
+      // Only allow admin to update their own events
+      if (event.createdById !== req.user!.id) {
+        res.status(403).json({ message: 'Access denied. You can only update events you created.' });
+        return;
+      }
+
+      // Schedule fields are checked against the event's current schedule
+      const schedule = parseScheduleInput(req.body, event);
+      if (schedule.errors.length > 0) {
+        sendValidationError(res, schedule.errors, 'Invalid event update');
+        return;
+      }
+
+      // Work out which fields actually changed
+      const updates: Record<string, unknown> = { ...pickDetailsInput(req.body), ...schedule.values };
+      const changes: Record<string, FieldChange> = {};
+      for (const [field, value] of Object.entries(updates)) {
+        const from = normaliseValue(event[field as keyof Event]);
+        const to = normaliseValue(value);
+        if (from !== to) {
+          changes[field] = { from, to };
+        }
+      }
+
+      if (Object.keys(changes).length > 0) {
+        Object.assign(event, updates);
+
+        // Save the event and its history entry together
+        await AppDataSource.transaction(async (manager) => {
+          await manager.save(event);
+          await manager.save(
+            manager.create(EventHistory, {
+              eventId,
+              changedById: req.user!.id,
+              changes,
+            })
+          );
+        });
+
+        logger.info('Event updated successfully', {
+          eventId,
+          updatedBy: req.user!.id,
+          changes: Object.keys(changes),
+        });
+        auditLog.record(req, {
+          action: AuditAction.EVENT_UPDATED,
+          target: { type: 'event', id: eventId },
+          eventId,
+          changes,
+        });
+      }
+
+      res.json({
+        message: Object.keys(changes).length > 0
+          ? 'Event updated successfully'
+          : 'No changes to apply',
+        changes,
+        event: {
+          eventId: event.eventId,
+          eventName: event.eventName,
+          county: event.county || 'UDA HQ',
+          constituency: event.county ? event.constituency : 'HUSTLER PLAZA',
+          ward: event.ward,
+          ...formatSchedule(event),
+          createdAt: event.createdAt,
+          updatedAt: event.updatedAt,
+        },
+      });
+    } catch (error) {
+      logger.error('Update event error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Get change history of an event (Admin only)
+router.get(
+  '/:eventId/history',
+  authenticate,
+  requirePermission('event:update'),
+  validate(eventParamsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { eventId } = req.params;
+
+      const eventRepository = AppDataSource.getRepository(Event);
+
+      const event = await eventRepository.findOne({
+        where: { eventId },
+      });
+
+      if (!event) {
+        res.status(404).json({ message: 'Event not found' });
+        return;
+      }
+
+      if (event.createdById !== req.user!.id) {
+        res.status(403).json({ message: 'Access denied' });
+        return;
+      }
+
+      const historyRepository = AppDataSource.getRepository(EventHistory);
+      const history = await historyRepository.find({
+        where: { eventId },
+        relations: ['changedBy'],
+        order: { createdAt: 'DESC' },
+      });
+
+      res.json({
+        message: 'Event history retrieved successfully',
+        history: history.map((entry) => ({
+          id: entry.id,
+          changes: entry.changes,
+          changedBy: entry.changedBy
+            ? {
+                id: entry.changedBy.id,
+                name: entry.changedBy.name,
+                email: entry.changedBy.email,
+              }
+            : null,
+          changedAt: entry.createdAt,
+        })),
+      });
+    } catch (error) {
+      logger.error('Get event history error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Get pre-registration link settings of an event (Admin only)
+router.get(
+  '/:eventId/registration',
+  authenticate,
+  requirePermission('event:manage-registration'),
+  validate(eventParamsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { eventId } = req.params;
+
+      const eventRepository = AppDataSource.getRepository(Event);
+
+      const event = await eventRepository.findOne({
+        where: { eventId },
+      });
+
+      if (!event) {
+        res.status(404).json({ message: 'Event not found' });
+        return;
+      }
+
+      if (event.createdById !== req.user!.id) {
+        res.status(403).json({ message: 'Access denied' });
+        return;
+      }
+
+      res.json({
+        message: 'Registration settings retrieved successfully',
+        registration: formatRegistration(event),
+      });
+    } catch (error) {
+      logger.error('Get registration settings error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Open or close the public pre-registration link of an event (Admin only)
+router.put(
+  '/:eventId/registration',
+  authenticate,
+  requirePermission('event:manage-registration'),
+  validate(updateRegistrationSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { eventId } = req.params;
+      const { open, regenerateLink } = req.body;
+
+      const eventRepository = AppDataSource.getRepository(Event);
+
+      const event = await eventRepository.findOne({
+        where: { eventId },
+      });
+
+      if (!event) {
+        res.status(404).json({ message: 'Event not found' });
+        return;
+      }
+
+      if (event.createdById !== req.user!.id) {
+        res.status(403).json({ message: 'Access denied. You can only update events you created.' });
+        return;
+      }
+
+      // The token itself is a secret, so history only records that it changed
+      const changes: Record<string, FieldChange> = {};
+      if (event.registrationOpen !== open) {
+        changes.registrationOpen = { from: event.registrationOpen, to: open };
+        event.registrationOpen = open;
+      }
+      if (regenerateLink || (open && !event.registrationToken)) {
+        changes.registrationLink = {
+          from: event.registrationToken ? 'previous link' : null,
+          to: 'new link',
+        };
+        event.registrationToken = generateRegistrationToken();
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await AppDataSource.transaction(async (manager) => {
+          await manager.save(event);
+          await manager.save(
+            manager.create(EventHistory, {
+              eventId,
+              changedById: req.user!.id,
+              changes,
+            })
+          );
+        });
+
+        logger.info('Event registration updated', {
+          eventId,
+          updatedBy: req.user!.id,
+          changes: Object.keys(changes),
+        });
+        auditLog.record(req, {
+          action: AuditAction.EVENT_REGISTRATION_UPDATED,
+          target: { type: 'event', id: eventId },
+          eventId,
+          changes,
+        });
+      }
+
+      res.json({
+        message: open ? 'Registration is open' : 'Registration is closed',
+        registration: formatRegistration(event),
+      });
+    } catch (error) {
+      logger.error('Update registration settings error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
 // Delete event (Admin only)
 router.delete(
   '/:eventId',
   authenticate,
-  requireAdmin,
+  requirePermission('event:delete'),
+  validate(eventParamsSchema),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const { eventId } = req.params;
@@ -208,6 +561,12 @@ router.delete(
         eventId,
         deletedBy: req.user!.id,
       });
+      auditLog.record(req, {
+        action: AuditAction.EVENT_DELETED,
+        target: { type: 'event', id: eventId },
+        eventId,
+        metadata: { eventName: event.eventName, organisationUnitId: event.organisationUnitId },
+      });
 
       res.json({
         message: 'Event deleted successfully',
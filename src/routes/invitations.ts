@@ -0,0 +1,339 @@
+import { Router, Request, Response } from 'express';
+import { IsNull, MoreThan } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { User } from '../entities/User';
+import { UserInvitation, InvitationStatus } from '../entities/UserInvitation';
+import { AuditAction } from '../entities/AuditLog';
+import { AuthRequest, authenticate, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  acceptInvitationSchema,
+  createInvitationSchema,
+  invitationListSchema,
+  invitationParamsSchema,
+  invitationTokenParamsSchema,
+} from '../validation/auth';
+import {
+  acceptInvitation,
+  findPendingInvitation,
+  getInvitationStatus,
+  sendInvitation,
+} from '../services/invitations';
+import { auditLog } from '../services/auditLog';
+import logger from '../config/logger';
+
+const router = Router();
+
+// Helper function to format an invitation
+function formatInvitation(invitation: UserInvitation) {
+  return {
+    id: invitation.id,
+    name: invitation.name,
+    email: invitation.email,
+    status: getInvitationStatus(invitation),
+    expiresAt: invitation.expiresAt,
+    lastSentAt: invitation.lastSentAt,
+    acceptedAt: invitation.acceptedAt,
+    revokedAt: invitation.revokedAt,
+    userId: invitation.userId,
+    createdAt: invitation.createdAt,
+  };
+}
+
+// Find an invitation sent by the requester
+function findOwnInvitation(invitationId: string, user: User): Promise<UserInvitation | null> {
+  return AppDataSource.getRepository(UserInvitation).findOne({
+    where: { id: invitationId, invitedById: user.id },
+  });
+}
+
+// Get invitation details for the accept page (public)
+router.get('/accept/:token', validate(invitationTokenParamsSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invitation = await findPendingInvitation(req.params.token);
+
+    if (!invitation) {
+      res.status(404).json({
+        message: 'This invitation is invalid or has expired',
+        code: 'INVALID_INVITATION',
+      });
+      return;
+    }
+
+    res.json({
+      message: 'Invitation retrieved successfully',
+      invitation: {
+        name: invitation.name,
+        email: invitation.email,
+        expiresAt: invitation.expiresAt,
+      },
+    });
+  } catch (error) {
+    logger.error('Get invitation error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Accept an invitation by choosing a password (public)
+router.post('/accept/:token', validate(acceptInvitationSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { password } = req.body;
+
+    const result = await acceptInvitation(req.params.token, password);
+
+    if (result.status === 'invalid') {
+      res.status(404).json({
+        message: 'This invitation is invalid or has expired',
+        code: 'INVALID_INVITATION',
+      });
+      return;
+    }
+
+    if (result.status === 'email_taken') {
+      res.status(409).json({
+        message: 'An account with this email already exists. Please log in instead.',
+        code: 'ACCOUNT_EXISTS',
+      });
+      return;
+    }
+
+    logger.info('Invitation accepted', { userId: result.user.id });
+    auditLog.record(req, {
+      action: AuditAction.USER_CREATED,
+      actor: result.user,
+      target: { type: 'user', id: result.user.id },
+      metadata: { invitationId: result.invitation.id, invitedById: result.invitation.invitedById },
+    });
+
+    res.status(201).json({
+      message: 'Account created successfully. You can now log in.',
+      user: {
+        id: result.user.id,
+        name: result.user.name,
+        email: result.user.email,
+        role: result.user.role,
+      },
+    });
+  } catch (error) {
+    logger.error('Accept invitation error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// List invitations sent by the admin
+router.get(
+  '/',
+  authenticate,
+  requirePermission('user:manage'),
+  validate(invitationListSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { status } = req.query;
+
+      const invitations = await AppDataSource.getRepository(UserInvitation).find({
+        where: { invitedById: req.user!.id },
+        order: { createdAt: 'DESC' },
+      });
+
+      res.json({
+        message: 'Invitations fetched successfully',
+        invitations: invitations
+          .map(formatInvitation)
+          .filter((invitation) => !status || invitation.status === status),
+      });
+    } catch (error) {
+      logger.error('Get invitations error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Invite a new user; they set their own password from the emailed link
+router.post(
+  '/',
+  authenticate,
+  requirePermission('user:manage'),
+  validate(createInvitationSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { name, email } = req.body;
+
+      const existingUser = await AppDataSource.getRepository(User).findOne({
+        where: { email },
+      });
+
+      if (existingUser) {
+        res.status(400).json({ message: 'User with this email already exists' });
+        return;
+      }
+
+      const invitationRepository = AppDataSource.getRepository(UserInvitation);
+      const pending = await invitationRepository.findOne({
+        where: {
+          email,
+          acceptedAt: IsNull(),
+          revokedAt: IsNull(),
+          expiresAt: MoreThan(new Date()),
+        },
+      });
+
+      // Other admins' invitations are not the caller's to see, so those
+      // emails are answered like any other email already taken
+      if (pending && pending.invitedById !== req.user!.id) {
+        res.status(400).json({ message: 'User with this email already exists' });
+        return;
+      }
+
+      if (pending) {
+        res.status(409).json({
+          message: 'This email already has a pending invitation. Resend it instead.',
+          code: 'INVITATION_PENDING',
+          invitationId: pending.id,
+        });
+        return;
+      }
+
+      const { invitation, emailSent } = await sendInvitation(
+        invitationRepository.create({
+          name,
+          email,
+          invitedById: req.user!.id,
+          acceptedAt: null,
+          revokedAt: null,
+          userId: null,
+        }),
+        req.user!
+      );
+
+      logger.info('User invited', { invitationId: invitation.id, invitedBy: req.user!.id, emailSent });
+      auditLog.record(req, {
+        action: AuditAction.USER_INVITED,
+        target: { type: 'invitation', id: invitation.id },
+        metadata: { email: invitation.email, name: invitation.name, emailSent },
+      });
+
+      res.status(201).json({
+        message: emailSent
+          ? 'Invitation sent successfully.'
+          : 'Invitation created, but the email could not be sent. Please resend it.',
+        emailSent,
+        invitation: formatInvitation(invitation),
+      });
+    } catch (error) {
+      logger.error('Create invitation error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Resend an invitation with a new link and expiry
+router.post(
+  '/:invitationId/resend',
+  authenticate,
+  requirePermission('user:manage'),
+  validate(invitationParamsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const invitation = await findOwnInvitation(req.params.invitationId, req.user!);
+
+      if (!invitation) {
+        res.status(404).json({ message: 'Invitation not found' });
+        return;
+      }
+
+      const status = getInvitationStatus(invitation);
+      if (status === InvitationStatus.ACCEPTED || status === InvitationStatus.REVOKED) {
+        res.status(409).json({
+          message: `Invitation has been ${status}`,
+          code: status === InvitationStatus.ACCEPTED ? 'INVITATION_ACCEPTED' : 'INVITATION_REVOKED',
+        });
+        return;
+      }
+
+      const { invitation: resent, emailSent } = await sendInvitation(invitation, req.user!);
+
+      logger.info('Invitation resent', { invitationId: resent.id, resentBy: req.user!.id, emailSent });
+      auditLog.record(req, {
+        action: AuditAction.INVITATION_RESENT,
+        target: { type: 'invitation', id: resent.id },
+        metadata: { email: resent.email, emailSent },
+      });
+
+      res.json({
+        message: emailSent
+          ? 'Invitation resent successfully.'
+          : 'Invitation renewed, but the email could not be sent. Please try again.',
+        emailSent,
+        invitation: formatInvitation(resent),
+      });
+    } catch (error) {
+      logger.error('Resend invitation error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Revoke an invitation so its link stops working
+router.delete(
+  '/:invitationId',
+  authenticate,
+  requirePermission('user:manage'),
+  validate(invitationParamsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const invitation = await findOwnInvitation(req.params.invitationId, req.user!);
+
+      if (!invitation) {
+        res.status(404).json({ message: 'Invitation not found' });
+        return;
+      }
+
+      if (invitation.acceptedAt) {
+        res.status(409).json({
+          message: 'Invitation has already been accepted',
+          code: 'INVITATION_ACCEPTED',
+        });
+        return;
+      }
+
+      if (!invitation.revokedAt) {
+        invitation.revokedAt = new Date();
+        await AppDataSource.getRepository(UserInvitation).save(invitation);
+        logger.info('Invitation revoked', { invitationId: invitation.id, revokedBy: req.user!.id });
+        auditLog.record(req, {
+          action: AuditAction.INVITATION_REVOKED,
+          target: { type: 'invitation', id: invitation.id },
+          metadata: { email: invitation.email },
+        });
+      }
+
+      res.json({
+        message: 'Invitation revoked successfully',
+        invitation: formatInvitation(invitation),
+      });
+    } catch (error) {
+      logger.error('Revoke invitation error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,236 @@
+import { Router, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { AppDataSource } from '../config/database';
+import { User, UserRole } from '../entities/User';
+import { AuditAction } from '../entities/AuditLog';
+import {
+  ORGANISATION_LEVELS,
+  OrganisationLevel,
+  OrganisationUnit,
+} from '../entities/OrganisationUnit';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { auditLog, diffFields } from '../services/auditLog';
+import { findUserUnit, isUnitInScope, managesUser } from '../utils/eventAccess';
+import { assignUnitSchema } from '../validation/organisation';
+import logger from '../config/logger';
+
+const router = Router();
+
+// Helper function to format an organisation unit
+function formatUnit(unit: OrganisationUnit) {
+  return {
+    id: unit.id,
+    name: unit.name,
+    level: unit.level,
+    parentId: unit.parentId,
+    createdAt: unit.createdAt,
+  };
+}
+
+// Get the organisation units the admin can manage (their unit and all units below it)
+router.get(
+  '/units',
+  authenticate,
+  requirePermission('organisation:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const unit = await findUserUnit(req.user!);
+
+      const units = unit
+        ? await AppDataSource.getRepository(OrganisationUnit)
+            .createQueryBuilder('unit')
+            .where('unit.path LIKE :unitPath', { unitPath: `${unit.path}%` })
+            .orderBy('unit.path', 'ASC')
+            .getMany()
+        : [];
+
+      res.json({
+        message: 'Organisation units retrieved successfully',
+        unitId: unit?.id || null,
+        units: units.map(formatUnit),
+      });
+    } catch (error) {
+      logger.error('Get organisation units error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Create an organisation unit below one the admin manages (Admin only).
+// The national unit is created on startup (see ensureNationalUnit), not here.
+router.post(
+  '/units',
+  authenticate,
+  requirePermission('organisation:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { name, level, parentId } = req.body;
+
+      if (!name || typeof name !== 'string' || !name.trim()) {
+        res.status(400).json({ message: 'Unit name is required' });
+        return;
+      }
+
+      if (!ORGANISATION_LEVELS.includes(level)) {
+        res.status(400).json({
+          message: `level must be one of: ${ORGANISATION_LEVELS.join(', ')}`,
+        });
+        return;
+      }
+
+      if (!parentId || typeof parentId !== 'string') {
+        res.status(400).json({ message: 'parentId is required' });
+        return;
+      }
+
+      const unitRepository = AppDataSource.getRepository(OrganisationUnit);
+      const parent = await unitRepository.findOne({ where: { id: parentId } });
+      if (!parent) {
+        res.status(404).json({ message: 'Parent unit not found' });
+        return;
+      }
+
+      if (!(await isUnitInScope(req.user!, parent.id))) {
+        res.status(403).json({ message: 'Access denied to the parent unit' });
+        return;
+      }
+
+      // Each unit sits exactly one level below its parent
+      const expectedLevel = ORGANISATION_LEVELS[ORGANISATION_LEVELS.indexOf(parent.level) + 1];
+      if (level !== expectedLevel) {
+        res.status(400).json({
+          message: expectedLevel
+            ? `A unit below a ${parent.level} unit must be a ${expectedLevel} unit`
+            : `Units cannot be created below a ${parent.level} unit`,
+        });
+        return;
+      }
+
+      const duplicate = await unitRepository.count({
+        where: { parentId: parent.id, name: name.trim() },
+      });
+      if (duplicate > 0) {
+        res.status(409).json({ message: 'A unit with this name already exists here' });
+        return;
+      }
+
+      const id = randomUUID();
+      const unit = await unitRepository.save(
+        unitRepository.create({
+          id,
+          name: name.trim(),
+          level,
+          parentId: parent.id,
+          path: `${parent.path}${id}/`,
+        })
+      );
+
+      logger.info('Organisation unit created', {
+        unitId: unit.id,
+        level: unit.level,
+        parentId: unit.parentId,
+        createdBy: req.user!.id,
+      });
+      auditLog.record(req, {
+        action: AuditAction.ORGANISATION_UNIT_CREATED,
+        target: { type: 'organisation_unit', id: unit.id },
+        metadata: { name: unit.name, level: unit.level, parentId: unit.parentId },
+      });
+
+      res.status(201).json({
+        message: 'Organisation unit created successfully',
+        unit: formatUnit(unit),
+      });
+    } catch (error) {
+      logger.error('Create organisation unit error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Assign a user to an organisation unit, or remove them from one (Admin only)
+router.put(
+  '/users/:userId/unit',
+  authenticate,
+  requirePermission('organisation:manage'),
+  validate(assignUnitSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const { organisationUnitId } = req.body;
+
+      const userRepository = AppDataSource.getRepository(User);
+      const user = await userRepository.findOne({ where: { id: userId } });
+
+      if (!user) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+
+      // Admins manage their own users and anyone in a unit below theirs, but
+      // not peers or themselves. Admins outside the hierarchy are placed by
+      // national coordinators, so county and constituency coordinators can be
+      // appointed from the top down.
+      const placesUnassignedAdmin =
+        user.role === UserRole.ADMIN &&
+        user.organisationUnitId === null &&
+        (await findUserUnit(req.user!))?.level === OrganisationLevel.NATIONAL;
+      if (!(await managesUser(req.user!, user)) && !placesUnassignedAdmin) {
+        res.status(403).json({ message: 'Access denied to this user' });
+        return;
+      }
+
+      if (organisationUnitId && !(await isUnitInScope(req.user!, organisationUnitId))) {
+        res.status(403).json({ message: 'Access denied to this organisation unit' });
+        return;
+      }
+
+      const changes = diffFields(
+        { organisationUnitId: user.organisationUnitId },
+        { organisationUnitId }
+      );
+      user.organisationUnitId = organisationUnitId;
+      await userRepository.save(user);
+
+      auditLog.record(req, {
+        action: AuditAction.USER_UNIT_CHANGED,
+        target: { type: 'user', id: user.id },
+        changes,
+      });
+
+      logger.info('User organisation unit updated', {
+        userId,
+        organisationUnitId,
+        updatedBy: req.user!.id,
+      });
+
+      res.json({
+        message: organisationUnitId
+          ? 'User assigned to organisation unit'
+          : 'User removed from organisation unit',
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          organisationUnitId: user.organisationUnitId,
+        },
+      });
+    } catch (error) {
+      logger.error('Update user organisation unit error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
@@ -1,42 +1,143 @@
 import { Router, Response } from 'express';
+import { IsNull, Not } from 'typeorm';
 import { AppDataSource } from '../config/database';
 import { Event } from '../entities/Event';
-import { Participant } from '../entities/Participant';
 import { CheckInLog } from '../entities/CheckInLog';
-import { User, UserRole } from '../entities/User';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import { lookupVoter } from '../services/voterLookup';
+import { Participant, ParticipantStatus } from '../entities/Participant';
+import { AuditAction, AuditOutcome } from '../entities/AuditLog';
+import { allowQueryToken, authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { checkSchema, sendValidationError, validate, ValidationIssue } from '../middleware/validate';
+import { checkEventAccess } from '../utils/eventAccess';
+import { eventLookupFilters, resolveVoter } from '../services/voterLookup';
+import { getCheckInAvailability } from '../services/eventSchedule';
+import {
+  CheckInResult,
+  recordCheckIn,
+  recordCheckOut,
+  voidCheckIn,
+} from '../services/checkIn';
+import {
+  BadgeImageFormat,
+  renderBadgeQr,
+  resolveBadgeToken,
+  streamBadgeSheet,
+} from '../services/badges';
+import { checkInFeed } from '../services/checkInFeed';
+import { auditLog } from '../services/auditLog';
+import { parseDateRange } from '../services/reportRange';
+import {
+  InvalidCursorError,
+  ParticipantSortField,
+  listParticipants,
+} from '../services/participantListing';
+import {
+  DEFAULT_PAGE_SIZE,
+  badgeSchema,
+  badgeSheetSchema,
+  checkInSchema,
+  checkOutSchema,
+  eventParticipantsSchema,
+  listParticipantsSchema,
+  participantsByDateSchema,
+  scanCheckInSchema,
+  searchParticipantSchema,
+  syncCheckInItemSchema,
+  syncCheckInsSchema,
+  SyncCheckInItem,
+  voidCheckInSchema,
+} from '../validation/participants';
 import logger from '../config/logger';
 
 const router = Router();
 
-// Helper function to check event access
-async function checkEventAccess(
-  event: Event,
-  user: User
-): Promise<boolean> {
-  if (user.role === UserRole.ADMIN) {
-    return event.createdById === user.id;
-  } else {
-    return user.adminId !== null && event.createdById === user.adminId;
+// Allowed clock drift for offline device timestamps that are in the future
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+interface SyncItemResult {
+  index: number;
+  idempotencyKey: string | null;
+  status: 'created' | 'replayed' | 'conflict' | 'rejected' | 'error';
+  code?: string;
+  message?: string;
+  errors?: ValidationIssue[];
+  checkIn?: {
+    id: string;
+    participantId: string;
+    eventId: string;
+    checkInDate: Date;
+    checkedInAt: Date;
+  };
+}
+
+// Record a desk check-in (typed or scanned) in the audit log
+function auditCheckIn(
+  req: AuthRequest,
+  eventId: string,
+  result: CheckInResult,
+  method: 'typed' | 'scan'
+): void {
+  if (result.status === 'replayed' || result.status === 'key_reused') {
+    return;
+  }
+  auditLog.record(req, {
+    action: AuditAction.PARTICIPANT_CHECKED_IN,
+    outcome: result.status === 'already_checked_in' ? AuditOutcome.FAILURE : AuditOutcome.SUCCESS,
+    target: { type: 'check_in', id: result.checkIn.id },
+    eventId,
+    metadata: {
+      status: result.status,
+      method,
+      participantId: result.participant.id,
+      idNumber: result.participant.idNumber,
+    },
+  });
+}
+
+// Respond to a desk check-in (typed or scanned) with the shared result format
+function sendCheckInResult(res: Response, eventId: string, result: CheckInResult): void {
+  if (result.status !== 'checked_in' && result.status !== 're_entered') {
+    res.status(400).json({
+      message: 'Voter already checked in today',
+    });
+    return;
   }
+
+  const { checkIn: checkInLog, participant, visit } = result;
+  const reEntered = result.status === 're_entered';
+
+  res.status(reEntered ? 200 : 201).json({
+    message: reEntered
+      ? 'Participant re-entered successfully'
+      : 'Participant checked in successfully',
+    checkIn: {
+      id: checkInLog.id,
+      participantId: participant.id,
+      eventId,
+      checkInDate: checkInLog.checkInDate,
+      checkedInAt: checkInLog.checkedInAt,
+    },
+    visit: {
+      id: visit.id,
+      enteredAt: visit.enteredAt,
+    },
+    participant: {
+      id: participant.id,
+      idNumber: participant.idNumber,
+      name: participant.name,
+    },
+  });
 }
 
 // Search participant (voter lookup)
 router.post(
   '/search',
   authenticate,
+  requirePermission('participant:search'),
+  validate(searchParticipantSchema),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const { eventId, idNumber } = req.body;
 
-      if (!eventId || !idNumber) {
-        res.status(400).json({
-          message: 'Event ID and ID number are required',
-        });
-        return;
-      }
-
       // Verify event exists
       const eventRepository = AppDataSource.getRepository(Event);
       const event = await eventRepository.findOne({
@@ -49,31 +150,29 @@ router.post(
       }
 
       // Check event access
-      if (!(await checkEventAccess(event, req.user!))) {
+      if (!(await checkEventAccess(event, req.user!, 'checkin'))) {
         res.status(403).json({ message: 'Access denied to this event' });
         return;
       }
 
-      // Prepare filters from event (all optional - only include if available)
-      const filters: {
-        county?: string;
-        constituency?: string;
-        ward?: string;
-      } = {};
-
-      if (event.county) {
-        filters.county = event.county;
-      }
-      if (event.constituency) {
-        filters.constituency = event.constituency;
-      }
-      if (event.ward) {
-        filters.ward = event.ward;
-      }
+      // Prepare filters from event
+      const filters = eventLookupFilters(event);
 
-      // Lookup voter in external API
+      // Lookup voter (event admin's register and local cache first, then external API)
       try {
-        const voterInfo = await lookupVoter(idNumber, filters);
+        const { voter: voterInfo, source } = await resolveVoter(
+          idNumber,
+          filters,
+          event.createdById
+        );
+
+        auditLog.record(req, {
+          action: AuditAction.VOTER_SEARCHED,
+          outcome: voterInfo ? AuditOutcome.SUCCESS : AuditOutcome.FAILURE,
+          target: { type: 'voter', id: idNumber },
+          eventId,
+          metadata: { idNumber, found: Boolean(voterInfo), source },
+        });
 
         if (!voterInfo) {
           res.status(404).json({ message: 'Participant not found' });
@@ -83,6 +182,7 @@ router.post(
         res.json({
           message: 'Participant found',
           participant: voterInfo,
+          source,
         });
       } catch (error) {
         logger.error('Voter lookup error:', {
@@ -109,6 +209,8 @@ router.post(
 router.post(
   '/checkin',
   authenticate,
+  requirePermission('participant:checkin'),
+  validate(checkInSchema),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const {
@@ -123,14 +225,6 @@ router.post(
         pollingCenter,
       } = req.body;
 
-      if (!eventId || !idNumber || !name || !dateOfBirth || !sex) {
-        res.status(400).json({
-          message:
-            'Event ID, ID number, name, date of birth, and sex are required',
-        });
-        return;
-      }
-
       // Verify event exists
       const eventRepository = AppDataSource.getRepository(Event);
       const event = await eventRepository.findOne({
@@ -143,80 +237,191 @@ router.post(
       }
 
       // Check event access
-      if (!(await checkEventAccess(event, req.user!))) {
+      if (!(await checkEventAccess(event, req.user!, 'checkin'))) {
         res.status(403).json({ message: 'Access denied to this event' });
         return;
       }
 
-      const participantRepository = AppDataSource.getRepository(Participant);
-      const checkInLogRepository = AppDataSource.getRepository(CheckInLog);
+      // Check the event is open for check-ins right now
+      const availability = getCheckInAvailability(event);
+      if (!availability.allowed) {
+        res.status(409).json({
+          message: availability.message,
+          code: availability.code,
+        });
+        return;
+      }
 
-      // Find or create participant
-      let participant = await participantRepository.findOne({
-        where: {
-          eventId,
+      const result = await recordCheckIn({
+        event,
+        checkedInById: req.user!.id,
+        details: {
           idNumber,
+          name,
+          dateOfBirth,
+          sex,
+          county,
+          constituency,
+          ward,
+          pollingCenter,
         },
+        allowReentry: true,
+      });
+
+      auditCheckIn(req, eventId, result, 'typed');
+      sendCheckInResult(res, eventId, result);
+    } catch (error) {
+      logger.error('Check-in participant error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Check-in participant by scanning their QR badge
+router.post(
+  '/checkin/scan',
+  authenticate,
+  requirePermission('participant:checkin'),
+  validate(scanCheckInSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { eventId, token } = req.body;
+
+      // Verify event exists
+      const eventRepository = AppDataSource.getRepository(Event);
+      const event = await eventRepository.findOne({
+        where: { eventId },
       });
 
+      if (!event) {
+        res.status(404).json({ message: 'Event not found' });
+        return;
+      }
+
+      // Check event access
+      if (!(await checkEventAccess(event, req.user!, 'checkin'))) {
+        res.status(403).json({ message: 'Access denied to this event' });
+        return;
+      }
+
+      const participant = await resolveBadgeToken(token);
       if (!participant) {
-        // Create new participant
-        participant = participantRepository.create({
-          eventId,
-          idNumber,
-          name,
-          dateOfBirth: new Date(dateOfBirth),
-          sex,
-          county: county || null,
-          constituency: constituency || null,
-          ward: ward || null,
-          pollingCenter: pollingCenter || null,
+        res.status(400).json({
+          message: 'Invalid badge',
+          code: 'INVALID_BADGE',
         });
-        await participantRepository.save(participant);
-      } else {
-        // Update participant info (in case it changed)
-        participant.name = name;
-        participant.dateOfBirth = new Date(dateOfBirth);
-        participant.sex = sex;
-        participant.county = county || null;
-        participant.constituency = constituency || null;
-        participant.ward = ward || null;
-        participant.pollingCenter = pollingCenter || null;
-        await participantRepository.save(participant);
-      }
-
-      // Check if already checked in today
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      const existingCheckIn = await checkInLogRepository.findOne({
-        where: {
-          participantId: participant.id,
-          eventId,
-          checkInDate: today,
-        },
-      });
+        return;
+      }
 
-      if (existingCheckIn) {
+      if (participant.eventId !== event.eventId) {
         res.status(400).json({
-          message: 'Voter already checked in today',
+          message: 'Badge belongs to a different event',
+          code: 'BADGE_EVENT_MISMATCH',
         });
         return;
       }
 
-      // Create check-in log
-      const checkInLog = checkInLogRepository.create({
-        participantId: participant.id,
-        eventId,
+      // Check the event is open for check-ins right now
+      const availability = getCheckInAvailability(event);
+      if (!availability.allowed) {
+        res.status(409).json({
+          message: availability.message,
+          code: availability.code,
+        });
+        return;
+      }
+
+      const result = await recordCheckIn({
+        event,
         checkedInById: req.user!.id,
-        checkInDate: today,
-        checkedInAt: new Date(),
+        details: {
+          idNumber: participant.idNumber,
+          name: participant.name,
+          dateOfBirth: participant.dateOfBirth,
+          sex: participant.sex,
+          county: participant.county,
+          constituency: participant.constituency,
+          ward: participant.ward,
+          pollingCenter: participant.pollingCenter,
+        },
+        allowReentry: true,
+      });
+
+      auditCheckIn(req, eventId, result, 'scan');
+      sendCheckInResult(res, eventId, result);
+    } catch (error) {
+      logger.error('Scan check-in error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Check-out participant (closes their current visit for the day)
+router.post(
+  '/checkout',
+  authenticate,
+  requirePermission('participant:checkin'),
+  validate(checkOutSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { eventId, idNumber } = req.body;
+
+      // Verify event exists
+      const eventRepository = AppDataSource.getRepository(Event);
+      const event = await eventRepository.findOne({
+        where: { eventId },
+      });
+
+      if (!event) {
+        res.status(404).json({ message: 'Event not found' });
+        return;
+      }
+
+      // Check event access
+      if (!(await checkEventAccess(event, req.user!, 'checkin'))) {
+        res.status(403).json({ message: 'Access denied to this event' });
+        return;
+      }
+
+      const result = await recordCheckOut({
+        event,
+        idNumber,
+        checkedOutById: req.user!.id,
       });
 
-      await checkInLogRepository.save(checkInLog);
+      if (result.status === 'not_checked_in') {
+        res.status(404).json({
+          message: 'Participant is not checked in today',
+          code: 'NOT_CHECKED_IN',
+        });
+        return;
+      }
+
+      if (result.status === 'already_checked_out') {
+        res.status(409).json({
+          message: 'Participant already checked out',
+          code: 'ALREADY_CHECKED_OUT',
+        });
+        return;
+      }
+
+      const { checkIn: checkInLog, participant, visit } = result;
+
+      auditLog.record(req, {
+        action: AuditAction.PARTICIPANT_CHECKED_OUT,
+        target: { type: 'check_in', id: checkInLog.id },
+        eventId,
+        metadata: { participantId: participant.id, idNumber: participant.idNumber, visitId: visit.id },
+      });
 
-      res.status(201).json({
-        message: 'Participant checked in successfully',
+      res.json({
+        message: 'Participant checked out successfully',
         checkIn: {
           id: checkInLog.id,
           participantId: participant.id,
@@ -224,6 +429,14 @@ router.post(
           checkInDate: checkInLog.checkInDate,
           checkedInAt: checkInLog.checkedInAt,
         },
+        visit: {
+          id: visit.id,
+          enteredAt: visit.enteredAt,
+          exitedAt: visit.exitedAt,
+          durationMinutes: Math.round(
+            (visit.exitedAt!.getTime() - new Date(visit.enteredAt).getTime()) / 60000
+          ),
+        },
         participant: {
           id: participant.id,
           idNumber: participant.idNumber,
@@ -231,7 +444,160 @@ router.post(
         },
       });
     } catch (error) {
-      logger.error('Check-in participant error:', {
+      logger.error('Check-out participant error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Sync check-ins captured offline (batch)
+router.post(
+  '/checkin/sync',
+  authenticate,
+  requirePermission('participant:checkin'),
+  validate(syncCheckInsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { checkIns } = req.body;
+
+      const eventRepository = AppDataSource.getRepository(Event);
+      // Cache event lookups across items of the batch
+      const events = new Map<string, Event | null>();
+      const results: SyncItemResult[] = [];
+
+      // Items are applied in order, each in its own transaction
+      for (let index = 0; index < checkIns.length; index++) {
+        const raw = checkIns[index];
+        const { value: item, issues } = checkSchema<SyncCheckInItem>(syncCheckInItemSchema, raw);
+        const idempotencyKey = issues.length === 0
+          ? item.idempotencyKey
+          : typeof raw?.idempotencyKey === 'string' ? raw.idempotencyKey : null;
+        const reject = (code: string, message: string, errors?: ValidationIssue[]) =>
+          results.push({ index, idempotencyKey, status: 'rejected', code, message, errors });
+
+        if (issues.length > 0) {
+          reject('VALIDATION_ERROR', 'Check-in validation failed', issues);
+          continue;
+        }
+
+        const { eventId, idNumber, name, dateOfBirth, sex, checkedInAt } = item;
+        if (checkedInAt.getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+          reject('INVALID_CHECKED_IN_AT', 'checkedInAt cannot be in the future');
+          continue;
+        }
+
+        if (!events.has(eventId)) {
+          events.set(eventId, await eventRepository.findOne({ where: { eventId } }));
+        }
+        // Staff access is checked as of the original check-in time
+        const event = events.get(eventId);
+        if (!event || !(await checkEventAccess(event, req.user!, 'checkin', checkedInAt))) {
+          reject('EVENT_NOT_ACCESSIBLE', 'Event not found or access denied');
+          continue;
+        }
+
+        // Enforce the event schedule as of the original check-in time
+        const availability = getCheckInAvailability(event, checkedInAt);
+        if (!availability.allowed) {
+          reject(availability.code, availability.message);
+          continue;
+        }
+
+        try {
+          const result = await recordCheckIn({
+            event,
+            checkedInById: req.user!.id,
+            details: {
+              idNumber,
+              name,
+              dateOfBirth,
+              sex,
+              county: item.county,
+              constituency: item.constituency,
+              ward: item.ward,
+              pollingCenter: item.pollingCenter,
+            },
+            checkedInAt,
+            idempotencyKey,
+          });
+
+          if (result.status === 'key_reused') {
+            reject('IDEMPOTENCY_KEY_REUSED', 'idempotencyKey was already used for a check-in at another event');
+            continue;
+          }
+
+          const checkIn = {
+            id: result.checkIn.id,
+            participantId: result.checkIn.participantId,
+            eventId: result.checkIn.eventId,
+            checkInDate: result.checkIn.checkInDate,
+            checkedInAt: result.checkIn.checkedInAt,
+          };
+
+          if (result.status === 'checked_in') {
+            results.push({ index, idempotencyKey, status: 'created', checkIn });
+          } else if (result.status === 'replayed') {
+            results.push({ index, idempotencyKey, status: 'replayed', checkIn });
+          } else {
+            results.push({
+              index,
+              idempotencyKey,
+              status: 'conflict',
+              code: 'ALREADY_CHECKED_IN',
+              message: 'Voter already checked in today',
+              checkIn,
+            });
+          }
+        } catch (error) {
+          logger.error('Sync check-in item error:', {
+            error: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined,
+            idempotencyKey,
+          });
+          results.push({
+            index,
+            idempotencyKey,
+            status: 'error',
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to record check-in',
+          });
+        }
+      }
+
+      const summary = {
+        total: results.length,
+        created: results.filter((r) => r.status === 'created').length,
+        replayed: results.filter((r) => r.status === 'replayed').length,
+        conflicts: results.filter((r) => r.status === 'conflict').length,
+        rejected: results.filter((r) => r.status === 'rejected').length,
+        errors: results.filter((r) => r.status === 'error').length,
+      };
+
+      logger.info('Offline check-ins synced', {
+        userId: req.user!.id,
+        ...summary,
+      });
+      // One entry per batch, listing the check-ins it created
+      auditLog.record(req, {
+        action: AuditAction.CHECK_INS_SYNCED,
+        metadata: {
+          ...summary,
+          created: results
+            .filter((r) => r.status === 'created')
+            .map((r) => ({ checkInId: r.checkIn!.id, eventId: r.checkIn!.eventId })),
+        },
+      });
+
+      res.json({
+        message: 'Check-ins synced',
+        summary,
+        results,
+      });
+    } catch (error) {
+      logger.error('Sync check-ins error:', {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
       });
@@ -244,6 +610,8 @@ router.post(
 router.get(
   '/event/:eventId',
   authenticate,
+  requirePermission('participant:view'),
+  validate(listParticipantsSchema),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const { eventId } = req.params;
@@ -265,12 +633,53 @@ router.get(
         return;
       }
 
-      const participantRepository = AppDataSource.getRepository(Participant);
-      const participants = await participantRepository.find({
-        where: { eventId },
-        relations: ['checkInLogs', 'checkInLogs.checkedInBy', 'event'],
-        order: { createdAt: 'DESC' },
+      const query = req.query as Record<string, string | undefined>;
+
+      const limit = query.limit ? Number(query.limit) : DEFAULT_PAGE_SIZE;
+      const sortBy = (query.sortBy || 'createdAt') as ParticipantSortField;
+      const order = (query.order || (sortBy === 'createdAt' ? 'desc' : 'asc')).toUpperCase() as
+        | 'ASC'
+        | 'DESC';
+      const status = query.status as ParticipantStatus | undefined;
+
+      // Check-in date range filter (checkedInFrom / checkedInTo)
+      const { range: checkedIn, error: rangeError } = parseDateRange({
+        from: query.checkedInFrom,
+        to: query.checkedInTo,
       });
+      if (rangeError) {
+        sendValidationError(res, [
+          { field: 'checkedInTo', location: 'query', code: 'INVALID_RANGE', message: rangeError },
+        ]);
+        return;
+      }
+
+      let page;
+      try {
+        page = await listParticipants(eventId, {
+          limit,
+          cursor: query.cursor,
+          sortBy,
+          order,
+          search: query.search,
+          sex: query.sex,
+          ward: query.ward,
+          pollingCenter: query.pollingCenter,
+          status,
+          checkedIn,
+          checkedInById: query.checkedInById,
+        });
+      } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          sendValidationError(res, [
+            { field: 'cursor', location: 'query', code: 'INVALID_CURSOR', message: error.message },
+          ]);
+          return;
+        }
+        throw error;
+      }
+
+      const { participants } = page;
 
       res.json({
         message: 'Participants retrieved successfully',
@@ -284,6 +693,8 @@ router.get(
           constituency: participant.constituency,
           ward: participant.ward,
           pollingCenter: participant.pollingCenter,
+          status: participant.status,
+          registeredAt: participant.registeredAt,
           checkInLogs: participant.checkInLogs.map((log) => ({
             id: log.id,
             checkInDate: log.checkInDate,
@@ -298,6 +709,12 @@ router.get(
           eventId: participant.eventId,
           createdAt: participant.createdAt,
         })),
+        pagination: {
+          limit,
+          total: page.total,
+          hasMore: page.hasMore,
+          nextCursor: page.nextCursor,
+        },
       });
     } catch (error) {
       logger.error('Get participants error:', {
@@ -309,10 +726,150 @@ router.get(
   }
 );
 
+// Live check-in feed for an event (Server-Sent Events)
+router.get(
+  '/event/:eventId/live',
+  allowQueryToken,
+  authenticate,
+  requirePermission('participant:view'),
+  validate(eventParticipantsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { eventId } = req.params;
+
+      // Verify event exists
+      const eventRepository = AppDataSource.getRepository(Event);
+      const event = await eventRepository.findOne({
+        where: { eventId },
+      });
+
+      if (!event) {
+        res.status(404).json({ message: 'Event not found' });
+        return;
+      }
+
+      // Check event access
+      if (!(await checkEventAccess(event, req.user!))) {
+        res.status(403).json({ message: 'Access denied to this event' });
+        return;
+      }
+
+      // Browsers send Last-Event-ID on reconnect; allow a query fallback
+      const lastEventId =
+        req.get('last-event-id') ||
+        (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+
+      await checkInFeed.subscribe(eventId, res, lastEventId);
+    } catch (error) {
+      logger.error('Live check-in feed error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Download a printable PDF sheet of QR badges for an event's participants
+router.get(
+  '/event/:eventId/badges',
+  authenticate,
+  requirePermission('participant:view'),
+  validate(badgeSheetSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { eventId } = req.params;
+      const { ward, pollingCenter } = req.query as Record<string, string | undefined>;
+
+      // Verify event exists
+      const eventRepository = AppDataSource.getRepository(Event);
+      const event = await eventRepository.findOne({
+        where: { eventId },
+      });
+
+      if (!event) {
+        res.status(404).json({ message: 'Event not found' });
+        return;
+      }
+
+      // Check event access
+      if (!(await checkEventAccess(event, req.user!))) {
+        res.status(403).json({ message: 'Access denied to this event' });
+        return;
+      }
+
+      const slug = event.eventName.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event';
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${slug}-badges.pdf"`);
+
+      await streamBadgeSheet(event, { ward, pollingCenter }, res);
+    } catch (error) {
+      logger.error('Badge sheet error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      // Once streaming has started the status can no longer change
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Get a participant's QR badge as PNG or SVG
+router.get(
+  '/:participantId/badge',
+  authenticate,
+  requirePermission('participant:view'),
+  validate(badgeSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { participantId } = req.params;
+      const format = ((req.query.format as string) || 'png') as BadgeImageFormat;
+
+      const participant = await AppDataSource.getRepository(Participant).findOne({
+        where: { id: participantId },
+        relations: ['event'],
+      });
+
+      if (!participant) {
+        res.status(404).json({ message: 'Participant not found' });
+        return;
+      }
+
+      // Check event access
+      if (!(await checkEventAccess(participant.event, req.user!))) {
+        res.status(403).json({ message: 'Access denied to this event' });
+        return;
+      }
+
+      const image = await renderBadgeQr(participant, format);
+      res.setHeader('Content-Type', format === 'svg' ? 'image/svg+xml' : 'image/png');
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      res.send(image);
+    } catch (error) {
+      logger.error('Participant badge error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
 // Get participants checked in on a specific date
 router.get(
   '/event/:eventId/date/:date',
   authenticate,
+  requirePermission('participant:view'),
+  validate(participantsByDateSchema),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const { eventId, date } = req.params;
@@ -334,12 +891,8 @@ router.get(
         return;
       }
 
-      // Parse date (format: YYYY-MM-DD)
+      // Date of the listing (YYYY-MM-DD)
       const targetDate = new Date(date);
-      if (isNaN(targetDate.getTime())) {
-        res.status(400).json({ message: 'Invalid date format. Use YYYY-MM-DD' });
-        return;
-      }
       targetDate.setHours(0, 0, 0, 0);
 
       const checkInLogRepository = AppDataSource.getRepository(CheckInLog);
@@ -347,6 +900,7 @@ router.get(
         where: {
           eventId,
           checkInDate: targetDate,
+          voidedAt: IsNull(),
         },
         relations: ['participant', 'checkedInBy'],
         order: { checkedInAt: 'DESC' },
@@ -388,4 +942,161 @@ router.get(
   }
 );
 
+// Void a check-in made in error
+router.post(
+  '/checkins/:checkInId/void',
+  authenticate,
+  requirePermission('checkin:void'),
+  validate(voidCheckInSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { checkInId } = req.params;
+      const { reason } = req.body;
+
+      const checkInLogRepository = AppDataSource.getRepository(CheckInLog);
+      const checkIn = await checkInLogRepository.findOne({
+        where: { id: checkInId },
+        relations: ['event'],
+      });
+
+      if (!checkIn) {
+        res.status(404).json({ message: 'Check-in not found' });
+        return;
+      }
+
+      // Check event access
+      if (!(await checkEventAccess(checkIn.event, req.user!, 'checkin'))) {
+        res.status(403).json({ message: 'Access denied to this event' });
+        return;
+      }
+
+      // Staff can void their own check-ins; supervisors and the event admin any
+      if (
+        checkIn.checkedInById !== req.user!.id &&
+        !(await checkEventAccess(checkIn.event, req.user!, 'supervise'))
+      ) {
+        res.status(403).json({ message: 'You can only void check-ins you recorded' });
+        return;
+      }
+
+      if (checkIn.voidedAt) {
+        res.status(409).json({ message: 'Check-in has already been voided' });
+        return;
+      }
+
+      const voided = await voidCheckIn(checkIn, req.user!.id, reason);
+
+      logger.info('Check-in voided', {
+        checkInId,
+        eventId: voided.eventId,
+        participantId: voided.participantId,
+        voidedBy: req.user!.id,
+        reason,
+      });
+      auditLog.record(req, {
+        action: AuditAction.CHECK_IN_VOIDED,
+        target: { type: 'check_in', id: voided.id },
+        eventId: voided.eventId,
+        metadata: {
+          participantId: voided.participantId,
+          checkedInById: voided.checkedInById,
+          reason,
+        },
+      });
+
+      res.json({
+        message: 'Check-in voided successfully',
+        checkIn: {
+          id: voided.id,
+          participantId: voided.participantId,
+          eventId: voided.eventId,
+          checkInDate: voided.checkInDate,
+          checkedInAt: voided.checkedInAt,
+          voidedAt: voided.voidedAt,
+          voidedById: voided.voidedById,
+          voidReason: voided.voidReason,
+        },
+      });
+    } catch (error) {
+      logger.error('Void check-in error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Get voided check-ins for an event (audit trail)
+router.get(
+  '/event/:eventId/voided',
+  authenticate,
+  requirePermission('participant:view'),
+  validate(eventParticipantsSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { eventId } = req.params;
+
+      // Verify event exists
+      const eventRepository = AppDataSource.getRepository(Event);
+      const event = await eventRepository.findOne({
+        where: { eventId },
+      });
+
+      if (!event) {
+        res.status(404).json({ message: 'Event not found' });
+        return;
+      }
+
+      // Check event access
+      if (!(await checkEventAccess(event, req.user!))) {
+        res.status(403).json({ message: 'Access denied to this event' });
+        return;
+      }
+
+      const checkInLogRepository = AppDataSource.getRepository(CheckInLog);
+      const voided = await checkInLogRepository.find({
+        where: { eventId, voidedAt: Not(IsNull()) },
+        relations: ['participant', 'checkedInBy', 'voidedBy'],
+        order: { voidedAt: 'DESC' },
+      });
+
+      res.json({
+        message: 'Voided check-ins retrieved successfully',
+        count: voided.length,
+        checkIns: voided.map((log) => ({
+          id: log.id,
+          checkInDate: log.checkInDate,
+          checkedInAt: log.checkedInAt,
+          participant: {
+            id: log.participant.id,
+            idNumber: log.participant.idNumber,
+            name: log.participant.name,
+          },
+          checkedInBy: {
+            id: log.checkedInBy.id,
+            name: log.checkedInBy.name,
+            email: log.checkedInBy.email,
+          },
+          voidedAt: log.voidedAt,
+          voidedBy: log.voidedBy
+            ? {
+                id: log.voidedBy.id,
+                name: log.voidedBy.name,
+                email: log.voidedBy.email,
+              }
+            : null,
+          voidReason: log.voidReason,
+        })),
+      });
+    } catch (error) {
+      logger.error('Get voided check-ins error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
 export default router;
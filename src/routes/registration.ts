@@ -0,0 +1,154 @@
+import { Router, Request, Response } from 'express';
+import { AppDataSource } from '../config/database';
+import { env } from '../config/env';
+import { Event } from '../entities/Event';
+import { loginThrottle } from '../services/loginThrottle';
+import { getRegistrationAvailability, registerParticipant } from '../services/registration';
+import logger from '../config/logger';
+
+const router = Router();
+
+// Find the event behind a public registration link
+function findEventByToken(token: string): Promise<Event | null> {
+  return AppDataSource.getRepository(Event).findOne({
+    where: { registrationToken: token },
+  });
+}
+
+// Reply 429 once the caller's IP has used up its registration attempts; returns false when throttled
+async function checkRegistrationLimit(req: Request, res: Response): Promise<boolean> {
+  const check = await loginThrottle.consume(
+    'registration',
+    req.ip || req.socket.remoteAddress || 'unknown',
+    env.REGISTRATION_MAX_PER_IP,
+    env.REGISTRATION_WINDOW_MINUTES * 60 * 1000
+  );
+  if (check.allowed) {
+    return true;
+  }
+
+  res.set('Retry-After', String(check.retryAfterSeconds));
+  res.status(429).json({
+    message: 'Too many registration attempts. Please wait before trying again.',
+    code: 'TOO_MANY_REQUESTS',
+    retryAfter: check.retryAfterSeconds,
+  });
+  return false;
+}
+
+// Get public details of an event open for pre-registration (no authentication)
+router.get(
+  '/:token',
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const event = await findEventByToken(req.params.token);
+
+      if (!event) {
+        res.status(404).json({ message: 'Registration link not found' });
+        return;
+      }
+
+      const availability = getRegistrationAvailability(event);
+      if (!availability.allowed) {
+        res.status(410).json({
+          message: availability.message,
+          code: availability.code,
+        });
+        return;
+      }
+
+      res.json({
+        message: 'Registration is open',
+        event: {
+          eventName: event.eventName,
+          county: event.county,
+          constituency: event.constituency,
+          ward: event.ward,
+          startDate: event.startDate,
+          endDate: event.endDate,
+        },
+      });
+    } catch (error) {
+      logger.error('Get registration error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Pre-register for an event with an ID number (no authentication)
+router.post(
+  '/:token',
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!(await checkRegistrationLimit(req, res))) {
+        return;
+      }
+
+      const idNumber = typeof req.body.idNumber === 'string' ? req.body.idNumber.trim() : '';
+
+      if (!idNumber || idNumber.length > 50) {
+        res.status(400).json({ message: 'ID number is required' });
+        return;
+      }
+
+      const event = await findEventByToken(req.params.token);
+
+      if (!event) {
+        res.status(404).json({ message: 'Registration link not found' });
+        return;
+      }
+
+      const availability = getRegistrationAvailability(event);
+      if (!availability.allowed) {
+        res.status(410).json({
+          message: availability.message,
+          code: availability.code,
+        });
+        return;
+      }
+
+      let result;
+      try {
+        result = await registerParticipant(event, idNumber);
+      } catch (error) {
+        logger.error('Registration voter lookup error:', {
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+          eventId: event.eventId,
+        });
+        res.status(503).json({
+          message: 'Unable to verify voter details right now. Please try again later.',
+        });
+        return;
+      }
+
+      if (result.status === 'registered') {
+        logger.info('Participant pre-registered', {
+          eventId: event.eventId,
+          participantId: result.participant.id,
+        });
+      }
+
+      // The same answer whether the ID was registered now, was already
+      // registered or is not a voter in the area, so the link cannot be used
+      // to find out which ID numbers exist. Voter details are never echoed back.
+      res.status(202).json({
+        message: "If this ID number belongs to a registered voter in the event's area, it is registered for the event",
+        registration: {
+          eventName: event.eventName,
+        },
+      });
+    } catch (error) {
+      logger.error('Register participant error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
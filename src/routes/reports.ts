@@ -0,0 +1,341 @@
+import { Router, Response } from 'express';
+import { AppDataSource } from '../config/database';
+import { Event } from '../entities/Event';
+import { AuditAction } from '../entities/AuditLog';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { checkEventAccess } from '../utils/eventAccess';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  EXPORT_REPORTS,
+  ExportFormat,
+  ExportReport,
+  streamAttendanceExport,
+} from '../services/attendanceExport';
+import { parseDateRange } from '../services/reportRange';
+import { auditLog } from '../services/auditLog';
+import { getEventAnalytics } from '../services/eventAnalytics';
+import { getDwellSummary, listParticipantDwellTimes } from '../services/dwellTime';
+import { getRegistrationSummary, listNoShows } from '../services/registrationReport';
+import logger from '../config/logger';
+
+const router = Router();
+
+// Page sizes for per-participant report listings
+const DEFAULT_REPORT_PAGE_SIZE = 100;
+const MAX_REPORT_PAGE_SIZE = 1000;
+
+// Helper function to parse limit/offset paging of report listings
+function parsePaging(query: Record<string, unknown>): {
+  limit: number;
+  offset: number;
+  error?: string;
+} {
+  const limit = query.limit !== undefined ? Number(query.limit) : DEFAULT_REPORT_PAGE_SIZE;
+  const offset = query.offset !== undefined ? Number(query.offset) : 0;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_REPORT_PAGE_SIZE) {
+    return {
+      limit,
+      offset,
+      error: `limit must be an integer between 1 and ${MAX_REPORT_PAGE_SIZE}`,
+    };
+  }
+
+  if (!Number.isInteger(offset) || offset < 0) {
+    return { limit, offset, error: 'offset must be a non-negative integer' };
+  }
+
+  return { limit, offset };
+}
+
+// Export attendance for an event as CSV or XLSX
+router.get(
+  '/events/:eventId/export/:report',
+  authenticate,
+  requirePermission('participant:export'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { eventId } = req.params;
+      const report = req.params.report as ExportReport;
+      const format = ((req.query.format as string) || 'csv') as ExportFormat;
+
+      if (!EXPORT_REPORTS.includes(report)) {
+        res.status(400).json({
+          message: `Report must be one of: ${EXPORT_REPORTS.join(', ')}`,
+        });
+        return;
+      }
+
+      if (!EXPORT_FORMATS.includes(format)) {
+        res.status(400).json({
+          message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+        });
+        return;
+      }
+
+      const { range, error } = parseDateRange(req.query);
+      if (error) {
+        res.status(400).json({ message: error });
+        return;
+      }
+
+      // Verify event exists
+      const eventRepository = AppDataSource.getRepository(Event);
+      const event = await eventRepository.findOne({
+        where: { eventId },
+      });
+
+      if (!event) {
+        res.status(404).json({ message: 'Event not found' });
+        return;
+      }
+
+      // Check event access
+      if (!(await checkEventAccess(event, req.user!))) {
+        res.status(403).json({ message: 'Access denied to this event' });
+        return;
+      }
+
+      const slug = event.eventName.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event';
+      const period = range.from || range.to
+        ? `-${range.from || 'start'}-to-${range.to || 'end'}`
+        : '';
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${slug}-${report}${period}.${format}"`
+      );
+
+      auditLog.record(req, {
+        action: AuditAction.ATTENDANCE_EXPORTED,
+        target: { type: 'event', id: eventId },
+        eventId,
+        metadata: { report, format, ...range },
+      });
+
+      await streamAttendanceExport(eventId, report, format, range, res);
+
+      logger.info('Attendance exported', {
+        eventId,
+        report,
+        format,
+        ...range,
+        exportedBy: req.user!.id,
+      });
+    } catch (error) {
+      logger.error('Export attendance error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      // Once streaming has started the status can no longer change
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Get attendance analytics for an event
+router.get(
+  '/events/:eventId/analytics',
+  authenticate,
+  requirePermission('report:view'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { eventId } = req.params;
+
+      const { range, error } = parseDateRange(req.query);
+      if (error) {
+        res.status(400).json({ message: error });
+        return;
+      }
+
+      // Verify event exists
+      const eventRepository = AppDataSource.getRepository(Event);
+      const event = await eventRepository.findOne({
+        where: { eventId },
+      });
+
+      if (!event) {
+        res.status(404).json({ message: 'Event not found' });
+        return;
+      }
+
+      // Check event access
+      if (!(await checkEventAccess(event, req.user!))) {
+        res.status(403).json({ message: 'Access denied to this event' });
+        return;
+      }
+
+      const analytics = await getEventAnalytics(eventId, range);
+
+      res.json({
+        message: 'Event analytics retrieved successfully',
+        eventId,
+        range: {
+          from: range.from || null,
+          to: range.to || null,
+        },
+        analytics,
+      });
+    } catch (error) {
+      logger.error('Get event analytics error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Get time on site per participant and the event's average dwell time
+router.get(
+  '/events/:eventId/dwell-time',
+  authenticate,
+  requirePermission('report:view'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { eventId } = req.params;
+
+      const { range, error } = parseDateRange(req.query);
+      if (error) {
+        res.status(400).json({ message: error });
+        return;
+      }
+
+      const { limit, offset, error: pagingError } = parsePaging(req.query);
+      if (pagingError) {
+        res.status(400).json({ message: pagingError });
+        return;
+      }
+
+      // Verify event exists
+      const eventRepository = AppDataSource.getRepository(Event);
+      const event = await eventRepository.findOne({
+        where: { eventId },
+      });
+
+      if (!event) {
+        res.status(404).json({ message: 'Event not found' });
+        return;
+      }
+
+      // Check event access
+      if (!(await checkEventAccess(event, req.user!))) {
+        res.status(403).json({ message: 'Access denied to this event' });
+        return;
+      }
+
+      const [summary, page] = await Promise.all([
+        getDwellSummary(eventId, range),
+        listParticipantDwellTimes(eventId, range, limit, offset),
+      ]);
+
+      res.json({
+        message: 'Dwell time retrieved successfully',
+        eventId,
+        range: {
+          from: range.from || null,
+          to: range.to || null,
+        },
+        summary,
+        participants: page.participants,
+        pagination: {
+          limit,
+          offset,
+          total: page.total,
+          hasMore: offset + page.participants.length < page.total,
+        },
+      });
+    } catch (error) {
+      logger.error('Get dwell time error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Get pre-registration turnout and the no-shows of an event
+router.get(
+  '/events/:eventId/no-shows',
+  authenticate,
+  requirePermission('report:view'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { eventId } = req.params;
+
+      const { range, error } = parseDateRange(req.query);
+      if (error) {
+        res.status(400).json({ message: error });
+        return;
+      }
+
+      const { limit, offset, error: pagingError } = parsePaging(req.query);
+      if (pagingError) {
+        res.status(400).json({ message: pagingError });
+        return;
+      }
+
+      // Verify event exists
+      const eventRepository = AppDataSource.getRepository(Event);
+      const event = await eventRepository.findOne({
+        where: { eventId },
+      });
+
+      if (!event) {
+        res.status(404).json({ message: 'Event not found' });
+        return;
+      }
+
+      // Check event access
+      if (!(await checkEventAccess(event, req.user!))) {
+        res.status(403).json({ message: 'Access denied to this event' });
+        return;
+      }
+
+      const [summary, page] = await Promise.all([
+        getRegistrationSummary(eventId, range),
+        listNoShows(eventId, range, limit, offset),
+      ]);
+
+      res.json({
+        message: 'No-shows retrieved successfully',
+        eventId,
+        range: {
+          from: range.from || null,
+          to: range.to || null,
+        },
+        summary,
+        participants: page.participants.map((participant) => ({
+          id: participant.id,
+          idNumber: participant.idNumber,
+          name: participant.name,
+          sex: participant.sex,
+          ward: participant.ward,
+          pollingCenter: participant.pollingCenter,
+          registeredAt: participant.registeredAt,
+        })),
+        pagination: {
+          limit,
+          offset,
+          total: page.total,
+          hasMore: offset + page.participants.length < page.total,
+        },
+      });
+    } catch (error) {
+      logger.error('Get no-shows error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
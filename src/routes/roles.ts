@@ -0,0 +1,413 @@
+import { Router, Response } from 'express';
+import { AppDataSource } from '../config/database';
+import { Role } from '../entities/Role';
+import { User } from '../entities/User';
+import { AuditAction } from '../entities/AuditLog';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  PERMISSIONS,
+  Permission,
+  isPermission,
+  permissionService,
+} from '../services/permissions';
+import { auditLog, diffFields } from '../services/auditLog';
+import { managesUser } from '../utils/eventAccess';
+import { assignRoleSchema } from '../validation/roles';
+import logger from '../config/logger';
+
+const router = Router();
+
+// Helper function to format a role
+function formatRole(role: Role) {
+  return {
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    permissions: role.permissions,
+    isSystem: role.isSystem,
+    createdById: role.createdById,
+    createdAt: role.createdAt,
+    updatedAt: role.updatedAt,
+  };
+}
+
+// Helper function to validate a list of permissions; returns an error message or null
+function validatePermissions(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return 'permissions must be an array';
+  }
+  const unknown = value.filter((permission) => !isPermission(permission));
+  if (unknown.length > 0) {
+    return `Unknown permissions: ${unknown.join(', ')}`;
+  }
+  return null;
+}
+
+// Whether the user created the role; built-in roles belong to no one
+function ownsRole(role: Role, user: User): boolean {
+  return !role.isSystem && role.createdById === user.id;
+}
+
+// Permissions in the list that the user does not hold themselves
+async function permissionsBeyondUser(user: User, permissions: string[]): Promise<string[]> {
+  const granted = await permissionService.getPermissions(user);
+  return permissions.filter((permission) => !granted.has(permission as Permission));
+}
+
+// Get the current user's permissions
+router.get(
+  '/me',
+  authenticate,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const permissions = await permissionService.getPermissions(req.user!);
+
+      res.json({
+        message: 'Permissions retrieved successfully',
+        role: req.user!.role,
+        roleId: req.user!.roleId,
+        permissions: [...permissions].sort(),
+      });
+    } catch (error) {
+      logger.error('Get own permissions error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// List the built-in roles, the admin's own roles and the available permissions
+router.get(
+  '/',
+  authenticate,
+  requirePermission('role:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const roles = await AppDataSource.getRepository(Role).find({
+        where: [{ isSystem: true }, { createdById: req.user!.id }],
+        order: { isSystem: 'DESC', name: 'ASC' },
+      });
+
+      res.json({
+        message: 'Roles retrieved successfully',
+        roles: roles.map(formatRole),
+        permissions: Object.entries(PERMISSIONS).map(([name, description]) => ({
+          name,
+          description,
+        })),
+      });
+    } catch (error) {
+      logger.error('Get roles error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Create a custom role
+router.post(
+  '/',
+  authenticate,
+  requirePermission('role:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { name, description, permissions } = req.body;
+
+      if (!name || typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+        res.status(400).json({ message: 'Role name of up to 100 characters is required' });
+        return;
+      }
+
+      const permissionError = validatePermissions(permissions);
+      if (permissionError) {
+        res.status(400).json({ message: permissionError });
+        return;
+      }
+
+      // Roles cannot grant more than their creator holds
+      const beyond = await permissionsBeyondUser(req.user!, permissions);
+      if (beyond.length > 0) {
+        res.status(403).json({
+          message: 'You cannot grant permissions you do not have',
+          code: 'PERMISSION_DENIED',
+          missing: beyond,
+        });
+        return;
+      }
+
+      const roleRepository = AppDataSource.getRepository(Role);
+      const existing = await roleRepository.findOne({ where: { name: name.trim() } });
+      if (existing) {
+        res.status(409).json({ message: 'A role with this name already exists' });
+        return;
+      }
+
+      const role = await roleRepository.save(
+        roleRepository.create({
+          name: name.trim(),
+          description: typeof description === 'string' ? description.trim() || null : null,
+          permissions: [...new Set<string>(permissions)],
+          isSystem: false,
+          createdById: req.user!.id,
+        })
+      );
+
+      logger.info('Role created', { roleId: role.id, name: role.name, createdBy: req.user!.id });
+      auditLog.record(req, {
+        action: AuditAction.ROLE_CREATED,
+        target: { type: 'role', id: role.id },
+        metadata: { name: role.name, permissions: role.permissions },
+      });
+
+      res.status(201).json({
+        message: 'Role created successfully',
+        role: formatRole(role),
+      });
+    } catch (error) {
+      logger.error('Create role error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Update a role the admin created. Built-in roles are fixed.
+router.put(
+  '/:roleId',
+  authenticate,
+  requirePermission('role:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { roleId } = req.params;
+      const { name, description, permissions } = req.body;
+
+      const roleRepository = AppDataSource.getRepository(Role);
+      const role = await roleRepository.findOne({ where: { id: roleId } });
+
+      if (!role) {
+        res.status(404).json({ message: 'Role not found' });
+        return;
+      }
+
+      if (role.isSystem) {
+        res.status(409).json({ message: 'Built-in roles cannot be changed' });
+        return;
+      }
+
+      if (!ownsRole(role, req.user!)) {
+        res.status(403).json({ message: 'You can only change roles you created' });
+        return;
+      }
+
+      const before = { name: role.name, description: role.description, permissions: role.permissions };
+
+      if (name !== undefined) {
+        if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+          res.status(400).json({ message: 'Role name of up to 100 characters is required' });
+          return;
+        }
+        const existing = await roleRepository.findOne({ where: { name: name.trim() } });
+        if (existing && existing.id !== role.id) {
+          res.status(409).json({ message: 'A role with this name already exists' });
+          return;
+        }
+        role.name = name.trim();
+      }
+
+      if (permissions !== undefined) {
+        const permissionError = validatePermissions(permissions);
+        if (permissionError) {
+          res.status(400).json({ message: permissionError });
+          return;
+        }
+
+        const beyond = await permissionsBeyondUser(req.user!, permissions);
+        if (beyond.length > 0) {
+          res.status(403).json({
+            message: 'You cannot grant permissions you do not have',
+            code: 'PERMISSION_DENIED',
+            missing: beyond,
+          });
+          return;
+        }
+        role.permissions = [...new Set<string>(permissions)];
+      }
+
+      if (description !== undefined) {
+        role.description = typeof description === 'string' ? description.trim() || null : null;
+      }
+
+      await roleRepository.save(role);
+      permissionService.invalidate();
+
+      logger.info('Role updated', { roleId, updatedBy: req.user!.id });
+      auditLog.record(req, {
+        action: AuditAction.ROLE_UPDATED,
+        target: { type: 'role', id: role.id },
+        changes: diffFields(before, {
+          name: role.name,
+          description: role.description,
+          permissions: role.permissions,
+        }),
+      });
+
+      res.json({
+        message: 'Role updated successfully',
+        role: formatRole(role),
+      });
+    } catch (error) {
+      logger.error('Update role error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Delete a role the admin created that no user has
+router.delete(
+  '/:roleId',
+  authenticate,
+  requirePermission('role:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { roleId } = req.params;
+
+      const roleRepository = AppDataSource.getRepository(Role);
+      const role = await roleRepository.findOne({ where: { id: roleId } });
+
+      if (!role) {
+        res.status(404).json({ message: 'Role not found' });
+        return;
+      }
+
+      if (role.isSystem) {
+        res.status(409).json({ message: 'Built-in roles cannot be deleted' });
+        return;
+      }
+
+      if (!ownsRole(role, req.user!)) {
+        res.status(403).json({ message: 'You can only delete roles you created' });
+        return;
+      }
+
+      const users = await AppDataSource.getRepository(User).count({ where: { roleId } });
+      if (users > 0) {
+        res.status(409).json({
+          message: `Role is assigned to ${users} user(s)`,
+          code: 'ROLE_IN_USE',
+        });
+        return;
+      }
+
+      await roleRepository.remove(role);
+      permissionService.invalidate();
+
+      logger.info('Role deleted', { roleId, deletedBy: req.user!.id });
+      auditLog.record(req, {
+        action: AuditAction.ROLE_DELETED,
+        target: { type: 'role', id: roleId },
+        metadata: { name: role.name, permissions: role.permissions },
+      });
+
+      res.json({ message: 'Role deleted successfully' });
+    } catch (error) {
+      logger.error('Delete role error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Assign a custom role to a user, or send null to revert to their built-in role
+router.put(
+  '/users/:userId',
+  authenticate,
+  requirePermission('role:manage'),
+  validate(assignRoleSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const { roleId } = req.body;
+
+      const userRepository = AppDataSource.getRepository(User);
+      const user = await userRepository.findOne({ where: { id: userId } });
+
+      if (!user) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+
+      // Only the admin's own users, or users in units below theirs; never themselves
+      if (!(await managesUser(req.user!, user))) {
+        res.status(403).json({ message: 'Access denied to this user' });
+        return;
+      }
+
+      let role: Role | null = null;
+      if (roleId) {
+        role = await AppDataSource.getRepository(Role).findOne({ where: { id: roleId } });
+        if (!role) {
+          res.status(404).json({ message: 'Role not found' });
+          return;
+        }
+
+        if (!role.isSystem && !ownsRole(role, req.user!)) {
+          res.status(403).json({ message: 'You can only assign built-in roles or roles you created' });
+          return;
+        }
+
+        const beyond = await permissionsBeyondUser(req.user!, role.permissions);
+        if (beyond.length > 0) {
+          res.status(403).json({
+            message: 'You cannot grant permissions you do not have',
+            code: 'PERMISSION_DENIED',
+            missing: beyond,
+          });
+          return;
+        }
+      }
+
+      const changes = diffFields({ roleId: user.roleId }, { roleId: role ? role.id : null });
+      user.roleId = role ? role.id : null;
+      await userRepository.save(user);
+
+      logger.info('User role updated', { userId, roleId: user.roleId, updatedBy: req.user!.id });
+      auditLog.record(req, {
+        action: AuditAction.USER_ROLE_CHANGED,
+        target: { type: 'user', id: user.id },
+        changes,
+        metadata: { roleName: role ? role.name : null },
+      });
+
+      res.json({
+        message: role ? 'Role assigned successfully' : 'User reverted to their built-in role',
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          roleId: user.roleId,
+        },
+      });
+    } catch (error) {
+      logger.error('Assign role error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
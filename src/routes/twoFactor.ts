@@ -0,0 +1,258 @@
+import { Router, Response } from 'express';
+import { AuthRequest, authenticate, authenticateAccountSetup } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { twoFactorCodeSchema, twoFactorDisableSchema, twoFactorSetupSchema } from '../validation/auth';
+import { comparePassword } from '../utils/auth';
+import { AuditAction } from '../entities/AuditLog';
+import {
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  verifySecondFactor,
+} from '../services/twoFactor';
+import { auditLog } from '../services/auditLog';
+import {
+  LoginAttempt,
+  recordLoginFailure,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  reserveLoginAttempt,
+} from '../utils/loginAttempts';
+import logger from '../config/logger';
+
+const router = Router();
+
+// Get the user's two-factor status
+router.get('/', authenticateAccountSetup, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    res.json({
+      message: 'Two-factor status retrieved successfully',
+      enabled: isTwoFactorEnabled(user),
+      enabledAt: user.twoFactorEnabledAt,
+      required: await isTwoFactorRequired(user),
+      recoveryCodesLeft: isTwoFactorEnabled(user) ? (user.twoFactorRecoveryCodes || []).length : 0,
+    });
+  } catch (error) {
+    logger.error('Get two-factor status error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Start enrolment: returns the secret and a QR code for the authenticator app
+router.post('/setup', authenticateAccountSetup, validate(twoFactorSetupSchema), async (req: AuthRequest, res: Response): Promise<void> => {
+  let attempt: LoginAttempt | null = null;
+  try {
+    const { password } = req.body;
+    const user = req.user!;
+
+    // Password guesses count towards the account's login lockout
+    attempt = await reserveLoginAttempt(req, res, user.email);
+    if (!attempt) {
+      return;
+    }
+
+    if (!(await comparePassword(password, user.password))) {
+      await recordLoginFailure(req, attempt, 'wrong_password', user);
+      res.status(401).json({ message: 'Password is incorrect' });
+      return;
+    }
+
+    await recordLoginSuccess(req, attempt);
+
+    if (isTwoFactorEnabled(user)) {
+      res.status(409).json({
+        message: 'Two-factor authentication is already enabled',
+        code: 'TWO_FACTOR_ALREADY_ENABLED',
+      });
+      return;
+    }
+
+    const setup = await startTwoFactorSetup(user);
+
+    res.json({
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      secret: setup.secret,
+      otpauthUrl: setup.otpauthUrl,
+      qrCode: setup.qrCode,
+    });
+  } catch (error) {
+    if (attempt) {
+      await releaseLoginAttempt(req, attempt);
+    }
+    logger.error('Two-factor setup error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Finish enrolment with a code from the app; returns the recovery codes once
+router.post('/enable', authenticateAccountSetup, validate(twoFactorCodeSchema), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+    const user = req.user!;
+
+    if (isTwoFactorEnabled(user)) {
+      res.status(409).json({
+        message: 'Two-factor authentication is already enabled',
+        code: 'TWO_FACTOR_ALREADY_ENABLED',
+      });
+      return;
+    }
+
+    if (!user.twoFactorSecret) {
+      res.status(400).json({
+        message: 'Start two-factor setup first',
+        code: 'TWO_FACTOR_SETUP_NOT_STARTED',
+      });
+      return;
+    }
+
+    const recoveryCodes = await confirmTwoFactorSetup(user, code);
+
+    if (!recoveryCodes) {
+      res.status(400).json({ message: 'Invalid authentication code', code: 'INVALID_TWO_FACTOR_CODE' });
+      return;
+    }
+
+    logger.info('Two-factor authentication enabled', { userId: user.id });
+    auditLog.record(req, { action: AuditAction.TWO_FACTOR_ENABLED, target: { type: 'user', id: user.id } });
+
+    res.json({
+      message: 'Two-factor authentication enabled. Store the recovery codes somewhere safe; they are shown only once.',
+      recoveryCodes,
+    });
+  } catch (error) {
+    logger.error('Two-factor enable error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Replace the recovery codes (needs a current code from the app)
+router.post('/recovery-codes', authenticate, validate(twoFactorCodeSchema), async (req: AuthRequest, res: Response): Promise<void> => {
+  let attempt: LoginAttempt | null = null;
+  try {
+    const { code } = req.body;
+    const user = req.user!;
+
+    if (!isTwoFactorEnabled(user)) {
+      res.status(400).json({
+        message: 'Two-factor authentication is not enabled',
+        code: 'TWO_FACTOR_NOT_ENABLED',
+      });
+      return;
+    }
+
+    // Code guesses count towards the account's login lockout
+    attempt = await reserveLoginAttempt(req, res, user.email);
+    if (!attempt) {
+      return;
+    }
+
+    if (!(await verifySecondFactor(user.id, { code })).valid) {
+      await recordLoginFailure(req, attempt, 'wrong_two_factor_code', user);
+      res.status(401).json({ message: 'Invalid authentication code', code: 'INVALID_TWO_FACTOR_CODE' });
+      return;
+    }
+
+    await recordLoginSuccess(req, attempt);
+
+    const recoveryCodes = await regenerateRecoveryCodes(user);
+
+    logger.info('Two-factor recovery codes regenerated', { userId: user.id });
+    auditLog.record(req, {
+      action: AuditAction.RECOVERY_CODES_REGENERATED,
+      target: { type: 'user', id: user.id },
+    });
+
+    res.json({
+      message: 'Recovery codes regenerated. The previous codes no longer work.',
+      recoveryCodes,
+    });
+  } catch (error) {
+    if (attempt) {
+      await releaseLoginAttempt(req, attempt);
+    }
+    logger.error('Regenerate recovery codes error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Turn two-factor authentication off (password plus a code or recovery code)
+router.post('/disable', authenticate, validate(twoFactorDisableSchema), async (req: AuthRequest, res: Response): Promise<void> => {
+  let attempt: LoginAttempt | null = null;
+  try {
+    const { password, code, recoveryCode } = req.body;
+    const user = req.user!;
+
+    if (!isTwoFactorEnabled(user)) {
+      res.status(400).json({
+        message: 'Two-factor authentication is not enabled',
+        code: 'TWO_FACTOR_NOT_ENABLED',
+      });
+      return;
+    }
+
+    if (await isTwoFactorRequired(user)) {
+      res.status(403).json({
+        message: 'Your administrator requires two-factor authentication',
+        code: 'TWO_FACTOR_REQUIRED',
+      });
+      return;
+    }
+
+    // Password and code guesses count towards the account's login lockout
+    attempt = await reserveLoginAttempt(req, res, user.email);
+    if (!attempt) {
+      return;
+    }
+
+    if (!(await comparePassword(password, user.password))) {
+      await recordLoginFailure(req, attempt, 'wrong_password', user);
+      res.status(401).json({ message: 'Password is incorrect' });
+      return;
+    }
+
+    const result = await verifySecondFactor(user.id, { code, recoveryCode });
+    if (!result.valid) {
+      await recordLoginFailure(req, attempt, 'wrong_two_factor_code', user);
+      res.status(401).json({ message: 'Invalid authentication code', code: 'INVALID_TWO_FACTOR_CODE' });
+      return;
+    }
+
+    await recordLoginSuccess(req, attempt);
+
+    await disableTwoFactor(user);
+
+    logger.info('Two-factor authentication disabled', { userId: user.id });
+    auditLog.record(req, { action: AuditAction.TWO_FACTOR_DISABLED, target: { type: 'user', id: user.id } });
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    if (attempt) {
+      await releaseLoginAttempt(req, attempt);
+    }
+    logger.error('Two-factor disable error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,261 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest, requirePermission } from '../middleware/auth';
+import { AppDataSource } from '../config/database';
+import { VoterRegisterEntry } from '../entities/VoterRegisterEntry';
+import { AuditAction } from '../entities/AuditLog';
+import { voterCache } from '../services/voterCache';
+import { importVoterRegister, RegisterImportError } from '../services/voterRegister';
+import { auditLog } from '../services/auditLog';
+import logger from '../config/logger';
+
+const router = Router();
+
+// Get voter cache statistics (Admin only)
+router.get(
+  '/cache/stats',
+  authenticate,
+  requirePermission('voter:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const entries = await voterCache.countEntries();
+
+      res.json({
+        message: 'Voter cache statistics retrieved successfully',
+        stats: {
+          ...voterCache.getStats(),
+          entries,
+        },
+      });
+    } catch (error) {
+      logger.error('Get voter cache stats error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Inspect a cached voter record (Admin only)
+router.get(
+  '/cache/:idNumber',
+  authenticate,
+  requirePermission('voter:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { idNumber } = req.params;
+
+      const record = await voterCache.find(idNumber);
+
+      if (!record) {
+        res.status(404).json({ message: 'Voter not found in cache' });
+        return;
+      }
+
+      res.json({
+        message: 'Cached voter retrieved successfully',
+        voter: voterCache.toVoterInfo(record),
+        cache: {
+          fresh: voterCache.isFresh(record),
+          fetchedAt: record.fetchedAt,
+          expiresAt: record.expiresAt,
+          hitCount: record.hitCount,
+          lastHitAt: record.lastHitAt,
+        },
+      });
+    } catch (error) {
+      logger.error('Get cached voter error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Purge a single cached voter record (Admin only)
+router.delete(
+  '/cache/:idNumber',
+  authenticate,
+  requirePermission('voter:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { idNumber } = req.params;
+
+      const purged = await voterCache.purge(idNumber);
+
+      if (purged === 0) {
+        res.status(404).json({ message: 'Voter not found in cache' });
+        return;
+      }
+
+      logger.info('Cached voter purged', {
+        idNumber,
+        purgedBy: req.user!.id,
+      });
+      auditLog.record(req, {
+        action: AuditAction.VOTER_CACHE_PURGED,
+        target: { type: 'voter', id: idNumber },
+        metadata: { idNumber, purged },
+      });
+
+      res.json({ message: 'Cached voter purged successfully', purged });
+    } catch (error) {
+      logger.error('Purge cached voter error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Purge the voter cache, or only expired records with ?expired=true (Admin only)
+router.delete(
+  '/cache',
+  authenticate,
+  requirePermission('voter:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const expiredOnly = req.query.expired === 'true';
+
+      const purged = expiredOnly
+        ? await voterCache.purgeExpired()
+        : await voterCache.purge();
+
+      logger.info('Voter cache purged', {
+        expiredOnly,
+        purged,
+        purgedBy: req.user!.id,
+      });
+      auditLog.record(req, {
+        action: AuditAction.VOTER_CACHE_PURGED,
+        metadata: { expiredOnly, purged },
+      });
+
+      res.json({ message: 'Voter cache purged successfully', purged });
+    } catch (error) {
+      logger.error('Purge voter cache error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Import a voter register CSV into the admin's local register (Admin only)
+router.post(
+  '/register/import',
+  authenticate,
+  requirePermission('voter:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      if (!req.is('text/csv')) {
+        res.status(415).json({
+          message: 'Upload the register as a CSV body with Content-Type: text/csv',
+        });
+        return;
+      }
+
+      const summary = await importVoterRegister(req.user!.id, req);
+
+      logger.info('Voter register imported', {
+        adminId: req.user!.id,
+        totalRows: summary.totalRows,
+        imported: summary.imported,
+        failed: summary.failed,
+      });
+      auditLog.record(req, {
+        action: AuditAction.VOTER_REGISTER_IMPORTED,
+        target: { type: 'voter_register', id: req.user!.id },
+        metadata: { totalRows: summary.totalRows, imported: summary.imported, failed: summary.failed },
+      });
+
+      res.json({
+        message: summary.failed > 0
+          ? 'Voter register imported with errors'
+          : 'Voter register imported successfully',
+        summary,
+      });
+    } catch (error) {
+      if (error instanceof RegisterImportError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      logger.error('Import voter register error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Get a summary of the admin's local voter register (Admin only)
+router.get(
+  '/register',
+  authenticate,
+  requirePermission('voter:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const summary = await AppDataSource.getRepository(VoterRegisterEntry)
+        .createQueryBuilder('entry')
+        .select('COUNT(*)', 'total')
+        .addSelect('MAX(entry.updatedAt)', 'lastImportedAt')
+        .where('entry.adminId = :adminId', { adminId: req.user!.id })
+        .getRawOne<{ total: string; lastImportedAt: Date | null }>();
+
+      res.json({
+        message: 'Voter register retrieved successfully',
+        register: {
+          total: Number(summary?.total || 0),
+          lastImportedAt: summary?.lastImportedAt || null,
+        },
+      });
+    } catch (error) {
+      logger.error('Get voter register error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Clear the admin's local voter register (Admin only)
+router.delete(
+  '/register',
+  authenticate,
+  requirePermission('voter:manage'),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const result = await AppDataSource.getRepository(VoterRegisterEntry).delete({
+        adminId: req.user!.id,
+      });
+
+      logger.info('Voter register cleared', {
+        adminId: req.user!.id,
+        deleted: result.affected || 0,
+      });
+      auditLog.record(req, {
+        action: AuditAction.VOTER_REGISTER_CLEARED,
+        target: { type: 'voter_register', id: req.user!.id },
+        metadata: { deleted: result.affected || 0 },
+      });
+
+      res.json({
+        message: 'Voter register cleared successfully',
+        deleted: result.affected || 0,
+      });
+    } catch (error) {
+      logger.error('Clear voter register error:', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
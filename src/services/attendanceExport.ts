@@ -0,0 +1,283 @@
+import { Readable, Writable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import { stringify } from 'csv-stringify';
+import ExcelJS from 'exceljs';
+import { SelectQueryBuilder } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { CheckInLog } from '../entities/CheckInLog';
+import { Participant } from '../entities/Participant';
+import { User } from '../entities/User';
+import { AttendanceVisit } from '../entities/AttendanceVisit';
+import { DateRange, checkInDateCondition } from './reportRange';
+import { noShowsQuery } from './registrationReport';
+
+export type ExportFormat = 'csv' | 'xlsx';
+export type ExportReport = 'checkins' | 'participants' | 'no-shows';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx'];
+export const EXPORT_REPORTS: ExportReport[] = ['checkins', 'participants', 'no-shows'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  width: number;
+  type?: 'date' | 'datetime' | 'number';
+}
+
+const PARTICIPANT_COLUMNS: ExportColumn[] = [
+  { key: 'idNumber', header: 'ID Number', width: 14 },
+  { key: 'name', header: 'Name', width: 30 },
+  { key: 'dateOfBirth', header: 'Date of Birth', width: 14, type: 'date' },
+  { key: 'sex', header: 'Sex', width: 10 },
+  { key: 'county', header: 'County', width: 20 },
+  { key: 'constituency', header: 'Constituency', width: 20 },
+  { key: 'ward', header: 'Ward', width: 20 },
+  { key: 'pollingCenter', header: 'Polling Centre', width: 30 },
+];
+
+const REPORT_COLUMNS: Record<ExportReport, ExportColumn[]> = {
+  checkins: [
+    { key: 'checkInDate', header: 'Check-in Date', width: 14, type: 'date' },
+    { key: 'checkedInAt', header: 'Checked In At', width: 22, type: 'datetime' },
+    ...PARTICIPANT_COLUMNS,
+    { key: 'checkedInByName', header: 'Checked In By', width: 24 },
+    { key: 'checkedInByEmail', header: 'Checked In By Email', width: 28 },
+    { key: 'totalCheckIns', header: 'Total Check-ins', width: 14, type: 'number' },
+  ],
+  participants: [
+    ...PARTICIPANT_COLUMNS,
+    { key: 'totalCheckIns', header: 'Total Check-ins', width: 14, type: 'number' },
+    { key: 'firstCheckInAt', header: 'First Check-in', width: 22, type: 'datetime' },
+    { key: 'lastCheckInAt', header: 'Last Check-in', width: 22, type: 'datetime' },
+    { key: 'minutesOnSite', header: 'Time on Site (min)', width: 18, type: 'number' },
+    { key: 'checkedInBy', header: 'Checked In By', width: 40 },
+  ],
+  'no-shows': [
+    ...PARTICIPANT_COLUMNS,
+    { key: 'registeredAt', header: 'Registered At', width: 22, type: 'datetime' },
+  ],
+};
+
+const WORKSHEET_NAMES: Record<ExportReport, string> = {
+  checkins: 'Check-ins',
+  participants: 'Participants',
+  'no-shows': 'No-shows',
+};
+
+function selectParticipantColumns<T extends object>(
+  query: SelectQueryBuilder<T>
+): SelectQueryBuilder<T> {
+  return query
+    .addSelect('participant.idNumber', 'idNumber')
+    .addSelect('participant.name', 'name')
+    .addSelect('participant.dateOfBirth', 'dateOfBirth')
+    .addSelect('participant.sex', 'sex')
+    .addSelect('participant.county', 'county')
+    .addSelect('participant.constituency', 'constituency')
+    .addSelect('participant.ward', 'ward')
+    .addSelect('participant.pollingCenter', 'pollingCenter');
+}
+
+// One row per check-in, with who checked the participant in
+function checkInQuery(eventId: string, range: DateRange) {
+  const query = AppDataSource.getRepository(CheckInLog)
+    .createQueryBuilder('log')
+    .innerJoin('log.participant', 'participant')
+    .innerJoin('log.checkedInBy', 'checkedInBy')
+    .select('log.checkInDate', 'checkInDate')
+    .addSelect('log.checkedInAt', 'checkedInAt');
+
+  return selectParticipantColumns(query)
+    .addSelect('checkedInBy.name', 'checkedInByName')
+    .addSelect('checkedInBy.email', 'checkedInByEmail')
+    .addSelect(
+      (subQuery) =>
+        subQuery
+          .select('COUNT(*)')
+          .from(CheckInLog, 'total')
+          .where(
+            `total.participantId = participant.id AND total.voidedAt IS NULL${checkInDateCondition('total', range)}`
+          ),
+      'totalCheckIns'
+    )
+    .where(`log.eventId = :eventId AND log.voidedAt IS NULL${checkInDateCondition('log', range)}`)
+    .setParameters({ eventId, ...range })
+    .orderBy('log.checkedInAt', 'ASC');
+}
+
+// One row per participant, with check-in totals for the range
+function participantQuery(eventId: string, range: DateRange) {
+  const query = AppDataSource.getRepository(Participant)
+    .createQueryBuilder('participant')
+    .leftJoin(
+      CheckInLog,
+      'log',
+      `log.participantId = participant.id AND log.voidedAt IS NULL${checkInDateCondition('log', range)}`
+    )
+    .leftJoin(User, 'checkedInBy', 'checkedInBy.id = log.checkedInById')
+    .select('participant.id', 'id');
+
+  const grouped = selectParticipantColumns(query)
+    .addSelect('COUNT(DISTINCT log.id)', 'totalCheckIns')
+    .addSelect('MIN(log.checkedInAt)', 'firstCheckInAt')
+    .addSelect('MAX(log.checkedInAt)', 'lastCheckInAt')
+    .addSelect(
+      (subQuery) =>
+        subQuery
+          .select('ROUND(COALESCE(SUM(TIMESTAMPDIFF(SECOND, visit.enteredAt, visit.exitedAt)), 0) / 60)')
+          .from(AttendanceVisit, 'visit')
+          .innerJoin(CheckInLog, 'visitLog', 'visitLog.id = visit.checkInLogId')
+          .where(
+            `visit.participantId = participant.id AND visitLog.voidedAt IS NULL${checkInDateCondition('visitLog', range)}`
+          ),
+      'minutesOnSite'
+    )
+    .addSelect(
+      "GROUP_CONCAT(DISTINCT checkedInBy.name ORDER BY checkedInBy.name SEPARATOR ', ')",
+      'checkedInBy'
+    )
+    .where('participant.eventId = :eventId')
+    .setParameters({ eventId, ...range })
+    .groupBy('participant.id')
+    .orderBy('participant.name', 'ASC');
+
+  // With a date range, only list participants who attended within it
+  return range.from || range.to ? grouped.having('COUNT(log.id) > 0') : grouped;
+}
+
+// One row per pre-registered participant who did not attend within the range
+function noShowExportQuery(eventId: string, range: DateRange) {
+  const query = noShowsQuery(eventId, range).select('participant.id', 'id');
+
+  return selectParticipantColumns(query)
+    .addSelect('participant.registeredAt', 'registeredAt')
+    .orderBy('participant.name', 'ASC');
+}
+
+function formatDate(value: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
+
+function formatValue(column: ExportColumn, value: unknown): string | number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (column.type === 'number') {
+    return Number(value);
+  }
+  if (value instanceof Date) {
+    return column.type === 'date' ? formatDate(value) : value.toISOString();
+  }
+  return String(value);
+}
+
+function formatRow(columns: ExportColumn[], row: Record<string, unknown>) {
+  const formatted: Record<string, string | number | null> = {};
+  for (const column of columns) {
+    formatted[column.key] = formatValue(column, row[column.key]);
+  }
+  return formatted;
+}
+
+async function* formatRows(rows: AsyncIterable<Record<string, unknown>>, columns: ExportColumn[]) {
+  for await (const row of rows) {
+    yield formatRow(columns, row);
+  }
+}
+
+// Wait for the output to drain. Fails if the output is closed first (e.g. the
+// client aborted the download), so reading stops and the row stream is destroyed.
+function drained(output: Writable): Promise<void> {
+  if (output.destroyed) {
+    return Promise.reject(new Error('Output closed before the export finished'));
+  }
+  return new Promise((resolve, reject) => {
+    const settle = (error?: Error) => {
+      output.off('drain', onDrain);
+      output.off('close', onClose);
+      output.off('error', settle);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    const onDrain = () => settle();
+    const onClose = () => settle(new Error('Output closed before the export finished'));
+    output.once('drain', onDrain);
+    output.once('close', onClose);
+    output.once('error', settle);
+  });
+}
+
+/**
+ * Write rows to the output as CSV or XLSX, one at a time as they are read,
+ * waiting for the output to drain so large exports are never held in memory.
+ * If the output closes early the rows are no longer read: the row stream is
+ * destroyed (releasing its database connection) and the returned promise rejects.
+ */
+export async function streamRows(
+  rows: AsyncIterable<Record<string, unknown>>,
+  columns: ExportColumn[],
+  worksheetName: string,
+  format: ExportFormat,
+  output: Writable
+): Promise<void> {
+  if (format === 'csv') {
+    const stringifier = stringify({
+      header: true,
+      columns: columns.map(({ key, header }) => ({ key, header })),
+    });
+    await pipeline(Readable.from(formatRows(rows, columns)), stringifier, output);
+    return;
+  }
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: false,
+    useSharedStrings: false,
+  });
+  const worksheet = workbook.addWorksheet(worksheetName);
+  worksheet.columns = columns.map(({ key, header, width }) => ({ key, header, width }));
+
+  for await (const row of formatRows(rows, columns)) {
+    worksheet.addRow(row).commit();
+    if (output.writableNeedDrain || output.destroyed) {
+      await drained(output);
+    }
+  }
+
+  worksheet.commit();
+  // The workbook ends the output; finished() fails if the output closed first
+  await Promise.all([workbook.commit(), finished(output)]);
+}
+
+/**
+ * Stream an attendance report for an event to the output as CSV or XLSX.
+ * Voided check-ins are left out.
+ * Rows are read from the database with a cursor and written one at a time,
+ * so the report is never held in memory.
+ */
+export async function streamAttendanceExport(
+  eventId: string,
+  report: ExportReport,
+  format: ExportFormat,
+  range: DateRange,
+  output: Writable
+): Promise<void> {
+  const queries: Record<ExportReport, () => SelectQueryBuilder<object>> = {
+    checkins: () => checkInQuery(eventId, range),
+    participants: () => participantQuery(eventId, range),
+    'no-shows': () => noShowExportQuery(eventId, range),
+  };
+  const query = queries[report]();
+  const rows = (await query.stream()) as AsyncIterable<Record<string, unknown>>;
+
+  await streamRows(rows, REPORT_COLUMNS[report], WORKSHEET_NAMES[report], format, output);
+}
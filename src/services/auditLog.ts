@@ -0,0 +1,245 @@
+import { Request } from 'express';
+import { Writable } from 'stream';
+import { Brackets, SelectQueryBuilder } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import logger from '../config/logger';
+import { AuditAction, AuditLog, AuditOutcome } from '../entities/AuditLog';
+import { FieldChange } from '../entities/EventHistory';
+import { User } from '../entities/User';
+import { AuthRequest } from '../middleware/auth';
+import { findUserUnit } from '../utils/eventAccess';
+import { ExportColumn, ExportFormat, streamRows } from './attendanceExport';
+import { DateRange } from './reportRange';
+
+export type AuditTargetType =
+  | 'user'
+  | 'invitation'
+  | 'session'
+  | 'role'
+  | 'organisation_unit'
+  | 'event'
+  | 'check_in'
+  | 'voter'
+  | 'voter_register';
+
+export interface AuditEntry {
+  action: AuditAction;
+  outcome?: AuditOutcome;
+  // Defaults to the authenticated user of the request
+  actor?: Pick<User, 'id' | 'email'> | null;
+  // Email tried when there is no known actor (failed logins)
+  actorEmail?: string | null;
+  target?: { type: AuditTargetType; id: string } | null;
+  eventId?: string | null;
+  changes?: Record<string, FieldChange> | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+export interface AuditLogFilters {
+  actions?: AuditAction[];
+  outcome?: AuditOutcome;
+  actorId?: string;
+  actorEmail?: string;
+  targetType?: string;
+  targetId?: string;
+  eventId?: string;
+  ipAddress?: string;
+  range: DateRange; // createdAt, inclusive days
+}
+
+export interface AuditLogPage {
+  entries: AuditLog[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'createdAt', header: 'Time', width: 22, type: 'datetime' },
+  { key: 'action', header: 'Action', width: 30 },
+  { key: 'outcome', header: 'Outcome', width: 10 },
+  { key: 'actorId', header: 'Actor ID', width: 38 },
+  { key: 'actorEmail', header: 'Actor Email', width: 28 },
+  { key: 'ipAddress', header: 'IP Address', width: 18 },
+  { key: 'userAgent', header: 'User Agent', width: 40 },
+  { key: 'targetType', header: 'Target Type', width: 16 },
+  { key: 'targetId', header: 'Target ID', width: 38 },
+  { key: 'eventId', header: 'Event ID', width: 38 },
+  { key: 'changes', header: 'Changes', width: 50 },
+  { key: 'metadata', header: 'Details', width: 50 },
+];
+
+// Build the changes of fields whose value differs between two snapshots
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  for (const field of Object.keys(after)) {
+    const from = before[field] === undefined ? null : before[field];
+    const to = after[field] === undefined ? null : after[field];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// JSON columns are written to exports as JSON text
+async function* exportRows(
+  rows: AsyncIterable<Record<string, unknown>>
+): AsyncIterable<Record<string, unknown>> {
+  for await (const row of rows) {
+    for (const key of ['changes', 'metadata']) {
+      const value = row[key];
+      if (value !== null && value !== undefined && typeof value !== 'string') {
+        row[key] = JSON.stringify(value);
+      }
+    }
+    yield row;
+  }
+}
+
+class AuditLogService {
+  /**
+   * Persist an audit entry for a request. Not awaited by callers: failures
+   * are logged and never affect the action being audited.
+   */
+  record(req: Request, entry: AuditEntry): void {
+    const actor = entry.actor !== undefined ? entry.actor : (req as AuthRequest).user || null;
+
+    const log = AppDataSource.getRepository(AuditLog).create({
+      action: entry.action,
+      outcome: entry.outcome || AuditOutcome.SUCCESS,
+      actorId: actor?.id || null,
+      actorEmail: (actor?.email || entry.actorEmail)?.slice(0, 255) || null,
+      ipAddress: req.ip?.slice(0, 45) || null,
+      userAgent: req.get('user-agent')?.slice(0, 500) || null,
+      targetType: entry.target?.type || null,
+      targetId: entry.target?.id || null,
+      eventId: entry.eventId || null,
+      changes: entry.changes && Object.keys(entry.changes).length > 0 ? entry.changes : null,
+      metadata: entry.metadata || null,
+    });
+
+    AppDataSource.getRepository(AuditLog)
+      .save(log)
+      .catch((error) => {
+        logger.error('Failed to write audit log entry:', {
+          error: error instanceof Error ? error.message : String(error),
+          action: entry.action,
+          actorId: log.actorId,
+          targetId: log.targetId,
+        });
+      });
+  }
+
+  /**
+   * Entries the viewer may see: actions by or on themselves and the users they
+   * manage (their own users and users within their organisation unit), and
+   * actions on events they created or that belong to their unit. Entries of
+   * other admins' users and events are never returned.
+   */
+  private async scopedQuery(viewer: User): Promise<SelectQueryBuilder<AuditLog>> {
+    const unit = await findUserUnit(viewer);
+    const unitCondition = (alias: string) => (unit ? ` OR ${alias}.path LIKE :unitPath` : '');
+
+    const managedUsers =
+      'SELECT managed.id FROM users managed ' +
+      'LEFT JOIN organisation_units managedUnit ON managedUnit.id = managed.organisationUnitId ' +
+      `WHERE managed.id = :viewerId OR managed.adminId = :viewerId${unitCondition('managedUnit')}`;
+    const scopedEvents =
+      'SELECT scopedEvent.eventId FROM events scopedEvent ' +
+      'LEFT JOIN organisation_units eventUnit ON eventUnit.id = scopedEvent.organisationUnitId ' +
+      `WHERE scopedEvent.createdById = :viewerId${unitCondition('eventUnit')}`;
+
+    return AppDataSource.getRepository(AuditLog)
+      .createQueryBuilder('audit')
+      .where(
+        new Brackets((qb) => {
+          qb.orWhere(`audit.actorId IN (${managedUsers})`);
+          qb.orWhere(`audit.targetType = 'user' AND audit.targetId IN (${managedUsers})`);
+          qb.orWhere(`audit.eventId IN (${scopedEvents})`);
+        })
+      )
+      .setParameters({ viewerId: viewer.id, ...(unit ? { unitPath: `${unit.path}%` } : {}) });
+  }
+
+  private async filteredQuery(
+    filters: AuditLogFilters,
+    viewer: User
+  ): Promise<SelectQueryBuilder<AuditLog>> {
+    const query = await this.scopedQuery(viewer);
+
+    if (filters.actions && filters.actions.length > 0) {
+      query.andWhere('audit.action IN (:...actions)', { actions: filters.actions });
+    }
+    if (filters.outcome) {
+      query.andWhere('audit.outcome = :outcome', { outcome: filters.outcome });
+    }
+    if (filters.actorId) {
+      query.andWhere('audit.actorId = :actorId', { actorId: filters.actorId });
+    }
+    if (filters.actorEmail) {
+      query.andWhere('audit.actorEmail = :actorEmail', {
+        actorEmail: filters.actorEmail,
+      });
+    }
+    if (filters.targetType) {
+      query.andWhere('audit.targetType = :targetType', { targetType: filters.targetType });
+    }
+    if (filters.targetId) {
+      query.andWhere('audit.targetId = :targetId', { targetId: filters.targetId });
+    }
+    if (filters.eventId) {
+      query.andWhere('audit.eventId = :eventId', { eventId: filters.eventId });
+    }
+    if (filters.ipAddress) {
+      query.andWhere('audit.ipAddress = :ipAddress', { ipAddress: filters.ipAddress });
+    }
+    if (filters.range.from) {
+      query.andWhere('audit.createdAt >= :from', { from: filters.range.from });
+    }
+    if (filters.range.to) {
+      query.andWhere('audit.createdAt < DATE_ADD(:to, INTERVAL 1 DAY)', { to: filters.range.to });
+    }
+
+    return query;
+  }
+
+  // Matching entries the viewer may see, newest first
+  async search(
+    filters: AuditLogFilters,
+    paging: { limit: number; offset: number },
+    viewer: User
+  ): Promise<AuditLogPage> {
+    const [entries, total] = await (await this.filteredQuery(filters, viewer))
+      .orderBy('audit.createdAt', 'DESC')
+      .addOrderBy('audit.id', 'DESC')
+      .skip(paging.offset)
+      .take(paging.limit)
+      .getManyAndCount();
+
+    return { entries, total, limit: paging.limit, offset: paging.offset };
+  }
+
+  // Stream all matching entries the viewer may see, oldest first, as CSV or XLSX
+  async streamExport(
+    filters: AuditLogFilters,
+    format: ExportFormat,
+    output: Writable,
+    viewer: User
+  ): Promise<void> {
+    const query = (await this.filteredQuery(filters, viewer)).select('audit.id', 'id');
+    for (const { key } of EXPORT_COLUMNS) {
+      query.addSelect(`audit.${key}`, key);
+    }
+    query.orderBy('audit.createdAt', 'ASC').addOrderBy('audit.id', 'ASC');
+
+    const rows = (await query.stream()) as AsyncIterable<Record<string, unknown>>;
+
+    await streamRows(exportRows(rows), EXPORT_COLUMNS, 'Audit log', format, output);
+  }
+}
+
+export const auditLog = new AuditLogService();
@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import QRCode from 'qrcode';
+import PDFDocument from 'pdfkit';
+import { AppDataSource } from '../config/database';
+import { env } from '../config/env';
+import { Event } from '../entities/Event';
+import { Participant } from '../entities/Participant';
+
+export type BadgeImageFormat = 'png' | 'svg';
+
+export const BADGE_IMAGE_FORMATS: BadgeImageFormat[] = ['png', 'svg'];
+
+export interface BadgeSheetFilters {
+  ward?: string;
+  pollingCenter?: string;
+}
+
+// Signature length in bytes; 128 bits keeps the QR code small and readable
+const SIGNATURE_BYTES = 16;
+
+// Participants loaded per query while rendering a badge sheet
+const SHEET_BATCH_SIZE = 200;
+
+// A4 sheet of 2 x 4 badges, in PDF points
+const PAGE_MARGIN = 36;
+const BADGE_COLUMNS = 2;
+const BADGE_ROWS = 4;
+const BADGE_GAP = 12;
+const QR_SIZE = 110;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function sign(participantId: string, eventId: string): string {
+  return crypto
+    .createHmac('sha256', env.BADGE_TOKEN_SECRET)
+    .update(`badge:${eventId}:${participantId}`)
+    .digest()
+    .subarray(0, SIGNATURE_BYTES)
+    .toString('base64url');
+}
+
+/**
+ * Token encoded in a participant's QR badge: the participant id and an HMAC
+ * over the participant and event, so badges cannot be forged or reused for
+ * another event.
+ */
+export function createBadgeToken(participant: Pick<Participant, 'id' | 'eventId'>): string {
+  return `${participant.id}.${sign(participant.id, participant.eventId)}`;
+}
+
+/**
+ * Resolve a scanned badge token to its participant. Returns null when the
+ * token is malformed, the participant no longer exists or the signature
+ * does not match.
+ */
+export async function resolveBadgeToken(token: string): Promise<Participant | null> {
+  const [participantId, signature, ...rest] = token.trim().split('.');
+  if (rest.length > 0 || !signature || !UUID_PATTERN.test(participantId)) {
+    return null;
+  }
+
+  const participant = await AppDataSource.getRepository(Participant).findOne({
+    where: { id: participantId },
+  });
+  if (!participant) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(participant.id, participant.eventId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return participant;
+}
+
+// QR code image for a participant's badge
+export async function renderBadgeQr(
+  participant: Participant,
+  format: BadgeImageFormat
+): Promise<Buffer | string> {
+  const token = createBadgeToken(participant);
+  if (format === 'svg') {
+    return QRCode.toString(token, { type: 'svg', errorCorrectionLevel: 'M', margin: 1 });
+  }
+  return QRCode.toBuffer(token, { type: 'png', errorCorrectionLevel: 'M', margin: 1, width: 300 });
+}
+
+function drawBadge(
+  doc: PDFKit.PDFDocument,
+  event: Event,
+  participant: Participant,
+  qr: Buffer,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const padding = 10;
+  const textX = x + padding + QR_SIZE + padding;
+  const textWidth = width - QR_SIZE - padding * 3;
+
+  doc.roundedRect(x, y, width, height, 6).lineWidth(0.5).stroke('#999999');
+  doc.image(qr, x + padding, y + (height - QR_SIZE) / 2, { width: QR_SIZE });
+
+  doc
+    .fillColor('#555555')
+    .font('Helvetica')
+    .fontSize(8)
+    .text(event.eventName, textX, y + padding, { width: textWidth, height: 30, ellipsis: true });
+  doc
+    .fillColor('#000000')
+    .font('Helvetica-Bold')
+    .fontSize(13)
+    .text(participant.name, textX, y + 48, { width: textWidth, height: 50, ellipsis: true });
+  doc
+    .font('Helvetica')
+    .fontSize(9)
+    .text(`ID: ${participant.idNumber}`, textX, y + 102, { width: textWidth });
+
+  const location = [participant.ward, participant.pollingCenter].filter(Boolean).join(' / ');
+  if (location) {
+    doc
+      .fillColor('#555555')
+      .fontSize(7)
+      .text(location, textX, y + 118, { width: textWidth, height: 40, ellipsis: true });
+  }
+}
+
+/**
+ * Stream a printable A4 PDF of QR badges for an event's participants,
+ * sorted by name. Participants are loaded in batches so large events are
+ * never held in memory at once.
+ */
+export async function streamBadgeSheet(
+  event: Event,
+  filters: BadgeSheetFilters,
+  output: Writable
+): Promise<void> {
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, autoFirstPage: false });
+  doc.pipe(output);
+
+  const where: Record<string, string> = { eventId: event.eventId };
+  if (filters.ward) {
+    where.ward = filters.ward;
+  }
+  if (filters.pollingCenter) {
+    where.pollingCenter = filters.pollingCenter;
+  }
+
+  const perPage = BADGE_COLUMNS * BADGE_ROWS;
+  let index = 0;
+
+  for (let skip = 0; ; skip += SHEET_BATCH_SIZE) {
+    const participants = await AppDataSource.getRepository(Participant).find({
+      where,
+      order: { name: 'ASC', id: 'ASC' },
+      skip,
+      take: SHEET_BATCH_SIZE,
+    });
+
+    for (const participant of participants) {
+      if (index % perPage === 0) {
+        doc.addPage();
+      }
+
+      const usableWidth = doc.page.width - PAGE_MARGIN * 2;
+      const usableHeight = doc.page.height - PAGE_MARGIN * 2;
+      const width = (usableWidth - BADGE_GAP * (BADGE_COLUMNS - 1)) / BADGE_COLUMNS;
+      const height = (usableHeight - BADGE_GAP * (BADGE_ROWS - 1)) / BADGE_ROWS;
+      const slot = index % perPage;
+      const x = PAGE_MARGIN + (slot % BADGE_COLUMNS) * (width + BADGE_GAP);
+      const y = PAGE_MARGIN + Math.floor(slot / BADGE_COLUMNS) * (height + BADGE_GAP);
+
+      const qr = (await renderBadgeQr(participant, 'png')) as Buffer;
+      drawBadge(doc, event, participant, qr, x, y, width, height);
+      index++;
+    }
+
+    if (participants.length < SHEET_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  if (index === 0) {
+    doc.addPage();
+    doc.font('Helvetica').fontSize(12).text('No participants to print.');
+  }
+
+  doc.end();
+  await finished(output);
+}
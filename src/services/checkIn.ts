@@ -0,0 +1,314 @@
+import { EntityManager, IsNull, QueryFailedError } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Event } from '../entities/Event';
+import { Participant, ParticipantStatus } from '../entities/Participant';
+import { CheckInLog } from '../entities/CheckInLog';
+import { AttendanceVisit } from '../entities/AttendanceVisit';
+import { checkInFeed } from './checkInFeed';
+
+export interface ParticipantDetails {
+  idNumber: string;
+  name: string;
+  dateOfBirth: string | Date;
+  sex: string;
+  county?: string | null;
+  constituency?: string | null;
+  ward?: string | null;
+  pollingCenter?: string | null;
+}
+
+export interface CheckInOptions {
+  event: Event;
+  checkedInById: string;
+  details: ParticipantDetails;
+  checkedInAt?: Date;
+  idempotencyKey?: string | null;
+  allowReentry?: boolean; // Open a new visit if the participant checked out earlier today
+}
+
+export type CheckInResult =
+  | { status: 'checked_in'; checkIn: CheckInLog; participant: Participant; visit: AttendanceVisit }
+  | { status: 're_entered'; checkIn: CheckInLog; participant: Participant; visit: AttendanceVisit }
+  | { status: 'already_checked_in'; checkIn: CheckInLog; participant: Participant }
+  | { status: 'replayed'; checkIn: CheckInLog }
+  | { status: 'key_reused'; checkIn: CheckInLog }; // Key already used by this user at another event
+
+export interface CheckOutOptions {
+  event: Event;
+  idNumber: string;
+  checkedOutById: string;
+  checkedOutAt?: Date;
+}
+
+export type CheckOutResult =
+  | { status: 'checked_out'; checkIn: CheckInLog; participant: Participant; visit: AttendanceVisit }
+  | { status: 'not_checked_in' }
+  | { status: 'already_checked_out'; checkIn: CheckInLog; participant: Participant };
+
+// Date-only value used for the per-day uniqueness of check-ins (server local time)
+export function toCheckInDate(at: Date): Date {
+  const date = new Date(at);
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+function isDuplicateEntryError(error: unknown): boolean {
+  return (
+    error instanceof QueryFailedError &&
+    (error.driverError as { code?: string }).code === 'ER_DUP_ENTRY'
+  );
+}
+
+// Find or create the participant for the event, refreshing their details
+async function upsertParticipant(
+  manager: EntityManager,
+  eventId: string,
+  details: ParticipantDetails
+): Promise<Participant> {
+  let participant = await manager.findOne(Participant, {
+    where: { eventId, idNumber: details.idNumber },
+  });
+
+  if (!participant) {
+    participant = manager.create(Participant, { eventId, idNumber: details.idNumber });
+  }
+
+  participant.name = details.name;
+  participant.dateOfBirth = new Date(details.dateOfBirth);
+  participant.sex = details.sex;
+  participant.county = details.county || null;
+  participant.constituency = details.constituency || null;
+  participant.ward = details.ward || null;
+  participant.pollingCenter = details.pollingCenter || null;
+  // Pre-registered participants become attendees on arrival
+  participant.status = ParticipantStatus.ATTENDED;
+
+  return manager.save(participant);
+}
+
+// Active check-in log of a participant for the day, locked for visit changes
+function findLockedSameDay(
+  manager: EntityManager,
+  participantId: string,
+  eventId: string,
+  checkInDate: Date
+): Promise<CheckInLog | null> {
+  return manager.findOne(CheckInLog, {
+    where: { participantId, eventId, checkInDate, voidedAt: IsNull() },
+    lock: { mode: 'pessimistic_write' },
+  });
+}
+
+function openVisit(
+  manager: EntityManager,
+  checkIn: CheckInLog,
+  enteredById: string,
+  enteredAt: Date
+): Promise<AttendanceVisit> {
+  return manager.save(
+    manager.create(AttendanceVisit, {
+      checkInLogId: checkIn.id,
+      participantId: checkIn.participantId,
+      eventId: checkIn.eventId,
+      enteredAt,
+      enteredById,
+      exitedAt: null,
+      exitedById: null,
+    })
+  );
+}
+
+/**
+ * Record a check-in for a participant, creating or updating the participant
+ * record in the same transaction. A participant can only be checked in once
+ * per event per day (voided check-ins do not count); when an idempotency key
+ * is given, replays of the same key by the same user return the originally
+ * created check-in, as long as it belongs to the same event.
+ */
+export async function recordCheckIn(options: CheckInOptions): Promise<CheckInResult> {
+  const { event, checkedInById, details, idempotencyKey } = options;
+  const checkedInAt = options.checkedInAt || new Date();
+  const checkInDate = toCheckInDate(checkedInAt);
+
+  // Check-in this user already recorded with the key, if any
+  const findReplay = async (manager: EntityManager): Promise<CheckInResult | null> => {
+    if (!idempotencyKey) {
+      return null;
+    }
+    const replayed = await manager.findOne(CheckInLog, {
+      where: { checkedInById, idempotencyKey },
+    });
+    if (!replayed) {
+      return null;
+    }
+    return replayed.eventId === event.eventId
+      ? { status: 'replayed' as const, checkIn: replayed }
+      : { status: 'key_reused' as const, checkIn: replayed };
+  };
+
+  const result = await AppDataSource.transaction(async (manager): Promise<CheckInResult> => {
+    const replay = await findReplay(manager);
+    if (replay) {
+      return replay;
+    }
+
+    const participant = await upsertParticipant(manager, event.eventId, details);
+
+    const findSameDay = () =>
+      manager.findOne(CheckInLog, {
+        where: {
+          participantId: participant.id,
+          eventId: event.eventId,
+          checkInDate,
+          voidedAt: IsNull(),
+        },
+      });
+
+    const existing = await findSameDay();
+    if (existing) {
+      if (options.allowReentry) {
+        const locked = await findLockedSameDay(manager, participant.id, event.eventId, checkInDate);
+        const visits = locked
+          ? await manager.find(AttendanceVisit, { where: { checkInLogId: locked.id } })
+          : [];
+        // Logs recorded before visits were tracked have no visits and count as on site
+        if (locked && visits.length > 0 && visits.every((visit) => visit.exitedAt)) {
+          const visit = await openVisit(manager, locked, checkedInById, checkedInAt);
+          return { status: 're_entered' as const, checkIn: locked, participant, visit };
+        }
+      }
+      return { status: 'already_checked_in' as const, checkIn: existing, participant };
+    }
+
+    try {
+      const checkIn = await manager.save(
+        manager.create(CheckInLog, {
+          participantId: participant.id,
+          eventId: event.eventId,
+          checkedInById,
+          checkInDate,
+          checkedInAt,
+          idempotencyKey: idempotencyKey || null,
+        })
+      );
+      const visit = await openVisit(manager, checkIn, checkedInById, checkedInAt);
+      return { status: 'checked_in' as const, checkIn, participant, visit };
+    } catch (error) {
+      // Another desk won the race for the unique index
+      if (!isDuplicateEntryError(error)) {
+        throw error;
+      }
+      const replay = await findReplay(manager);
+      if (replay) {
+        return replay;
+      }
+      const conflicting = await findSameDay();
+      if (!conflicting) {
+        throw error;
+      }
+      return { status: 'already_checked_in' as const, checkIn: conflicting, participant };
+    }
+  });
+
+  // Push new check-ins to live feeds once committed
+  if (result.status === 'checked_in') {
+    void checkInFeed.publish(result.checkIn);
+  }
+
+  return result;
+}
+
+/**
+ * Record that a participant left the event, closing their open visit for the
+ * day. They can later re-enter through a normal check-in, which opens a new
+ * visit on the same day's check-in log.
+ */
+export async function recordCheckOut(options: CheckOutOptions): Promise<CheckOutResult> {
+  const { event, idNumber, checkedOutById } = options;
+  const checkedOutAt = options.checkedOutAt || new Date();
+
+  return AppDataSource.transaction(async (manager) => {
+    const participant = await manager.findOne(Participant, {
+      where: { eventId: event.eventId, idNumber },
+    });
+    if (!participant) {
+      return { status: 'not_checked_in' as const };
+    }
+
+    const checkIn = await findLockedSameDay(
+      manager,
+      participant.id,
+      event.eventId,
+      toCheckInDate(checkedOutAt)
+    );
+    if (!checkIn) {
+      return { status: 'not_checked_in' as const };
+    }
+
+    const visits = await manager.find(AttendanceVisit, {
+      where: { checkInLogId: checkIn.id },
+      order: { enteredAt: 'DESC' },
+    });
+
+    let visit = visits.find((candidate) => !candidate.exitedAt);
+    if (!visit) {
+      if (visits.length > 0) {
+        return { status: 'already_checked_out' as const, checkIn, participant };
+      }
+      // Check-in recorded before visits were tracked: its visit starts at arrival
+      visit = manager.create(AttendanceVisit, {
+        checkInLogId: checkIn.id,
+        participantId: participant.id,
+        eventId: event.eventId,
+        enteredAt: checkIn.checkedInAt,
+        enteredById: checkIn.checkedInById,
+      });
+    }
+
+    visit.exitedAt = checkedOutAt;
+    visit.exitedById = checkedOutById;
+    visit = await manager.save(visit);
+
+    return { status: 'checked_out' as const, checkIn, participant, visit };
+  });
+}
+
+/**
+ * Void a check-in made in error. The record is kept for audit with who voided
+ * it, when and why, but no longer counts towards reports or the once-per-day
+ * rule, so the participant can be checked in again.
+ */
+export async function voidCheckIn(
+  checkIn: CheckInLog,
+  voidedById: string,
+  reason: string
+): Promise<CheckInLog> {
+  checkIn.active = null;
+  checkIn.voidedAt = new Date();
+  checkIn.voidedById = voidedById;
+  checkIn.voidReason = reason;
+
+  const voided = await AppDataSource.transaction(async (manager) => {
+    const saved = await manager.save(checkIn);
+
+    // A pre-registered participant whose only check-in was voided has not arrived
+    const participant = await manager.findOne(Participant, {
+      where: { id: checkIn.participantId },
+    });
+    if (participant?.registeredAt && participant.status === ParticipantStatus.ATTENDED) {
+      const remaining = await manager.count(CheckInLog, {
+        where: { participantId: participant.id, voidedAt: IsNull() },
+      });
+      if (remaining === 0) {
+        participant.status = ParticipantStatus.REGISTERED;
+        await manager.save(participant);
+      }
+    }
+
+    return saved;
+  });
+
+  void checkInFeed.publishVoid(voided);
+
+  return voided;
+}
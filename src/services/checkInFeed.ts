@@ -0,0 +1,193 @@
+import { Response } from 'express';
+import { IsNull } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import logger from '../config/logger';
+import { CheckInLog } from '../entities/CheckInLog';
+import { toCheckInDate } from './checkIn';
+
+// Maximum check-ins replayed to a reconnecting client
+const MAX_REPLAY = 500;
+
+// Keep-alive comment interval, below common proxy idle timeouts
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+export interface CheckInTotals {
+  totalCheckIns: number;
+  uniqueAttendees: number;
+  checkInsToday: number;
+}
+
+class CheckInFeedService {
+  private subscribers = new Map<string, Set<Response>>();
+
+  private async getTotals(eventId: string): Promise<CheckInTotals> {
+    const repository = AppDataSource.getRepository(CheckInLog);
+    const [totals, checkInsToday] = await Promise.all([
+      repository
+        .createQueryBuilder('log')
+        .select('COUNT(log.id)', 'totalCheckIns')
+        .addSelect('COUNT(DISTINCT log.participantId)', 'uniqueAttendees')
+        .where('log.eventId = :eventId AND log.voidedAt IS NULL', { eventId })
+        .getRawOne(),
+      repository.count({
+        where: { eventId, checkInDate: toCheckInDate(new Date()), voidedAt: IsNull() },
+      }),
+    ]);
+
+    return {
+      totalCheckIns: Number(totals?.totalCheckIns || 0),
+      uniqueAttendees: Number(totals?.uniqueAttendees || 0),
+      checkInsToday,
+    };
+  }
+
+  private format(log: CheckInLog, totals: CheckInTotals) {
+    return {
+      checkIn: {
+        id: log.id,
+        checkInDate: log.checkInDate,
+        checkedInAt: log.checkedInAt,
+      },
+      participant: {
+        id: log.participant.id,
+        idNumber: log.participant.idNumber,
+        name: log.participant.name,
+        ward: log.participant.ward,
+        pollingCenter: log.participant.pollingCenter,
+      },
+      checkedInBy: {
+        id: log.checkedInBy.id,
+        name: log.checkedInBy.name,
+      },
+      totals,
+    };
+  }
+
+  private send(res: Response, event: string, data: unknown, id?: string): void {
+    if (id) {
+      res.write(`id: ${id}\n`);
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  // Check-ins of the event created after the given one, oldest first
+  private async findSince(eventId: string, lastEventId: string): Promise<CheckInLog[]> {
+    return AppDataSource.getRepository(CheckInLog)
+      .createQueryBuilder('log')
+      .innerJoinAndSelect('log.participant', 'participant')
+      .innerJoinAndSelect('log.checkedInBy', 'checkedInBy')
+      .where('log.eventId = :eventId AND log.voidedAt IS NULL', { eventId })
+      .andWhere(
+        '(log.createdAt, log.id) > (SELECT last_log.createdAt, last_log.id FROM check_in_logs last_log WHERE last_log.id = :lastEventId)',
+        { lastEventId }
+      )
+      .orderBy('log.createdAt', 'ASC')
+      .addOrderBy('log.id', 'ASC')
+      .take(MAX_REPLAY)
+      .getMany();
+  }
+
+  /**
+   * Attach an HTTP response as a Server-Sent Events stream for an event.
+   * Sends current totals, replays check-ins missed since lastEventId (after a
+   * reconnect), then pushes every new check-in until the client disconnects.
+   */
+  async subscribe(eventId: string, res: Response, lastEventId?: string): Promise<void> {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+    });
+    res.write('retry: 5000\n\n');
+
+    // Register before replaying so nothing created meanwhile is missed
+    const subscribers = this.subscribers.get(eventId) || new Set<Response>();
+    subscribers.add(res);
+    this.subscribers.set(eventId, subscribers);
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      subscribers.delete(res);
+      if (subscribers.size === 0) {
+        this.subscribers.delete(eventId);
+      }
+    });
+
+    const totals = await this.getTotals(eventId);
+    if (lastEventId) {
+      const missed = await this.findSince(eventId, lastEventId);
+      for (const log of missed) {
+        this.send(res, 'checkin', this.format(log, totals), log.id);
+      }
+    }
+    this.send(res, 'totals', totals);
+  }
+
+  /**
+   * Notify subscribers of a newly created check-in. Called after the check-in
+   * transaction commits; failures are logged and never affect the check-in.
+   */
+  async publish(checkIn: CheckInLog): Promise<void> {
+    const subscribers = this.subscribers.get(checkIn.eventId);
+    if (!subscribers || subscribers.size === 0) {
+      return;
+    }
+
+    try {
+      const [log, totals] = await Promise.all([
+        AppDataSource.getRepository(CheckInLog).findOne({
+          where: { id: checkIn.id },
+          relations: ['participant', 'checkedInBy'],
+        }),
+        this.getTotals(checkIn.eventId),
+      ]);
+      if (!log) {
+        return;
+      }
+
+      const data = this.format(log, totals);
+      for (const res of subscribers) {
+        this.send(res, 'checkin', data, log.id);
+      }
+    } catch (error) {
+      logger.error('Failed to publish check-in to live feed:', {
+        error: error instanceof Error ? error.message : String(error),
+        checkInId: checkIn.id,
+      });
+    }
+  }
+
+  // Notify subscribers that a check-in was voided, with updated totals
+  async publishVoid(checkIn: CheckInLog): Promise<void> {
+    const subscribers = this.subscribers.get(checkIn.eventId);
+    if (!subscribers || subscribers.size === 0) {
+      return;
+    }
+
+    try {
+      const totals = await this.getTotals(checkIn.eventId);
+      const data = {
+        checkIn: {
+          id: checkIn.id,
+          participantId: checkIn.participantId,
+          voidedAt: checkIn.voidedAt,
+          voidReason: checkIn.voidReason,
+        },
+        totals,
+      };
+      for (const res of subscribers) {
+        this.send(res, 'void', data);
+      }
+    } catch (error) {
+      logger.error('Failed to publish voided check-in to live feed:', {
+        error: error instanceof Error ? error.message : String(error),
+        checkInId: checkIn.id,
+      });
+    }
+  }
+}
+
+export const checkInFeed = new CheckInFeedService();
@@ -0,0 +1,125 @@
+import { AppDataSource } from '../config/database';
+import { AttendanceVisit } from '../entities/AttendanceVisit';
+import { DateRange, checkInDateCondition } from './reportRange';
+
+// Length of a completed visit; NULL (ignored by SUM/AVG) while still on site
+const VISIT_SECONDS_SQL = 'TIMESTAMPDIFF(SECOND, visit.enteredAt, visit.exitedAt)';
+
+export interface DwellSummary {
+  completedVisits: number;
+  openVisits: number; // Participants currently on site (or who never checked out)
+  attendanceDays: number; // Participant-days with at least one completed visit
+  totalMinutesOnSite: number;
+  averageVisitMinutes: number | null;
+  averageDwellMinutes: number | null; // Time on site per participant per day
+}
+
+export interface ParticipantDwellTime {
+  participantId: string;
+  idNumber: string;
+  name: string;
+  ward: string | null;
+  pollingCenter: string | null;
+  daysAttended: number;
+  visits: number;
+  openVisits: number;
+  totalMinutesOnSite: number;
+  averageMinutesPerDay: number | null;
+}
+
+export interface ParticipantDwellPage {
+  participants: ParticipantDwellTime[];
+  total: number;
+}
+
+function toMinutes(seconds: unknown): number {
+  return Math.round(Number(seconds || 0) / 6) / 10;
+}
+
+// Visits of the event's active check-ins within the range
+function visitsQuery(eventId: string, range: DateRange) {
+  return AppDataSource.getRepository(AttendanceVisit)
+    .createQueryBuilder('visit')
+    .innerJoin('visit.checkInLog', 'log')
+    .where(`visit.eventId = :eventId AND log.voidedAt IS NULL${checkInDateCondition('log', range)}`)
+    .setParameters({ eventId, ...range });
+}
+
+/**
+ * Time-on-site figures for an event. Only completed visits (checked in and
+ * out) count towards durations; visits still open are reported separately.
+ */
+export async function getDwellSummary(eventId: string, range: DateRange): Promise<DwellSummary> {
+  const row = await visitsQuery(eventId, range)
+    .select('COUNT(visit.exitedAt)', 'completedVisits')
+    .addSelect('COALESCE(SUM(visit.exitedAt IS NULL), 0)', 'openVisits')
+    .addSelect('COUNT(DISTINCT CASE WHEN visit.exitedAt IS NOT NULL THEN log.id END)', 'attendanceDays')
+    .addSelect(`COALESCE(SUM(${VISIT_SECONDS_SQL}), 0)`, 'totalSeconds')
+    .addSelect(`AVG(${VISIT_SECONDS_SQL})`, 'averageVisitSeconds')
+    .getRawOne();
+
+  const completedVisits = Number(row?.completedVisits || 0);
+  const attendanceDays = Number(row?.attendanceDays || 0);
+
+  return {
+    completedVisits,
+    openVisits: Number(row?.openVisits || 0),
+    attendanceDays,
+    totalMinutesOnSite: toMinutes(row?.totalSeconds),
+    averageVisitMinutes: completedVisits > 0 ? toMinutes(row?.averageVisitSeconds) : null,
+    averageDwellMinutes:
+      attendanceDays > 0 ? toMinutes(Number(row?.totalSeconds) / attendanceDays) : null,
+  };
+}
+
+// Time on site per participant, longest first
+export async function listParticipantDwellTimes(
+  eventId: string,
+  range: DateRange,
+  limit: number,
+  offset: number
+): Promise<ParticipantDwellPage> {
+  const [rows, totalRow] = await Promise.all([
+    visitsQuery(eventId, range)
+      .innerJoin('visit.participant', 'participant')
+      .select('participant.id', 'participantId')
+      .addSelect('participant.idNumber', 'idNumber')
+      .addSelect('participant.name', 'name')
+      .addSelect('participant.ward', 'ward')
+      .addSelect('participant.pollingCenter', 'pollingCenter')
+      .addSelect('COUNT(DISTINCT log.id)', 'daysAttended')
+      .addSelect('COUNT(visit.id)', 'visits')
+      .addSelect('COALESCE(SUM(visit.exitedAt IS NULL), 0)', 'openVisits')
+      .addSelect(`COALESCE(SUM(${VISIT_SECONDS_SQL}), 0)`, 'totalSeconds')
+      .addSelect('COUNT(DISTINCT CASE WHEN visit.exitedAt IS NOT NULL THEN log.id END)', 'completedDays')
+      .groupBy('participant.id')
+      .orderBy('totalSeconds', 'DESC')
+      .addOrderBy('participant.id', 'ASC')
+      .offset(offset)
+      .limit(limit)
+      .getRawMany(),
+    visitsQuery(eventId, range)
+      .select('COUNT(DISTINCT visit.participantId)', 'total')
+      .getRawOne(),
+  ]);
+
+  return {
+    total: Number(totalRow?.total || 0),
+    participants: rows.map((row) => {
+      const completedDays = Number(row.completedDays);
+      return {
+        participantId: row.participantId,
+        idNumber: row.idNumber,
+        name: row.name,
+        ward: row.ward,
+        pollingCenter: row.pollingCenter,
+        daysAttended: Number(row.daysAttended),
+        visits: Number(row.visits),
+        openVisits: Number(row.openVisits),
+        totalMinutesOnSite: toMinutes(row.totalSeconds),
+        averageMinutesPerDay:
+          completedDays > 0 ? toMinutes(Number(row.totalSeconds) / completedDays) : null,
+      };
+    }),
+  };
+}
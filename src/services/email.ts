@@ -52,20 +52,15 @@ class EmailService {
     }
   }
 
-  async sendUserCredentials(
-    email: string,
-    name: string,
-    password: string,
-  ): Promise<boolean> {
-    const subject = 'Your Event Check-in System Account Credentials';
-    
-    const html = `
+  // Wrap email content in the shared branded layout
+  private renderLayout(title: string, content: string): string {
+    return `
       <!DOCTYPE html>
       <html>
       <head>
         <meta charset="utf-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Account Credentials</title>
+        <title>${title}</title>
         <style>
           body {
             font-family: Arial, sans-serif;
@@ -88,20 +83,15 @@ class EmailService {
             border-radius: 0 0 8px 8px;
             border: 1px solid #e2e8f0;
           }
-          .credentials-box {
-            background-color: white;
-            border: 2px solid #179847;
-            border-radius: 8px;
-            padding: 20px;
+          .button {
+            display: inline-block;
+            background-color: #179847;
+            color: white !important;
+            padding: 12px 24px;
+            border-radius: 6px;
+            text-decoration: none;
             margin: 20px 0;
           }
-          .credential-item {
-            margin: 10px 0;
-            padding: 10px;
-            background-color: #f1f5f9;
-            border-radius: 4px;
-            font-family: monospace;
-          }
           .footer {
             text-align: center;
             margin-top: 30px;
@@ -117,23 +107,7 @@ class EmailService {
         </div>
         
         <div class="content">
-          <h2>Hello ${name},</h2>
-          
-          <p>Your account has been created successfully. Below are your login credentials:</p>
-          
-          <div class="credentials-box">
-            <h3>Login Credentials</h3>
-            <div class="credential-item">
-              <strong>Email:</strong> ${email}
-            </div>
-            <div class="credential-item">
-              <strong>Password:</strong> ${password}
-            </div>
-          </div>
-          
-          <p>You can now log in to the system using the credentials above.</p>
-          
-          <p>If you have any questions or need assistance, please contact the system administrator.</p>
+          ${content}
           
           <p>Best regards,<br>
           <strong>Event Management Team</strong></p>
@@ -146,6 +120,70 @@ class EmailService {
       </body>
       </html>
     `;
+  }
+
+  async sendInvitation(
+    email: string,
+    name: string,
+    invitedByName: string,
+    inviteUrl: string,
+    expiresInHours: number,
+  ): Promise<boolean> {
+    const subject = 'You have been invited to the Event Check-in System';
+
+    const html = this.renderLayout('Invitation', `
+          <h2>Hello ${name},</h2>
+          
+          <p>${invitedByName} has invited you to join the Event Check-in System with this email address (${email}). Use the link below to set your password and activate your account:</p>
+          
+          <p><a class="button" href="${inviteUrl}">Accept invitation</a></p>
+          
+          <p>The link can be used once and expires in ${expiresInHours} hours. If it has expired, ask your administrator to resend the invitation.</p>
+          
+          <p>If you have any questions or need assistance, please contact the system administrator.</p>
+    `);
+
+    return this.sendEmail({ to: email, subject, html });
+  }
+
+  async sendAccountLocked(
+    email: string,
+    name: string,
+    lockedUntil: Date,
+    ipAddress: string,
+  ): Promise<boolean> {
+    const subject = 'Your Event Check-in System account has been locked';
+
+    const html = this.renderLayout('Account Locked', `
+          <h2>Hello ${name},</h2>
+          
+          <p>Your account was temporarily locked after too many failed login attempts. The last attempt came from IP address <strong>${ipAddress}</strong>.</p>
+          
+          <p>You can log in again after <strong>${lockedUntil.toUTCString()}</strong>, or ask your administrator to unlock your account sooner.</p>
+          
+          <p>If these attempts were not yours, someone may be trying to guess your password. Consider resetting it once the lock expires.</p>
+    `);
+
+    return this.sendEmail({ to: email, subject, html });
+  }
+
+  async sendPasswordReset(
+    email: string,
+    name: string,
+    resetUrl: string,
+    expiresInMinutes: number,
+  ): Promise<boolean> {
+    const subject = 'Reset your Event Check-in System password';
+
+    const html = this.renderLayout('Password Reset', `
+          <h2>Hello ${name},</h2>
+          
+          <p>We received a request to reset the password of your account. Use the link below to choose a new password:</p>
+          
+          <p><a class="button" href="${resetUrl}">Reset password</a></p>
+          
+          <p>The link can be used once and expires in ${expiresInMinutes} minutes. If you did not request a password reset, you can ignore this email; your password will not change.</p>
+    `);
 
     return this.sendEmail({ to: email, subject, html });
   }
@@ -0,0 +1,182 @@
+import { AppDataSource } from '../config/database';
+import { CheckInLog } from '../entities/CheckInLog';
+import { Participant } from '../entities/Participant';
+import { DateRange, checkInDateCondition } from './reportRange';
+
+// Age bands in display order, matched by the CASE expression below
+const AGE_BANDS = ['under 18', '18-24', '25-34', '35-44', '45-54', '55-64', '65+', 'unknown'];
+
+const AGE_BAND_SQL = `CASE
+  WHEN participant.dateOfBirth IS NULL THEN 'unknown'
+  WHEN TIMESTAMPDIFF(YEAR, participant.dateOfBirth, CURDATE()) < 18 THEN 'under 18'
+  WHEN TIMESTAMPDIFF(YEAR, participant.dateOfBirth, CURDATE()) < 25 THEN '18-24'
+  WHEN TIMESTAMPDIFF(YEAR, participant.dateOfBirth, CURDATE()) < 35 THEN '25-34'
+  WHEN TIMESTAMPDIFF(YEAR, participant.dateOfBirth, CURDATE()) < 45 THEN '35-44'
+  WHEN TIMESTAMPDIFF(YEAR, participant.dateOfBirth, CURDATE()) < 55 THEN '45-54'
+  WHEN TIMESTAMPDIFF(YEAR, participant.dateOfBirth, CURDATE()) < 65 THEN '55-64'
+  ELSE '65+'
+END`;
+
+export interface AttendanceBreakdown {
+  attendees: number; // Distinct participants
+  checkIns: number;
+}
+
+export interface EventAnalytics {
+  totals: {
+    registeredParticipants: number;
+    uniqueAttendees: number;
+    totalCheckIns: number;
+    activeDays: number;
+    singleDayAttendees: number;
+    returningAttendees: number;
+  };
+  byDay: Array<{ date: string; checkIns: number; newAttendees: number; returningAttendees: number }>;
+  byHour: Array<{ date: string; hour: number; checkIns: number }>;
+  bySex: Array<AttendanceBreakdown & { sex: string }>;
+  byAgeBand: Array<AttendanceBreakdown & { ageBand: string }>;
+  byWard: Array<AttendanceBreakdown & { ward: string | null }>;
+  byPollingCenter: Array<AttendanceBreakdown & { ward: string | null; pollingCenter: string | null }>;
+}
+
+function formatDate(value: Date | string): string {
+  if (typeof value === 'string') {
+    return value.substring(0, 10);
+  }
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
+
+// Active check-in logs of the event within the range, joined to their participant
+function logsQuery(eventId: string, range: DateRange) {
+  return AppDataSource.getRepository(CheckInLog)
+    .createQueryBuilder('log')
+    .innerJoin('log.participant', 'participant')
+    .where(`log.eventId = :eventId AND log.voidedAt IS NULL${checkInDateCondition('log', range)}`)
+    .setParameters({ eventId, ...range });
+}
+
+// Group attendance by the given expression, counting participants and check-ins
+async function breakdown<T extends object>(
+  eventId: string,
+  range: DateRange,
+  groups: Record<keyof T, string>
+): Promise<Array<AttendanceBreakdown & T>> {
+  const query = logsQuery(eventId, range)
+    .select('COUNT(DISTINCT log.participantId)', 'attendees')
+    .addSelect('COUNT(log.id)', 'checkIns')
+    .orderBy('attendees', 'DESC');
+
+  for (const [alias, expression] of Object.entries<string>(groups)) {
+    query.addSelect(expression, alias).addGroupBy(alias);
+  }
+
+  const rows = await query.getRawMany<AttendanceBreakdown & T>();
+  return rows.map((row) => ({
+    ...row,
+    attendees: Number(row.attendees),
+    checkIns: Number(row.checkIns),
+  }));
+}
+
+/**
+ * Aggregate attendance statistics for an event. All figures are computed in
+ * SQL over active (not voided) check-ins; the optional range restricts them
+ * to check-ins on those dates. Attendees count as "new" on the day of their
+ * first ever check-in to the event and "returning" on any later day.
+ */
+export async function getEventAnalytics(
+  eventId: string,
+  range: DateRange
+): Promise<EventAnalytics> {
+  const [totals, attendance, registeredParticipants] = await Promise.all([
+    logsQuery(eventId, range)
+      .select('COUNT(log.id)', 'totalCheckIns')
+      .addSelect('COUNT(DISTINCT log.participantId)', 'uniqueAttendees')
+      .addSelect('COUNT(DISTINCT log.checkInDate)', 'activeDays')
+      .getRawOne(),
+    AppDataSource.createQueryBuilder()
+      .select('COALESCE(SUM(days.attendedDays = 1), 0)', 'singleDayAttendees')
+      .addSelect('COALESCE(SUM(days.attendedDays > 1), 0)', 'returningAttendees')
+      .from(
+        (subQuery) =>
+          subQuery
+            .select('log.participantId', 'participantId')
+            .addSelect('COUNT(DISTINCT log.checkInDate)', 'attendedDays')
+            .from(CheckInLog, 'log')
+            .where(`log.eventId = :eventId AND log.voidedAt IS NULL${checkInDateCondition('log', range)}`)
+            .groupBy('log.participantId'),
+        'days'
+      )
+      .setParameters({ eventId, ...range })
+      .getRawOne(),
+    AppDataSource.getRepository(Participant).count({ where: { eventId } }),
+  ]);
+
+  const byDay = await logsQuery(eventId, range)
+    .innerJoin(
+      (subQuery) =>
+        subQuery
+          .select('firstLog.participantId', 'participantId')
+          .addSelect('MIN(firstLog.checkInDate)', 'firstDate')
+          .from(CheckInLog, 'firstLog')
+          .where('firstLog.eventId = :eventId AND firstLog.voidedAt IS NULL')
+          .groupBy('firstLog.participantId'),
+      'firsts',
+      'firsts.participantId = log.participantId'
+    )
+    .select('log.checkInDate', 'date')
+    .addSelect('COUNT(log.id)', 'checkIns')
+    .addSelect('SUM(log.checkInDate = firsts.firstDate)', 'newAttendees')
+    .groupBy('log.checkInDate')
+    .orderBy('log.checkInDate', 'ASC')
+    .getRawMany();
+
+  const byHour = await logsQuery(eventId, range)
+    .select('log.checkInDate', 'date')
+    .addSelect('HOUR(log.checkedInAt)', 'hour')
+    .addSelect('COUNT(log.id)', 'checkIns')
+    .groupBy('log.checkInDate')
+    .addGroupBy('hour')
+    .orderBy('log.checkInDate', 'ASC')
+    .addOrderBy('hour', 'ASC')
+    .getRawMany();
+
+  const [bySex, byAgeBand, byWard, byPollingCenter] = await Promise.all([
+    breakdown<{ sex: string }>(eventId, range, { sex: 'participant.sex' }),
+    breakdown<{ ageBand: string }>(eventId, range, { ageBand: AGE_BAND_SQL }),
+    breakdown<{ ward: string | null }>(eventId, range, { ward: 'participant.ward' }),
+    breakdown<{ ward: string | null; pollingCenter: string | null }>(eventId, range, {
+      ward: 'participant.ward',
+      pollingCenter: 'participant.pollingCenter',
+    }),
+  ]);
+
+  return {
+    totals: {
+      registeredParticipants,
+      uniqueAttendees: Number(totals?.uniqueAttendees || 0),
+      totalCheckIns: Number(totals?.totalCheckIns || 0),
+      activeDays: Number(totals?.activeDays || 0),
+      singleDayAttendees: Number(attendance?.singleDayAttendees || 0),
+      returningAttendees: Number(attendance?.returningAttendees || 0),
+    },
+    byDay: byDay.map((row) => ({
+      date: formatDate(row.date),
+      checkIns: Number(row.checkIns),
+      newAttendees: Number(row.newAttendees),
+      returningAttendees: Number(row.checkIns) - Number(row.newAttendees),
+    })),
+    byHour: byHour.map((row) => ({
+      date: formatDate(row.date),
+      hour: Number(row.hour),
+      checkIns: Number(row.checkIns),
+    })),
+    bySex,
+    byAgeBand: byAgeBand.sort(
+      (a, b) => AGE_BANDS.indexOf(a.ageBand) - AGE_BANDS.indexOf(b.ageBand)
+    ),
+    byWard,
+    byPollingCenter,
+  };
+}
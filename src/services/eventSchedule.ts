@@ -0,0 +1,154 @@
+import { Event, EventStatus } from '../entities/Event';
+import { ValidationIssue } from '../middleware/validate';
+
+export type CheckInBlockCode =
+  | 'EVENT_NOT_OPEN'
+  | 'EVENT_NOT_STARTED'
+  | 'EVENT_ENDED'
+  | 'OUTSIDE_CHECKIN_WINDOW';
+
+export type CheckInAvailability =
+  | { allowed: true }
+  | { allowed: false; code: CheckInBlockCode; message: string };
+
+export interface EventScheduleInput {
+  status?: EventStatus;
+  startDate?: Date | null;
+  endDate?: Date | null;
+  dailyOpenTime?: string | null;
+  dailyCloseTime?: string | null;
+}
+
+export const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)(?::([0-5]\d))?$/;
+
+// Normalise HH:MM or HH:MM:SS to the HH:MM:SS format stored by MySQL
+function normaliseTime(value: string): string | null {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  return `${match[1]}:${match[2]}:${match[3] || '00'}`;
+}
+
+function toSeconds(time: string): number {
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  return hours * 3600 + minutes * 60 + (seconds || 0);
+}
+
+/**
+ * Parse scheduling fields from a request body. Only keys present in the body
+ * are returned, so the result can be applied as a partial update.
+ */
+export function parseScheduleInput(
+  body: Record<string, unknown>,
+  current?: Pick<Event, 'startDate' | 'endDate' | 'dailyOpenTime' | 'dailyCloseTime'>
+): { values: EventScheduleInput; errors: ValidationIssue[] } {
+  const values: EventScheduleInput = {};
+  const errors: ValidationIssue[] = [];
+  const reject = (field: string, code: string, message: string) =>
+    errors.push({ field, location: 'body', code, message });
+
+  if (body.status !== undefined) {
+    if (!Object.values(EventStatus).includes(body.status as EventStatus)) {
+      reject('status', 'INVALID_VALUE', `status must be one of: ${Object.values(EventStatus).join(', ')}`);
+    } else {
+      values.status = body.status as EventStatus;
+    }
+  }
+
+  for (const key of ['startDate', 'endDate'] as const) {
+    if (body[key] === undefined) {
+      continue;
+    }
+    if (body[key] === null || body[key] === '') {
+      values[key] = null;
+      continue;
+    }
+    const date = new Date(String(body[key]));
+    if (isNaN(date.getTime())) {
+      reject(key, 'INVALID_DATE', `${key} must be a valid ISO 8601 date-time`);
+    } else {
+      values[key] = date;
+    }
+  }
+
+  for (const key of ['dailyOpenTime', 'dailyCloseTime'] as const) {
+    if (body[key] === undefined) {
+      continue;
+    }
+    if (body[key] === null || body[key] === '') {
+      values[key] = null;
+      continue;
+    }
+    const time = normaliseTime(String(body[key]));
+    if (!time) {
+      reject(key, 'INVALID_FORMAT', `${key} must be in HH:MM format`);
+    } else {
+      values[key] = time;
+    }
+  }
+
+  // Validate the resulting schedule, merging in current values for partial updates
+  const startDate = values.startDate !== undefined ? values.startDate : current?.startDate;
+  const endDate = values.endDate !== undefined ? values.endDate : current?.endDate;
+  if (startDate && endDate && new Date(endDate) < new Date(startDate)) {
+    reject('endDate', 'INVALID_RANGE', 'endDate must be after startDate');
+  }
+
+  const openTime =
+    values.dailyOpenTime !== undefined ? values.dailyOpenTime : current?.dailyOpenTime;
+  const closeTime =
+    values.dailyCloseTime !== undefined ? values.dailyCloseTime : current?.dailyCloseTime;
+  if (openTime && closeTime && toSeconds(closeTime) <= toSeconds(openTime)) {
+    reject('dailyCloseTime', 'INVALID_RANGE', 'dailyCloseTime must be after dailyOpenTime');
+  }
+
+  return { values, errors };
+}
+
+/**
+ * Decide whether an event accepts check-ins at the given moment, based on its
+ * status, start/end dates and daily opening window (server local time).
+ */
+export function getCheckInAvailability(
+  event: Event,
+  at: Date = new Date()
+): CheckInAvailability {
+  if (event.status !== EventStatus.OPEN) {
+    return {
+      allowed: false,
+      code: 'EVENT_NOT_OPEN',
+      message: `Event is ${event.status} and not accepting check-ins`,
+    };
+  }
+
+  if (event.startDate && at < new Date(event.startDate)) {
+    return {
+      allowed: false,
+      code: 'EVENT_NOT_STARTED',
+      message: 'Event has not started yet',
+    };
+  }
+
+  if (event.endDate && at > new Date(event.endDate)) {
+    return {
+      allowed: false,
+      code: 'EVENT_ENDED',
+      message: 'Event has already ended',
+    };
+  }
+
+  const secondsOfDay = at.getHours() * 3600 + at.getMinutes() * 60 + at.getSeconds();
+  if (
+    (event.dailyOpenTime && secondsOfDay < toSeconds(event.dailyOpenTime)) ||
+    (event.dailyCloseTime && secondsOfDay > toSeconds(event.dailyCloseTime))
+  ) {
+    return {
+      allowed: false,
+      code: 'OUTSIDE_CHECKIN_WINDOW',
+      message: `Check-in is only open between ${event.dailyOpenTime || '00:00:00'} and ${event.dailyCloseTime || '23:59:59'}`,
+    };
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,116 @@
+import { IsNull, MoreThan } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { env } from '../config/env';
+import { User, UserRole } from '../entities/User';
+import { InvitationStatus, UserInvitation } from '../entities/UserInvitation';
+import { generateLinkToken, hashLinkToken, hashPassword } from '../utils/auth';
+import { emailService } from './email';
+
+export type AcceptInvitationResult =
+  | { status: 'accepted'; user: User; invitation: UserInvitation }
+  | { status: 'invalid' }
+  | { status: 'email_taken' };
+
+// Page of the frontend where the invitee sets their password
+export function invitationUrl(token: string): string {
+  return `${env.FRONTEND_URL.replace(/\/$/, '')}/accept-invite/${token}`;
+}
+
+export function getInvitationStatus(
+  invitation: UserInvitation,
+  at: Date = new Date()
+): InvitationStatus {
+  if (invitation.acceptedAt) {
+    return InvitationStatus.ACCEPTED;
+  }
+  if (invitation.revokedAt) {
+    return InvitationStatus.REVOKED;
+  }
+  if (invitation.expiresAt <= at) {
+    return InvitationStatus.EXPIRED;
+  }
+  return InvitationStatus.PENDING;
+}
+
+// Give the invitation a fresh token and expiry and email the link.
+// Earlier links of the invitation stop working.
+export async function sendInvitation(
+  invitation: UserInvitation,
+  invitedBy: User
+): Promise<{ invitation: UserInvitation; emailSent: boolean }> {
+  const token = generateLinkToken();
+  invitation.tokenHash = hashLinkToken(token);
+  invitation.expiresAt = new Date(Date.now() + env.INVITATION_TTL_HOURS * 60 * 60 * 1000);
+  invitation.lastSentAt = new Date();
+
+  const saved = await AppDataSource.getRepository(UserInvitation).save(invitation);
+
+  const emailSent = await emailService.sendInvitation(
+    saved.email,
+    saved.name,
+    invitedBy.name,
+    invitationUrl(token),
+    env.INVITATION_TTL_HOURS,
+  );
+
+  return { invitation: saved, emailSent };
+}
+
+// Pending invitation for a link token, if still usable
+export function findPendingInvitation(token: string): Promise<UserInvitation | null> {
+  return AppDataSource.getRepository(UserInvitation).findOne({
+    where: {
+      tokenHash: hashLinkToken(token),
+      acceptedAt: IsNull(),
+      revokedAt: IsNull(),
+      expiresAt: MoreThan(new Date()),
+    },
+  });
+}
+
+/**
+ * Accept an invitation: create the invitee's account with the password they
+ * chose, assigned to the admin who invited them. The link is used up.
+ */
+export async function acceptInvitation(
+  token: string,
+  password: string
+): Promise<AcceptInvitationResult> {
+  const hashedPassword = await hashPassword(password);
+
+  return AppDataSource.transaction(async (manager) => {
+    const invitation = await manager.findOne(UserInvitation, {
+      where: {
+        tokenHash: hashLinkToken(token),
+        acceptedAt: IsNull(),
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!invitation) {
+      return { status: 'invalid' as const };
+    }
+
+    const existing = await manager.findOne(User, { where: { email: invitation.email } });
+    if (existing) {
+      return { status: 'email_taken' as const };
+    }
+
+    const user = await manager.save(
+      manager.create(User, {
+        name: invitation.name,
+        email: invitation.email,
+        password: hashedPassword,
+        role: UserRole.USER,
+        adminId: invitation.invitedById,
+      })
+    );
+
+    invitation.acceptedAt = new Date();
+    invitation.userId = user.id;
+    await manager.save(invitation);
+
+    return { status: 'accepted' as const, user, invitation };
+  });
+}
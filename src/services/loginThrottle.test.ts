@@ -0,0 +1,181 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { LoginAttemptRecord, LoginThrottleService, MemoryLoginAttemptStore } from './loginThrottle';
+
+const IP = '203.0.113.7';
+const EMAIL = 'agent@example.com';
+const MINUTE = 60 * 1000;
+
+let now: number;
+
+function advance(ms: number): void {
+  now += ms;
+}
+
+function record(failures: number): LoginAttemptRecord {
+  return {
+    failures,
+    windowStartedAt: now,
+    lastFailureAt: now,
+    lockedUntil: null,
+    lockouts: 0,
+    inFlight: 0,
+    inFlightUntil: 0,
+  };
+}
+
+beforeEach(() => {
+  now = Date.UTC(2026, 0, 1);
+  mock.method(Date, 'now', () => now);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('MemoryLoginAttemptStore', () => {
+  it('returns copies and forgets expired records', async () => {
+    const store = new MemoryLoginAttemptStore();
+    await store.set('ip:a', record(1), MINUTE);
+
+    const copy = await store.get('ip:a');
+    copy!.failures = 99;
+    assert.equal((await store.get('ip:a'))!.failures, 1);
+
+    advance(MINUTE);
+    assert.equal(await store.get('ip:a'), null);
+    assert.deepEqual(await store.entries(), []);
+  });
+
+  it('drops the least recently set records once full', async () => {
+    const store = new MemoryLoginAttemptStore(3);
+    await store.set('ip:a', record(1), MINUTE);
+    await store.set('ip:b', record(1), MINUTE);
+    await store.set('ip:c', record(1), MINUTE);
+    await store.set('ip:a', record(2), MINUTE);
+    await store.set('ip:d', record(1), MINUTE);
+
+    const keys = (await store.entries()).map(([key]) => key);
+    assert.deepEqual(keys, ['ip:c', 'ip:a', 'ip:d']);
+  });
+
+  it('drops expired records before live ones', async () => {
+    const store = new MemoryLoginAttemptStore(3);
+    await store.set('ip:a', record(1), MINUTE);
+    await store.set('ip:b', record(1), 10 * MINUTE);
+    await store.set('ip:c', record(1), MINUTE);
+    advance(2 * MINUTE);
+    await store.set('ip:d', record(1), MINUTE);
+
+    const keys = (await store.entries()).map(([key]) => key);
+    assert.deepEqual(keys, ['ip:b', 'ip:d']);
+  });
+});
+
+describe('LoginThrottleService', () => {
+  let throttle: LoginThrottleService;
+
+  beforeEach(() => {
+    throttle = new LoginThrottleService(new MemoryLoginAttemptStore());
+  });
+
+  async function fail(): Promise<Date | null> {
+    const check = await throttle.reserve(IP, EMAIL);
+    assert.equal(check.allowed, true);
+    return (await throttle.recordFailure(IP, EMAIL)).accountLockedUntil;
+  }
+
+  it('delays attempts after the free failures, doubling each time', async () => {
+    await fail();
+    await fail();
+    assert.deepEqual(await throttle.reserve(IP, EMAIL), { allowed: true });
+    await throttle.recordFailure(IP, EMAIL);
+
+    assert.deepEqual(await throttle.reserve(IP, EMAIL), {
+      allowed: false,
+      reason: 'delayed',
+      scope: 'account',
+      retryAfterSeconds: 1,
+    });
+    advance(1000);
+    await fail();
+
+    const check = await throttle.reserve(IP, EMAIL);
+    assert.equal(check.allowed, false);
+    assert.equal(!check.allowed && check.retryAfterSeconds, 2);
+  });
+
+  it('locks the account after the maximum failures, doubling each lockout', async () => {
+    for (let i = 0; i < 4; i++) {
+      assert.equal(await fail(), null);
+      advance(MINUTE);
+    }
+    const lockedUntil = await fail();
+    assert.equal(lockedUntil?.getTime(), now + 15 * MINUTE);
+
+    const check = await throttle.reserve(IP, EMAIL);
+    assert.equal(check.allowed, false);
+    assert.equal(!check.allowed && check.reason, 'locked');
+    assert.equal(!check.allowed && check.retryAfterSeconds, 15 * 60);
+
+    advance(15 * MINUTE);
+    for (let i = 0; i < 4; i++) {
+      assert.equal(await fail(), null);
+      advance(MINUTE);
+    }
+    assert.equal((await fail())?.getTime(), now + 30 * MINUTE);
+
+    const [lockout] = await throttle.listLockouts();
+    assert.equal(lockout.scope, 'account');
+    assert.equal(lockout.identifier, EMAIL);
+    assert.equal(lockout.lockouts, 2);
+  });
+
+  it('counts reserved attempts until they settle', async () => {
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await throttle.reserve(IP, EMAIL)).allowed, true);
+    }
+    assert.equal((await throttle.reserve(IP, EMAIL)).allowed, false);
+
+    await throttle.release(IP, EMAIL);
+    assert.equal((await throttle.reserve(IP, EMAIL)).allowed, true);
+  });
+
+  it('lets concurrent attempts through only up to the free failures', async () => {
+    const checks = await Promise.all(Array.from({ length: 10 }, () => throttle.reserve(IP, EMAIL)));
+    assert.equal(checks.filter((check) => check.allowed).length, 3);
+  });
+
+  it('stops counting reservations that never settle', async () => {
+    for (let i = 0; i < 3; i++) {
+      await throttle.reserve(IP, EMAIL);
+    }
+    advance(30 * 1000);
+    assert.equal((await throttle.reserve(IP, EMAIL)).allowed, true);
+  });
+
+  it('forgets the account failures after a successful login', async () => {
+    await fail();
+    await fail();
+    await fail();
+    advance(1000);
+
+    assert.equal((await throttle.reserve(IP, EMAIL)).allowed, true);
+    await throttle.recordSuccess(IP, EMAIL);
+    assert.equal(await throttle.clear('account', EMAIL), false);
+  });
+
+  it('clears a lockout', async () => {
+    for (let i = 0; i < 5; i++) {
+      await fail();
+      advance(MINUTE);
+    }
+    assert.equal((await throttle.listLockouts()).length, 1);
+
+    assert.equal(await throttle.clear('account', EMAIL.toUpperCase()), true);
+    assert.deepEqual(await throttle.listLockouts(), []);
+    assert.equal(await throttle.clear('account', EMAIL), false);
+    assert.deepEqual(await throttle.reserve(IP, EMAIL), { allowed: true });
+  });
+});
@@ -0,0 +1,362 @@
+import { env } from '../config/env';
+
+export type ThrottleScope = 'account' | 'ip';
+
+export interface LoginAttemptRecord {
+  failures: number; // Failures in the current window
+  windowStartedAt: number;
+  lastFailureAt: number;
+  lockedUntil: number | null;
+  lockouts: number; // Lockouts so far; each one doubles the next lockout
+  inFlight: number; // Attempts reserved and not yet recorded as a failure or success
+  inFlightUntil: number; // Reservations older than this were abandoned
+}
+
+/**
+ * Where attempt records are kept. The in-memory store is per process; with
+ * several API instances, plug in a shared store (e.g. Redis) with
+ * loginThrottle.setStore(). Updates are only serialised within a process,
+ * so a shared store should lock records it hands out for update.
+ */
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptRecord | null>;
+  set(key: string, record: LoginAttemptRecord, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  entries(): Promise<Array<[string, LoginAttemptRecord]>>;
+}
+
+export type ThrottleCheck =
+  | { allowed: true }
+  | { allowed: false; reason: 'locked' | 'delayed'; scope: ThrottleScope; retryAfterSeconds: number };
+
+export type RateLimitCheck = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+export interface Lockout {
+  scope: ThrottleScope;
+  identifier: string; // Email or IP address
+  failures: number;
+  lockouts: number;
+  lockedUntil: Date;
+}
+
+// Records are kept this long after the last failure, so repeated lockouts escalate
+const RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+const MAX_DELAY_MS = 30 * 1000;
+// A reserved attempt that never settles (e.g. the request crashed) stops counting after this
+const IN_FLIGHT_TTL_MS = 30 * 1000;
+// Records held in memory at most; the least recently updated are dropped first
+const MAX_MEMORY_RECORDS = 10000;
+
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  // Kept in the order records were last set, oldest first
+  private records = new Map<string, { record: LoginAttemptRecord; expiresAt: number }>();
+
+  constructor(private maxRecords: number = MAX_MEMORY_RECORDS) {}
+
+  private purgeExpired(now: number = Date.now()): void {
+    for (const [key, entry] of this.records) {
+      if (entry.expiresAt <= now) {
+        this.records.delete(key);
+      }
+    }
+  }
+
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    const entry = this.records.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    return { ...entry.record };
+  }
+
+  async set(key: string, record: LoginAttemptRecord, ttlMs: number): Promise<void> {
+    this.records.delete(key);
+    if (this.records.size >= this.maxRecords) {
+      this.purgeExpired();
+    }
+    for (const oldest of this.records.keys()) {
+      if (this.records.size < this.maxRecords) {
+        break;
+      }
+      this.records.delete(oldest);
+    }
+    this.records.set(key, { record: { ...record }, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.records.delete(key);
+  }
+
+  async entries(): Promise<Array<[string, LoginAttemptRecord]>> {
+    this.purgeExpired();
+    return [...this.records].map(([key, entry]) => [key, { ...entry.record }]);
+  }
+}
+
+function storeKey(scope: ThrottleScope, identifier: string): string {
+  return `${scope}:${scope === 'account' ? identifier.trim().toLowerCase() : identifier}`;
+}
+
+export class LoginThrottleService {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private store: LoginAttemptStore) {}
+
+  setStore(store: LoginAttemptStore): void {
+    this.store = store;
+  }
+
+  // Updates run one at a time, so concurrent attempts see each other's reservations
+  private serialised<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private maxFailures(scope: ThrottleScope): number {
+    return scope === 'account' ? env.LOGIN_MAX_ACCOUNT_FAILURES : env.LOGIN_MAX_IP_FAILURES;
+  }
+
+  // Wait required after the last failure: none for the first half of the
+  // allowed failures, then 1s, 2s, 4s... up to MAX_DELAY_MS
+  private delayMs(scope: ThrottleScope, failures: number): number {
+    const freeFailures = Math.ceil(this.maxFailures(scope) / 2);
+    if (failures < freeFailures) {
+      return 0;
+    }
+    return Math.min(1000 * 2 ** (failures - freeFailures), MAX_DELAY_MS);
+  }
+
+  private activeInFlight(record: LoginAttemptRecord, now: number): number {
+    return record.inFlightUntil > now ? record.inFlight : 0;
+  }
+
+  private recordTtlMs(record: LoginAttemptRecord, now: number): number {
+    return (record.lockedUntil ? record.lockedUntil - now : 0) + RECORD_TTL_MS;
+  }
+
+  private checkScope(scope: ThrottleScope, record: LoginAttemptRecord | null, now: number): ThrottleCheck {
+    if (!record) {
+      return { allowed: true };
+    }
+
+    if (record.lockedUntil && record.lockedUntil > now) {
+      return {
+        allowed: false,
+        reason: 'locked',
+        scope,
+        retryAfterSeconds: Math.ceil((record.lockedUntil - now) / 1000),
+      };
+    }
+
+    const windowOpen = now - record.windowStartedAt < env.LOGIN_FAILURE_WINDOW_MINUTES * 60 * 1000;
+    const nextAttemptAt = record.lastFailureAt + this.delayMs(scope, record.failures);
+    if (windowOpen && nextAttemptAt > now) {
+      return {
+        allowed: false,
+        reason: 'delayed',
+        scope,
+        retryAfterSeconds: Math.ceil((nextAttemptAt - now) / 1000),
+      };
+    }
+
+    // Attempts still in flight count as failures until they settle, so
+    // parallel requests cannot all pass before the first failure is recorded
+    const failures = windowOpen ? record.failures : 0;
+    const inFlight = this.activeInFlight(record, now);
+    if (inFlight > 0 && this.delayMs(scope, failures + inFlight) > 0) {
+      return { allowed: false, reason: 'delayed', scope, retryAfterSeconds: 1 };
+    }
+
+    return { allowed: true };
+  }
+
+  private async releaseScope(scope: ThrottleScope, identifier: string, now: number): Promise<void> {
+    const key = storeKey(scope, identifier);
+    const record = await this.store.get(key);
+    if (!record || this.activeInFlight(record, now) === 0) {
+      return;
+    }
+    record.inFlight -= 1;
+    await this.store.set(key, record, this.recordTtlMs(record, now));
+  }
+
+  private async recordScopeFailure(
+    scope: ThrottleScope,
+    identifier: string,
+    now: number
+  ): Promise<LoginAttemptRecord> {
+    const key = storeKey(scope, identifier);
+    const existing = await this.store.get(key);
+    const windowMs = env.LOGIN_FAILURE_WINDOW_MINUTES * 60 * 1000;
+
+    const record: LoginAttemptRecord =
+      existing && now - existing.windowStartedAt < windowMs && !(existing.lockedUntil && existing.lockedUntil <= now)
+        ? existing
+        : {
+            failures: 0,
+            windowStartedAt: now,
+            lastFailureAt: now,
+            lockedUntil: null,
+            lockouts: existing?.lockouts || 0,
+            inFlight: existing?.inFlight || 0,
+            inFlightUntil: existing?.inFlightUntil || 0,
+          };
+
+    record.failures += 1;
+    record.lastFailureAt = now;
+    // This failure settles the attempt reserved for it
+    record.inFlight = Math.max(this.activeInFlight(record, now) - 1, 0);
+
+    if (record.failures >= this.maxFailures(scope)) {
+      const lockoutMs = Math.min(
+        env.LOGIN_LOCKOUT_MINUTES * 60 * 1000 * 2 ** record.lockouts,
+        MAX_LOCKOUT_MS
+      );
+      record.lockedUntil = now + lockoutMs;
+      record.lockouts += 1;
+    }
+
+    await this.store.set(key, record, this.recordTtlMs(record, now));
+    return record;
+  }
+
+  /**
+   * Whether a login attempt may go ahead for this IP (and account, if the
+   * email is known), reserving it if so. Call before checking the password,
+   * then settle the attempt with recordFailure(), recordSuccess() or release().
+   */
+  async reserve(ip: string, email?: string): Promise<ThrottleCheck> {
+    return this.serialised(async () => {
+      const now = Date.now();
+      const scopes: Array<[ThrottleScope, string]> = email ? [['account', email], ['ip', ip]] : [['ip', ip]];
+      const records: Array<[string, LoginAttemptRecord | null]> = [];
+
+      for (const [scope, identifier] of scopes) {
+        const key = storeKey(scope, identifier);
+        const record = await this.store.get(key);
+        const check = this.checkScope(scope, record, now);
+        if (!check.allowed) {
+          return check;
+        }
+        records.push([key, record]);
+      }
+
+      for (const [key, existing] of records) {
+        const record: LoginAttemptRecord = existing || {
+          failures: 0,
+          windowStartedAt: now,
+          lastFailureAt: now,
+          lockedUntil: null,
+          lockouts: 0,
+          inFlight: 0,
+          inFlightUntil: 0,
+        };
+        record.inFlight = this.activeInFlight(record, now) + 1;
+        record.inFlightUntil = now + IN_FLIGHT_TTL_MS;
+        await this.store.set(key, record, this.recordTtlMs(record, now));
+      }
+
+      return { allowed: true };
+    });
+  }
+
+  // Settle a reserved attempt that was neither a failure nor a success (e.g. a two-factor challenge)
+  async release(ip: string, email?: string): Promise<void> {
+    return this.serialised(async () => {
+      const now = Date.now();
+      await this.releaseScope('ip', ip, now);
+      if (email) {
+        await this.releaseScope('account', email, now);
+      }
+    });
+  }
+
+  // Record a failed attempt; returns the lockout end if this failure locked the account
+  async recordFailure(ip: string, email?: string): Promise<{ accountLockedUntil: Date | null }> {
+    return this.serialised(async () => {
+      const now = Date.now();
+      await this.recordScopeFailure('ip', ip, now);
+
+      if (!email) {
+        return { accountLockedUntil: null };
+      }
+      const account = await this.recordScopeFailure('account', email, now);
+      const justLocked = account.lockedUntil !== null && account.failures === this.maxFailures('account');
+      return { accountLockedUntil: justLocked ? new Date(account.lockedUntil as number) : null };
+    });
+  }
+
+  // A successful login clears the account's failures (lockout history included)
+  async recordSuccess(ip: string, email?: string): Promise<void> {
+    return this.serialised(async () => {
+      await this.releaseScope('ip', ip, Date.now());
+      if (email) {
+        await this.store.delete(storeKey('account', email));
+      }
+    });
+  }
+
+  /**
+   * Count a request against a fixed-window limit for other public endpoints
+   * (e.g. registration). Kept in the same store as login attempts, so a
+   * shared store limits across instances too; these records never lock out.
+   */
+  async consume(bucket: string, identifier: string, limit: number, windowMs: number): Promise<RateLimitCheck> {
+    return this.serialised(async () => {
+      const now = Date.now();
+      const key = `${bucket}:${identifier}`;
+      const existing = await this.store.get(key);
+      const record: LoginAttemptRecord =
+        existing && now - existing.windowStartedAt < windowMs
+          ? existing
+          : {
+              failures: 0,
+              windowStartedAt: now,
+              lastFailureAt: now,
+              lockedUntil: null,
+              lockouts: 0,
+              inFlight: 0,
+              inFlightUntil: 0,
+            };
+      const windowEndsAt = record.windowStartedAt + windowMs;
+
+      if (record.failures >= limit) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((windowEndsAt - now) / 1000) };
+      }
+
+      record.failures += 1;
+      record.lastFailureAt = now;
+      await this.store.set(key, record, windowEndsAt - now);
+      return { allowed: true };
+    });
+  }
+
+  // Accounts and IPs currently locked out
+  async listLockouts(): Promise<Lockout[]> {
+    const now = Date.now();
+    const entries = await this.store.entries();
+
+    return entries
+      .filter(([, record]) => record.lockedUntil && record.lockedUntil > now)
+      .map(([key, record]) => {
+        const separator = key.indexOf(':');
+        return {
+          scope: key.slice(0, separator) as ThrottleScope,
+          identifier: key.slice(separator + 1),
+          failures: record.failures,
+          lockouts: record.lockouts,
+          lockedUntil: new Date(record.lockedUntil as number),
+        };
+      })
+      .sort((a, b) => b.lockedUntil.getTime() - a.lockedUntil.getTime());
+  }
+
+  // Clear the failures and lockout of an account or IP; returns false if there was none
+  async clear(scope: ThrottleScope, identifier: string): Promise<boolean> {
+    return this.store.delete(storeKey(scope, identifier));
+  }
+}
+
+export const loginThrottle = new LoginThrottleService(new MemoryLoginAttemptStore());
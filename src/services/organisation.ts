@@ -0,0 +1,52 @@
+import { randomUUID } from 'crypto';
+import { AppDataSource } from '../config/database';
+import { env } from '../config/env';
+import logger from '../config/logger';
+import { OrganisationLevel, OrganisationUnit } from '../entities/OrganisationUnit';
+import { User, UserRole } from '../entities/User';
+
+/**
+ * Create the national unit named by NATIONAL_UNIT_NAME if it does not exist,
+ * and assign the admin named by NATIONAL_UNIT_COORDINATOR_EMAIL to it while
+ * they have no unit. The root of the tree is only created here, never through
+ * the API; national coordinators build and staff the units below it.
+ */
+export async function ensureNationalUnit(): Promise<void> {
+  const unitRepository = AppDataSource.getRepository(OrganisationUnit);
+  let national = await unitRepository.findOne({ where: { level: OrganisationLevel.NATIONAL } });
+
+  if (!national && env.NATIONAL_UNIT_NAME) {
+    const id = randomUUID();
+    national = await unitRepository.save(
+      unitRepository.create({
+        id,
+        name: env.NATIONAL_UNIT_NAME.trim(),
+        level: OrganisationLevel.NATIONAL,
+        parentId: null,
+        path: `/${id}/`,
+      })
+    );
+    logger.info('National organisation unit created', { unitId: national.id, name: national.name });
+  }
+
+  if (!national || !env.NATIONAL_UNIT_COORDINATOR_EMAIL) {
+    return;
+  }
+
+  const userRepository = AppDataSource.getRepository(User);
+  const coordinator = await userRepository.findOne({
+    where: { email: env.NATIONAL_UNIT_COORDINATOR_EMAIL },
+  });
+
+  if (!coordinator || coordinator.role !== UserRole.ADMIN) {
+    logger.warn('National unit coordinator is not an admin account', {
+      email: env.NATIONAL_UNIT_COORDINATOR_EMAIL,
+    });
+    return;
+  }
+
+  if (!coordinator.organisationUnitId) {
+    await userRepository.update({ id: coordinator.id }, { organisationUnitId: national.id });
+    logger.info('National unit coordinator assigned', { userId: coordinator.id, unitId: national.id });
+  }
+}
@@ -0,0 +1,174 @@
+import { In, IsNull } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Participant, ParticipantStatus } from '../entities/Participant';
+import { CheckInLog } from '../entities/CheckInLog';
+import { DateRange, checkInDateCondition } from './reportRange';
+
+export type ParticipantSortField = 'createdAt' | 'name' | 'idNumber';
+export type SortOrder = 'ASC' | 'DESC';
+
+export const PARTICIPANT_SORT_FIELDS: ParticipantSortField[] = ['createdAt', 'name', 'idNumber'];
+
+export interface ParticipantListOptions {
+  limit: number;
+  cursor?: string;
+  sortBy: ParticipantSortField;
+  order: SortOrder;
+  search?: string;
+  sex?: string;
+  ward?: string;
+  pollingCenter?: string;
+  status?: ParticipantStatus; // Pre-registered (not yet arrived) or attended
+  checkedIn?: DateRange; // Only participants checked in within this date range
+  checkedInById?: string; // Only participants checked in by this user
+}
+
+export interface ParticipantListPage {
+  participants: Participant[];
+  total: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+interface CursorPayload {
+  id: string;
+  sortBy: ParticipantSortField;
+  order: SortOrder;
+}
+
+export class InvalidCursorError extends Error {}
+
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, options: ParticipantListOptions): CursorPayload {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      typeof payload.id !== 'string' ||
+      payload.sortBy !== options.sortBy ||
+      payload.order !== options.order
+    ) {
+      throw new Error('Cursor does not match the requested sort');
+    }
+    return payload as CursorPayload;
+  } catch {
+    throw new InvalidCursorError('Invalid cursor for this sort order');
+  }
+}
+
+// Escape LIKE wildcards in user input
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function filteredQuery(eventId: string, options: ParticipantListOptions) {
+  const query = AppDataSource.getRepository(Participant)
+    .createQueryBuilder('participant')
+    .where('participant.eventId = :eventId', { eventId });
+
+  if (options.search) {
+    const search = escapeLike(options.search.trim());
+    query.andWhere('(participant.name LIKE :nameSearch OR participant.idNumber LIKE :idSearch)', {
+      nameSearch: `%${search}%`,
+      idSearch: `${search}%`,
+    });
+  }
+  if (options.sex) {
+    query.andWhere('participant.sex = :sex', { sex: options.sex });
+  }
+  if (options.ward) {
+    query.andWhere('participant.ward = :ward', { ward: options.ward });
+  }
+  if (options.pollingCenter) {
+    query.andWhere('participant.pollingCenter = :pollingCenter', {
+      pollingCenter: options.pollingCenter,
+    });
+  }
+  if (options.status) {
+    query.andWhere('participant.status = :status', { status: options.status });
+  }
+
+  // Check-in based filters use an EXISTS subquery on check_in_logs
+  const range = options.checkedIn || {};
+  if (range.from || range.to || options.checkedInById) {
+    query.andWhere(
+      (qb) => {
+        const subQuery = qb
+          .subQuery()
+          .select('1')
+          .from(CheckInLog, 'log')
+          .where(
+            `log.participantId = participant.id AND log.voidedAt IS NULL${checkInDateCondition('log', range)}`
+          );
+        if (options.checkedInById) {
+          subQuery.andWhere('log.checkedInById = :checkedInById');
+        }
+        return `EXISTS ${subQuery.getQuery()}`;
+      },
+      { ...range, checkedInById: options.checkedInById }
+    );
+  }
+
+  return query;
+}
+
+/**
+ * List an event's participants one page at a time. Pages are keyset
+ * paginated on (sort column, id): the cursor identifies the last participant
+ * of the previous page, so pages stay stable while new check-ins arrive.
+ * Active check-in logs are only loaded for the participants on the page.
+ */
+export async function listParticipants(
+  eventId: string,
+  options: ParticipantListOptions
+): Promise<ParticipantListPage> {
+  const total = await filteredQuery(eventId, options).getCount();
+
+  const column = options.sortBy;
+  const query = filteredQuery(eventId, options)
+    .orderBy(`participant.${column}`, options.order)
+    .addOrderBy('participant.id', options.order)
+    .take(options.limit + 1);
+
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor, options);
+    const operator = options.order === 'ASC' ? '>' : '<';
+    query.andWhere(
+      `(participant.${column}, participant.id) ${operator} ` +
+        `(SELECT cursor_row.\`${column}\`, cursor_row.id FROM participants cursor_row WHERE cursor_row.id = :cursorId)`,
+      { cursorId: cursor.id }
+    );
+  }
+
+  const rows = await query.getMany();
+  const hasMore = rows.length > options.limit;
+  const participants = rows.slice(0, options.limit);
+
+  const logs = participants.length > 0
+    ? await AppDataSource.getRepository(CheckInLog).find({
+        where: {
+          participantId: In(participants.map((participant) => participant.id)),
+          voidedAt: IsNull(),
+        },
+        relations: ['checkedInBy'],
+        order: { checkedInAt: 'ASC' },
+      })
+    : [];
+
+  for (const participant of participants) {
+    participant.checkInLogs = logs.filter((log) => log.participantId === participant.id);
+  }
+
+  const last = participants[participants.length - 1];
+
+  return {
+    participants,
+    total,
+    hasMore,
+    nextCursor: hasMore && last
+      ? encodeCursor({ id: last.id, sortBy: options.sortBy, order: options.order })
+      : null,
+  };
+}
@@ -0,0 +1,124 @@
+import { IsNull, MoreThan } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { env } from '../config/env';
+import logger from '../config/logger';
+import { AuditAction, AuditLog, AuditOutcome } from '../entities/AuditLog';
+import { User } from '../entities/User';
+import { PasswordResetToken } from '../entities/PasswordResetToken';
+import { UserInvitation } from '../entities/UserInvitation';
+import { SessionRevokeReason } from '../entities/UserSession';
+import { generateLinkToken, hashLinkToken, hashPassword } from '../utils/auth';
+import { revokeUserSessions } from './sessions';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export type PasswordResetResult =
+  | { status: 'reset'; user: User }
+  | { status: 'invalid' };
+
+/**
+ * Flag accounts that still have the password an admin emailed them, so they
+ * must replace it. Before invitations, admins created users directly and
+ * emailed the password; those users have an admin but no accepted
+ * invitation, and no password change or reset recorded since. Safe to run
+ * on every start: once a user changes their password they no longer match.
+ */
+export async function flagEmailedPasswordAccounts(): Promise<void> {
+  const invited = AppDataSource.createQueryBuilder()
+    .subQuery()
+    .select('1')
+    .from(UserInvitation, 'invitation')
+    .where('invitation.userId = users.id')
+    .getQuery();
+  const passwordChanged = AppDataSource.createQueryBuilder()
+    .subQuery()
+    .select('1')
+    .from(AuditLog, 'log')
+    .where("log.targetType = 'user'")
+    .andWhere('log.targetId = users.id')
+    .andWhere('log.action IN (:...passwordActions)')
+    .andWhere('log.outcome = :success')
+    .getQuery();
+
+  const result = await AppDataSource.createQueryBuilder()
+    .update(User)
+    .set({ mustChangePassword: true })
+    .where('adminId IS NOT NULL')
+    .andWhere('mustChangePassword = :flagged', { flagged: false })
+    .andWhere(`NOT EXISTS ${invited}`)
+    .andWhere(`NOT EXISTS ${passwordChanged}`)
+    .setParameters({
+      passwordActions: [AuditAction.PASSWORD_CHANGED, AuditAction.PASSWORD_RESET],
+      success: AuditOutcome.SUCCESS,
+    })
+    .execute();
+
+  if (result.affected) {
+    logger.info('Accounts with emailed passwords must change them', { count: result.affected });
+  }
+}
+
+// Page of the frontend where the user picks a new password
+export function passwordResetUrl(token: string): string {
+  return `${env.FRONTEND_URL.replace(/\/$/, '')}/reset-password/${token}`;
+}
+
+/**
+ * Create a reset token for the user and return it. Only its hash is stored,
+ * and any earlier unused tokens of the user stop working.
+ */
+export async function createPasswordResetToken(user: User): Promise<string> {
+  const token = generateLinkToken();
+
+  await AppDataSource.transaction(async (manager) => {
+    await manager.update(
+      PasswordResetToken,
+      { userId: user.id, usedAt: IsNull() },
+      { usedAt: new Date() }
+    );
+    await manager.save(
+      manager.create(PasswordResetToken, {
+        userId: user.id,
+        tokenHash: hashLinkToken(token),
+        expiresAt: new Date(Date.now() + env.PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+        usedAt: null,
+      })
+    );
+  });
+
+  return token;
+}
+
+/**
+ * Set a new password with a reset token. The token is used up, the pending
+ * forced change is cleared and all of the user's sessions are revoked so
+ * every device has to log in again.
+ */
+export async function resetPassword(token: string, password: string): Promise<PasswordResetResult> {
+  const hashedPassword = await hashPassword(password);
+
+  return AppDataSource.transaction(async (manager) => {
+    const resetToken = await manager.findOne(PasswordResetToken, {
+      where: { tokenHash: hashLinkToken(token), usedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!resetToken) {
+      return { status: 'invalid' as const };
+    }
+
+    const user = await manager.findOne(User, { where: { id: resetToken.userId } });
+    if (!user) {
+      return { status: 'invalid' as const };
+    }
+
+    resetToken.usedAt = new Date();
+    await manager.save(resetToken);
+
+    user.password = hashedPassword;
+    user.mustChangePassword = false;
+    await manager.save(user);
+    await revokeUserSessions(user.id, SessionRevokeReason.PASSWORD_CHANGED, undefined, manager);
+
+    return { status: 'reset' as const, user };
+  });
+}
@@ -0,0 +1,139 @@
+import { IsNull } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import logger from '../config/logger';
+import { AuditAction, AuditLog } from '../entities/AuditLog';
+import { Role } from '../entities/Role';
+import { User, UserRole } from '../entities/User';
+
+export const PERMISSIONS = {
+  'event:create': 'Create events',
+  'event:view': 'View events the user has access to',
+  'event:update': 'Update own events and view their history',
+  'event:delete': 'Delete own events',
+  'event:manage-registration': 'Open and close pre-registration links of own events',
+  'event:manage-staff': 'Assign staff to own events',
+  'participant:search': 'Look up voters at the desk',
+  'participant:checkin': 'Check participants in and out (typed, scanned or synced)',
+  'participant:view': 'View participant listings, badges and the live feed',
+  'participant:export': 'Export attendance spreadsheets',
+  'report:view': 'View attendance analytics, dwell time and no-show reports',
+  'checkin:void': 'Void check-ins',
+  'voter:manage': 'Manage the voter cache and voter register imports',
+  'user:manage': 'Create, list and delete users',
+  'organisation:manage': 'Manage organisation units and user assignments to them',
+  'role:manage': 'Create and assign roles',
+  'audit:view': 'Search and export the audit log',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// Permissions of the built-in roles when first created
+const SYSTEM_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: ALL_PERMISSIONS,
+  [UserRole.USER]: [
+    'event:view',
+    'participant:search',
+    'participant:checkin',
+    'participant:view',
+    'participant:export',
+    'report:view',
+    'checkin:void',
+  ],
+};
+
+// How long resolved role permissions are cached in memory
+const CACHE_TTL_MS = 60 * 1000;
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && value in PERMISSIONS;
+}
+
+class PermissionService {
+  private cache = new Map<string, { permissions: Set<Permission>; expiresAt: number }>();
+
+  /**
+   * Create the built-in roles if missing and keep their permissions in sync
+   * with the code: they cannot be changed through the API, and new
+   * permissions reach admins on deploy.
+   */
+  async ensureSystemRoles(): Promise<void> {
+    const repository = AppDataSource.getRepository(Role);
+
+    for (const name of Object.values(UserRole)) {
+      const permissions = SYSTEM_ROLE_PERMISSIONS[name];
+      const existing = await repository.findOne({ where: { name } });
+      if (!existing) {
+        await repository.save(
+          repository.create({
+            name,
+            description: `Built-in role for ${name} accounts`,
+            permissions,
+            isSystem: true,
+            createdById: null,
+          })
+        );
+        logger.info('System role created', { role: name });
+      } else if (
+        !existing.isSystem ||
+        existing.permissions.length !== permissions.length ||
+        permissions.some((permission) => !existing.permissions.includes(permission))
+      ) {
+        existing.permissions = permissions;
+        existing.isSystem = true;
+        await repository.save(existing);
+        logger.info('System role permissions updated', { role: name });
+      }
+    }
+
+    await this.assignRoleOwners();
+    this.invalidate();
+  }
+
+  // Custom roles created before roles had owners get their creator from the audit log
+  private async assignRoleOwners(): Promise<void> {
+    const unowned = await AppDataSource.getRepository(Role).find({
+      where: { isSystem: false, createdById: IsNull() },
+    });
+
+    for (const role of unowned) {
+      const created = await AppDataSource.getRepository(AuditLog).findOne({
+        where: { action: AuditAction.ROLE_CREATED, targetType: 'role', targetId: role.id },
+      });
+      if (created?.actorId) {
+        await AppDataSource.getRepository(Role).update({ id: role.id }, { createdById: created.actorId });
+      } else {
+        logger.warn('Custom role has no known creator and cannot be changed', { roleId: role.id });
+      }
+    }
+  }
+
+  // Permissions granted to a user by their custom role, or their account type's built-in role
+  async getPermissions(user: User): Promise<Set<Permission>> {
+    const key = user.roleId || `system:${user.role}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.permissions;
+    }
+
+    const role = await AppDataSource.getRepository(Role).findOne({
+      where: user.roleId ? { id: user.roleId } : { name: user.role, isSystem: true },
+    });
+    const permissions = new Set((role?.permissions || []).filter(isPermission));
+
+    this.cache.set(key, { permissions, expiresAt: Date.now() + CACHE_TTL_MS });
+    return permissions;
+  }
+
+  async hasPermission(user: User, permission: Permission): Promise<boolean> {
+    return (await this.getPermissions(user)).has(permission);
+  }
+
+  // Drop cached permissions after roles change
+  invalidate(): void {
+    this.cache.clear();
+  }
+}
+
+export const permissionService = new PermissionService();
@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { AppDataSource } from '../config/database';
+import { env } from '../config/env';
+import { Event, EventStatus } from '../entities/Event';
+import { Participant, ParticipantStatus } from '../entities/Participant';
+import { eventLookupFilters, lookupVoter } from './voterLookup';
+
+export type RegistrationAvailability =
+  | { allowed: true }
+  | { allowed: false; code: 'REGISTRATION_CLOSED' | 'EVENT_NOT_OPEN' | 'EVENT_ENDED'; message: string };
+
+export type RegistrationResult =
+  | { status: 'registered'; participant: Participant }
+  | { status: 'already_registered' }
+  | { status: 'not_eligible' };
+
+// Random, URL-safe secret for an event's public registration link
+export function generateRegistrationToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+// Public URL voters open to pre-register for the event
+export function registrationUrl(token: string): string {
+  return `${env.FRONTEND_URL.replace(/\/$/, '')}/register/${token}`;
+}
+
+// Whether an event accepts pre-registrations right now
+export function getRegistrationAvailability(
+  event: Event,
+  at: Date = new Date()
+): RegistrationAvailability {
+  if (!event.registrationOpen) {
+    return {
+      allowed: false,
+      code: 'REGISTRATION_CLOSED',
+      message: 'Registration for this event is closed',
+    };
+  }
+
+  if (event.status === EventStatus.CLOSED || event.status === EventStatus.ARCHIVED) {
+    return {
+      allowed: false,
+      code: 'EVENT_NOT_OPEN',
+      message: `Event is ${event.status}`,
+    };
+  }
+
+  if (event.endDate && at > new Date(event.endDate)) {
+    return {
+      allowed: false,
+      code: 'EVENT_ENDED',
+      message: 'Event has already ended',
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Pre-register a voter for an event. The ID number is validated through the
+ * voter lookup against the event's county/constituency/ward, and the voter is
+ * stored as a participant in the "registered" state until they check in.
+ */
+export async function registerParticipant(
+  event: Event,
+  idNumber: string
+): Promise<RegistrationResult> {
+  const repository = AppDataSource.getRepository(Participant);
+
+  const existing = await repository.findOne({
+    where: { eventId: event.eventId, idNumber },
+  });
+  if (existing) {
+    return { status: 'already_registered' };
+  }
+
+  const voter = await lookupVoter(idNumber, eventLookupFilters(event), event.createdById);
+  if (!voter) {
+    return { status: 'not_eligible' };
+  }
+
+  const participant = await repository.save(
+    repository.create({
+      eventId: event.eventId,
+      idNumber: voter.idNumber,
+      name: voter.name,
+      dateOfBirth: new Date(voter.dateOfBirth),
+      sex: voter.sex,
+      county: voter.county || null,
+      constituency: voter.constituency || null,
+      ward: voter.ward || null,
+      pollingCenter: voter.pollingCenter || null,
+      status: ParticipantStatus.REGISTERED,
+      registeredAt: new Date(),
+    })
+  );
+
+  return { status: 'registered', participant };
+}
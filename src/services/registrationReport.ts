@@ -0,0 +1,86 @@
+import { AppDataSource } from '../config/database';
+import { CheckInLog } from '../entities/CheckInLog';
+import { Participant } from '../entities/Participant';
+import { DateRange, checkInDateCondition } from './reportRange';
+
+export interface RegistrationSummary {
+  registered: number; // Pre-registered participants
+  attended: number; // Pre-registered participants who checked in within the range
+  noShows: number;
+  walkIns: number; // Checked in within the range without pre-registering
+  attendanceRate: number | null; // attended / registered, as a percentage
+}
+
+export interface NoShowPage {
+  participants: Participant[];
+  total: number;
+}
+
+// SQL for "the participant has an active check-in within the range"
+function attendedCondition(range: DateRange): string {
+  return `EXISTS (SELECT 1 FROM check_in_logs attended WHERE attended.participantId = participant.id AND attended.voidedAt IS NULL${checkInDateCondition('attended', range)})`;
+}
+
+/**
+ * Pre-registered participants of an event with no active check-in within
+ * the range, i.e. who registered but did not turn up.
+ */
+export function noShowsQuery(eventId: string, range: DateRange) {
+  return AppDataSource.getRepository(Participant)
+    .createQueryBuilder('participant')
+    .where('participant.eventId = :eventId AND participant.registeredAt IS NOT NULL')
+    .andWhere(`NOT ${attendedCondition(range)}`)
+    .setParameters({ eventId, ...range });
+}
+
+// Pre-registration turnout for an event
+export async function getRegistrationSummary(
+  eventId: string,
+  range: DateRange
+): Promise<RegistrationSummary> {
+  const [row, walkIns] = await Promise.all([
+    AppDataSource.getRepository(Participant)
+      .createQueryBuilder('participant')
+      .select('COUNT(participant.id)', 'registered')
+      .addSelect(`COALESCE(SUM(${attendedCondition(range)}), 0)`, 'attended')
+      .where('participant.eventId = :eventId AND participant.registeredAt IS NOT NULL')
+      .setParameters({ eventId, ...range })
+      .getRawOne(),
+    AppDataSource.getRepository(CheckInLog)
+      .createQueryBuilder('log')
+      .innerJoin('log.participant', 'participant')
+      .select('COUNT(DISTINCT log.participantId)', 'walkIns')
+      .where(`log.eventId = :eventId AND log.voidedAt IS NULL${checkInDateCondition('log', range)}`)
+      .andWhere('participant.registeredAt IS NULL')
+      .setParameters({ eventId, ...range })
+      .getRawOne(),
+  ]);
+
+  const registered = Number(row?.registered || 0);
+  const attended = Number(row?.attended || 0);
+
+  return {
+    registered,
+    attended,
+    noShows: registered - attended,
+    walkIns: Number(walkIns?.walkIns || 0),
+    attendanceRate: registered > 0 ? Math.round((attended / registered) * 1000) / 10 : null,
+  };
+}
+
+// Pre-registered participants who did not attend, by name
+export async function listNoShows(
+  eventId: string,
+  range: DateRange,
+  limit: number,
+  offset: number
+): Promise<NoShowPage> {
+  const [participants, total] = await noShowsQuery(eventId, range)
+    .orderBy('participant.name', 'ASC')
+    .addOrderBy('participant.id', 'ASC')
+    .skip(offset)
+    .take(limit)
+    .getManyAndCount();
+
+  return { participants, total };
+}
@@ -0,0 +1,47 @@
+export interface DateRange {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Parse an optional from/to date range from a query string
+export function parseDateRange(query: Record<string, unknown>): {
+  range: DateRange;
+  error?: string;
+} {
+  const range: DateRange = {};
+
+  for (const key of ['from', 'to'] as const) {
+    const value = query[key];
+    if (value === undefined || value === '') {
+      continue;
+    }
+    if (
+      typeof value !== 'string' ||
+      !DATE_PATTERN.test(value) ||
+      isNaN(new Date(value).getTime())
+    ) {
+      return { range, error: `Invalid ${key} date format. Use YYYY-MM-DD` };
+    }
+    range[key] = value;
+  }
+
+  if (range.from && range.to && range.from > range.to) {
+    return { range, error: 'from date must be on or before to date' };
+  }
+
+  return { range };
+}
+
+// SQL condition restricting a check-in log alias to the range (uses :from and :to)
+export function checkInDateCondition(alias: string, range: DateRange): string {
+  const conditions: string[] = [];
+  if (range.from) {
+    conditions.push(`${alias}.checkInDate >= :from`);
+  }
+  if (range.to) {
+    conditions.push(`${alias}.checkInDate <= :to`);
+  }
+  return conditions.map((condition) => ` AND ${condition}`).join('');
+}
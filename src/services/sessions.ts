@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { EntityManager, IsNull, MoreThan, Not } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import logger from '../config/logger';
+import { User } from '../entities/User';
+import { SessionRevokeReason, UserSession } from '../entities/UserSession';
+import {
+  RefreshTokenPayload,
+  TokenPayload,
+  generateAccessToken,
+  generateRefreshToken,
+  verifyToken,
+} from '../utils/auth';
+
+// Concurrent refreshes (e.g. two tabs sharing the cookie) present the token that
+// was just rotated; within this window that is not treated as theft
+const REUSE_GRACE_MS = 10 * 1000;
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  session: UserSession;
+}
+
+export type RefreshResult =
+  | ({ status: 'rotated'; user: User } & SessionTokens)
+  | { status: 'invalid' }
+  | { status: 'superseded' } // Lost a concurrent refresh; the other response has the new token
+  | { status: 'reused'; session: UserSession }; // Rotated token replayed; the session was revoked
+
+function clientDetails(req: Request) {
+  return {
+    userAgent: req.get('user-agent')?.slice(0, 500) || null,
+    ipAddress: req.ip?.slice(0, 45) || null,
+  };
+}
+
+// Sign a new token pair for the session and record the refresh token's id
+function issueTokens(user: User, session: UserSession): Omit<SessionTokens, 'session'> {
+  const tokenPayload: TokenPayload = {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId: session.id,
+    tokenVersion: user.tokenVersion,
+  };
+  const tokenId = crypto.randomUUID();
+  const refreshToken = generateRefreshToken({ ...tokenPayload, sessionId: session.id, tokenId });
+  const { exp } = verifyToken(refreshToken) as RefreshTokenPayload;
+
+  session.tokenId = tokenId;
+  session.expiresAt = new Date((exp as number) * 1000);
+
+  return { accessToken: generateAccessToken(tokenPayload), refreshToken };
+}
+
+// Start a session for a user who just logged in or signed up
+export async function createSession(user: User, req: Request): Promise<SessionTokens> {
+  const repository = AppDataSource.getRepository(UserSession);
+  // Save first so the session id can go into the tokens
+  const session = await repository.save(
+    repository.create({
+      userId: user.id,
+      tokenId: crypto.randomUUID(),
+      previousTokenId: null,
+      rotatedAt: null,
+      ...clientDetails(req),
+      lastUsedAt: new Date(),
+      expiresAt: new Date(),
+      revokedAt: null,
+      revokedReason: null,
+    })
+  );
+
+  const tokens = issueTokens(user, session);
+  await repository.save(session);
+
+  return { ...tokens, session };
+}
+
+/**
+ * Exchange a refresh token for a new token pair, rotating the session's
+ * refresh token. Presenting a token that was already rotated means it was
+ * copied: the whole session is revoked so neither copy can be used again.
+ */
+export async function refreshSession(refreshToken: string, req: Request): Promise<RefreshResult> {
+  let payload: RefreshTokenPayload;
+  try {
+    payload = verifyToken(refreshToken) as RefreshTokenPayload;
+  } catch {
+    return { status: 'invalid' };
+  }
+  if (!payload.sessionId || !payload.tokenId) {
+    return { status: 'invalid' };
+  }
+
+  const result = await AppDataSource.transaction(async (manager) => {
+    const session = await manager.findOne(UserSession, {
+      where: { id: payload.sessionId, userId: payload.userId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!session || session.revokedAt) {
+      return { status: 'invalid' as const };
+    }
+
+    if (session.tokenId !== payload.tokenId) {
+      const withinGrace =
+        session.previousTokenId === payload.tokenId &&
+        session.rotatedAt !== null &&
+        Date.now() - session.rotatedAt.getTime() < REUSE_GRACE_MS;
+      if (withinGrace) {
+        return { status: 'superseded' as const };
+      }
+
+      session.revokedAt = new Date();
+      session.revokedReason = SessionRevokeReason.REUSE_DETECTED;
+      await manager.save(session);
+      return { status: 'reused' as const, session };
+    }
+
+    const user = await manager.findOne(User, { where: { id: session.userId } });
+    if (!user || !user.isActive || payload.tokenVersion !== user.tokenVersion) {
+      return { status: 'invalid' as const };
+    }
+
+    session.previousTokenId = session.tokenId;
+    session.rotatedAt = new Date();
+    session.lastUsedAt = new Date();
+    Object.assign(session, clientDetails(req));
+    const tokens = issueTokens(user, session);
+    await manager.save(session);
+
+    return { status: 'rotated' as const, user, session, ...tokens };
+  });
+
+  if (result.status === 'reused') {
+    logger.warn('Refresh token reuse detected; session revoked', {
+      sessionId: result.session.id,
+      userId: result.session.userId,
+      ip: req.ip,
+    });
+  }
+
+  return result;
+}
+
+// Whether a session has not been revoked; checked on every authenticated request
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const count = await AppDataSource.getRepository(UserSession).count({
+    where: { id: sessionId, userId, revokedAt: IsNull() },
+  });
+  return count > 0;
+}
+
+// Sessions of the user that can still be refreshed, most recently used first
+export function listActiveSessions(userId: string): Promise<UserSession[]> {
+  return AppDataSource.getRepository(UserSession).find({
+    where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+    order: { lastUsedAt: 'DESC' },
+  });
+}
+
+// Revoke one of the user's sessions; returns false if there is no such active session
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+  reason: SessionRevokeReason
+): Promise<boolean> {
+  const result = await AppDataSource.getRepository(UserSession).update(
+    { id: sessionId, userId, revokedAt: IsNull() },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  return (result.affected || 0) > 0;
+}
+
+/**
+ * Revoke all active sessions of the user, optionally keeping one (the
+ * caller's own). Pass a transaction's manager to revoke as part of it.
+ */
+export async function revokeUserSessions(
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string,
+  manager: EntityManager = AppDataSource.manager
+): Promise<number> {
+  const result = await manager.update(
+    UserSession,
+    {
+      userId,
+      revokedAt: IsNull(),
+      ...(exceptSessionId ? { id: Not(exceptSessionId) } : {}),
+    },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  return result.affected || 0;
+}
+
+/**
+ * Cut off all of a user's access at once: bumping the token version rejects
+ * every access and refresh token issued so far, and all sessions are revoked.
+ */
+export async function revokeUserAccess(user: User, reason: SessionRevokeReason): Promise<void> {
+  await AppDataSource.transaction(async (manager) => {
+    await manager.increment(User, { id: user.id }, 'tokenVersion', 1);
+    await revokeUserSessions(user.id, reason, undefined, manager);
+  });
+  user.tokenVersion += 1;
+}
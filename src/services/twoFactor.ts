@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { AppDataSource } from '../config/database';
+import { env } from '../config/env';
+import { User } from '../entities/User';
+import { hashLinkToken } from '../utils/auth';
+
+// RFC 6238 defaults understood by all authenticator apps
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Also accept the previous and next code, for clock drift
+
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const encryptionKey = crypto.createHash('sha256').update(env.TWO_FACTOR_ENCRYPTION_KEY).digest();
+
+export type SecondFactorResult =
+  | { valid: true; method: 'totp' | 'recovery_code'; recoveryCodesLeft: number }
+  | { valid: false };
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// HOTP value (RFC 4226) for a time step
+function generateCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+// Secrets are stored encrypted (AES-256-GCM) as iv.tag.ciphertext
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Matching time step of a TOTP code within the drift window, or null.
+ * Steps at or before lastStep are rejected so a code works only once.
+ */
+function matchTotpStep(secret: string, code: string, lastStep: number | null): number | null {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    if (lastStep !== null && step <= lastStep) {
+      continue;
+    }
+    const expected = generateCode(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+function normaliseRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[\s-]/g, '');
+}
+
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map((code) => hashLinkToken(normaliseRecoveryCode(code))) };
+}
+
+export function isTwoFactorEnabled(user: User): boolean {
+  return user.twoFactorEnabledAt !== null && user.twoFactorSecret !== null;
+}
+
+// Whether the user's admin requires them to use two-factor authentication
+export async function isTwoFactorRequired(user: User): Promise<boolean> {
+  if (!user.adminId) {
+    return false;
+  }
+  const admin = await AppDataSource.getRepository(User).findOne({
+    where: { id: user.adminId },
+    select: ['id', 'requireTwoFactorForUsers'],
+  });
+  return admin?.requireTwoFactorForUsers === true;
+}
+
+/**
+ * Start (or restart) enrolment with a new secret. Two-factor authentication
+ * is not active until a code from the authenticator app is confirmed.
+ */
+export async function startTwoFactorSetup(
+  user: User
+): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> {
+  const secret = base32Encode(crypto.randomBytes(20));
+
+  user.twoFactorSecret = encryptSecret(secret);
+  user.twoFactorEnabledAt = null;
+  user.twoFactorRecoveryCodes = null;
+  user.twoFactorLastStep = null;
+  await AppDataSource.getRepository(User).save(user);
+
+  const issuer = env.TWO_FACTOR_ISSUER;
+  const label = encodeURIComponent(`${issuer}:${user.email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  const otpauthUrl = `otpauth://totp/${label}?${params.toString()}`;
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { errorCorrectionLevel: 'M', margin: 1 });
+
+  return { secret, otpauthUrl, qrCode };
+}
+
+// Confirm enrolment with a code from the app; returns the recovery codes, or null for a wrong code
+export async function confirmTwoFactorSetup(user: User, code: string): Promise<string[] | null> {
+  if (!user.twoFactorSecret || user.twoFactorEnabledAt) {
+    return null;
+  }
+
+  const step = matchTotpStep(decryptSecret(user.twoFactorSecret), code, null);
+  if (step === null) {
+    return null;
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  user.twoFactorEnabledAt = new Date();
+  user.twoFactorRecoveryCodes = hashes;
+  user.twoFactorLastStep = String(step);
+  await AppDataSource.getRepository(User).save(user);
+
+  return codes;
+}
+
+/**
+ * Check a second factor: a TOTP code, or one of the recovery codes (which is
+ * then used up). Runs in a transaction with the user row locked so the same
+ * code cannot be accepted twice by concurrent requests.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  input: { code?: string; recoveryCode?: string }
+): Promise<SecondFactorResult> {
+  return AppDataSource.transaction(async (manager) => {
+    const user = await manager.findOne(User, {
+      where: { id: userId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!user || !isTwoFactorEnabled(user)) {
+      return { valid: false as const };
+    }
+
+    const recoveryCodes = user.twoFactorRecoveryCodes || [];
+
+    if (input.code) {
+      const lastStep = user.twoFactorLastStep === null ? null : Number(user.twoFactorLastStep);
+      const step = matchTotpStep(decryptSecret(user.twoFactorSecret!), input.code.trim(), lastStep);
+      if (step === null) {
+        return { valid: false as const };
+      }
+      user.twoFactorLastStep = String(step);
+      await manager.save(user);
+      return { valid: true as const, method: 'totp' as const, recoveryCodesLeft: recoveryCodes.length };
+    }
+
+    if (input.recoveryCode) {
+      const hash = hashLinkToken(normaliseRecoveryCode(input.recoveryCode));
+      if (!recoveryCodes.includes(hash)) {
+        return { valid: false as const };
+      }
+      user.twoFactorRecoveryCodes = recoveryCodes.filter((candidate) => candidate !== hash);
+      await manager.save(user);
+      return {
+        valid: true as const,
+        method: 'recovery_code' as const,
+        recoveryCodesLeft: user.twoFactorRecoveryCodes.length,
+      };
+    }
+
+    return { valid: false as const };
+  });
+}
+
+// Replace the recovery codes; the old ones stop working
+export async function regenerateRecoveryCodes(user: User): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  // Only the codes are written: the user was loaded before the code check,
+  // which has since moved twoFactorLastStep on
+  await AppDataSource.getRepository(User).update({ id: user.id }, { twoFactorRecoveryCodes: hashes });
+  user.twoFactorRecoveryCodes = hashes;
+  return codes;
+}
+
+// Turn two-factor authentication off and forget the secret
+export async function disableTwoFactor(user: User): Promise<void> {
+  const changes = {
+    twoFactorSecret: null,
+    twoFactorEnabledAt: null,
+    twoFactorRecoveryCodes: null,
+    twoFactorLastStep: null,
+  };
+  await AppDataSource.getRepository(User).update({ id: user.id }, changes);
+  Object.assign(user, changes);
+}
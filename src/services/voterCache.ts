@@ -0,0 +1,123 @@
+import { LessThan } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { env } from '../config/env';
+import logger from '../config/logger';
+import { CachedVoter } from '../entities/CachedVoter';
+import type { FormattedVoterInfo } from './voterLookup';
+
+export interface VoterCacheStats {
+  since: Date;
+  hits: number;
+  misses: number;
+  staleHits: number;
+  upstreamFailures: number;
+  hitRate: number;
+}
+
+class VoterCacheService {
+  private since = new Date();
+  private hits = 0;
+  private misses = 0;
+  private staleHits = 0;
+  private upstreamFailures = 0;
+
+  private get repository() {
+    return AppDataSource.getRepository(CachedVoter);
+  }
+
+  private ttlMs(): number {
+    return env.VOTER_CACHE_TTL_HOURS * 60 * 60 * 1000;
+  }
+
+  toVoterInfo(record: CachedVoter): FormattedVoterInfo {
+    return {
+      idNumber: record.idNumber,
+      name: record.name,
+      dateOfBirth: record.dateOfBirth,
+      sex: record.sex,
+      county: record.county,
+      constituency: record.constituency,
+      ward: record.ward,
+      pollingCenter: record.pollingCenter,
+    };
+  }
+
+  isFresh(record: CachedVoter, at: Date = new Date()): boolean {
+    return record.expiresAt > at;
+  }
+
+  async find(idNumber: string): Promise<CachedVoter | null> {
+    return this.repository.findOne({ where: { idNumber } });
+  }
+
+  async store(voter: FormattedVoterInfo): Promise<void> {
+    const now = new Date();
+    try {
+      const existing = await this.find(voter.idNumber);
+      const record = existing || this.repository.create({ idNumber: voter.idNumber });
+      Object.assign(record, voter, {
+        fetchedAt: now,
+        expiresAt: new Date(now.getTime() + this.ttlMs()),
+      });
+      await this.repository.save(record);
+    } catch (error) {
+      // Caching must never break a lookup that already succeeded
+      logger.warn('Failed to cache voter record:', {
+        error: error instanceof Error ? error.message : String(error),
+        idNumber: voter.idNumber,
+      });
+    }
+  }
+
+  async recordHit(record: CachedVoter, stale: boolean): Promise<void> {
+    if (stale) {
+      this.staleHits++;
+    } else {
+      this.hits++;
+    }
+    await this.repository.increment({ id: record.id }, 'hitCount', 1);
+    await this.repository.update({ id: record.id }, { lastHitAt: new Date() });
+  }
+
+  recordMiss(): void {
+    this.misses++;
+  }
+
+  recordUpstreamFailure(): void {
+    this.upstreamFailures++;
+  }
+
+  getStats(): VoterCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      since: this.since,
+      hits: this.hits,
+      misses: this.misses,
+      staleHits: this.staleHits,
+      upstreamFailures: this.upstreamFailures,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+
+  async countEntries(): Promise<{ total: number; expired: number }> {
+    const [total, expired] = await Promise.all([
+      this.repository.count(),
+      this.repository.count({ where: { expiresAt: LessThan(new Date()) } }),
+    ]);
+    return { total, expired };
+  }
+
+  async purge(idNumber?: string): Promise<number> {
+    const result = idNumber
+      ? await this.repository.delete({ idNumber })
+      : await this.repository.createQueryBuilder().delete().execute();
+    return result.affected || 0;
+  }
+
+  async purgeExpired(): Promise<number> {
+    const result = await this.repository.delete({ expiresAt: LessThan(new Date()) });
+    return result.affected || 0;
+  }
+}
+
+export const voterCache = new VoterCacheService();
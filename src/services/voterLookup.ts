@@ -1,13 +1,46 @@
 import { env } from '../config/env';
 import logger from '../config/logger';
+import { CachedVoter } from '../entities/CachedVoter';
+import { Event } from '../entities/Event';
+import { voterCache } from './voterCache';
+import { findRegisteredVoter } from './voterRegister';
 
-interface VoterLookupFilters {
+export interface VoterLookupFilters {
   county?: string;
   constituency?: string;
   ward?: string;
 }
 
-interface RegisteredVoter {
+// Lookup filters from an event's location (all optional - only include if available)
+export function eventLookupFilters(event: Event): VoterLookupFilters {
+  const filters: VoterLookupFilters = {};
+
+  if (event.county) {
+    filters.county = event.county;
+  }
+  if (event.constituency) {
+    filters.constituency = event.constituency;
+  }
+  if (event.ward) {
+    filters.ward = event.ward;
+  }
+
+  return filters;
+}
+
+export const SEX_VALUES = ['Male', 'Female'];
+
+// Male or Female for any casing of either, or M / F; null for anything else
+export function normaliseSex(value: string): string | null {
+  const trimmed = value.trim();
+  return (
+    SEX_VALUES.find(
+      (option) => option.toLowerCase() === trimmed.toLowerCase() || option[0] === trimmed.toUpperCase()
+    ) || null
+  );
+}
+
+export interface RegisteredVoter {
   id_or_passport_number: string;
   first_name: string | null;
   middle_name: string | null;
@@ -40,7 +73,50 @@ export interface FormattedVoterInfo {
   pollingCenter: string;
 }
 
-export const lookupVoter = async (
+// Convert a register record to the shape used by the API and check-in flow;
+// sex is normalised so the result passes check-in validation
+export const formatRegisteredVoter = (
+  registeredVoter: RegisteredVoter
+): FormattedVoterInfo => {
+  // Concatenate name fields, handling null values
+  const nameParts: string[] = [];
+  if (registeredVoter.first_name) {
+    nameParts.push(registeredVoter.first_name);
+  }
+  if (registeredVoter.middle_name) {
+    nameParts.push(registeredVoter.middle_name);
+  }
+  if (registeredVoter.surname) {
+    nameParts.push(registeredVoter.surname);
+  }
+  const fullName = nameParts.join(' ').trim();
+
+  return {
+    idNumber: registeredVoter.id_or_passport_number,
+    name: fullName,
+    dateOfBirth: registeredVoter.date_of_birth,
+    sex: normaliseSex(registeredVoter.sex) || registeredVoter.sex,
+    county: registeredVoter.county,
+    constituency: registeredVoter.constituency,
+    ward: registeredVoter.ward,
+    pollingCenter: registeredVoter.polling_center,
+  };
+};
+
+// Records cached before sex was normalised may still hold other spellings
+function cachedVoterInfo(record: CachedVoter): FormattedVoterInfo {
+  const voter = voterCache.toVoterInfo(record);
+  return { ...voter, sex: normaliseSex(voter.sex) || voter.sex };
+}
+
+export type VoterLookupSource = 'register' | 'cache' | 'api' | 'stale-cache';
+
+export interface VoterLookupResult {
+  voter: FormattedVoterInfo | null;
+  source: VoterLookupSource;
+}
+
+const fetchVoterFromApi = async (
   idNumber: string,
   filters: VoterLookupFilters
 ): Promise<FormattedVoterInfo | null> => {
@@ -83,29 +159,7 @@ export const lookupVoter = async (
       return null;
     }
 
-    // Concatenate name fields, handling null values
-    const nameParts: string[] = [];
-    if (registeredVoters.first_name) {
-      nameParts.push(registeredVoters.first_name);
-    }
-    if (registeredVoters.middle_name) {
-      nameParts.push(registeredVoters.middle_name);
-    }
-    if (registeredVoters.surname) {
-      nameParts.push(registeredVoters.surname);
-    }
-    const fullName = nameParts.join(' ').trim();
-
-    return {
-      idNumber: registeredVoters.id_or_passport_number,
-      name: fullName,
-      dateOfBirth: registeredVoters.date_of_birth,
-      sex: registeredVoters.sex,
-      county: registeredVoters.county,
-      constituency: registeredVoters.constituency,
-      ward: registeredVoters.ward,
-      pollingCenter: registeredVoters.polling_center,
-    };
+    return formatRegisteredVoter(registeredVoters);
   } catch (error) {
     logger.error('Error looking up voter:', {
       error: error instanceof Error ? error.message : String(error),
@@ -117,3 +171,80 @@ export const lookupVoter = async (
   }
 };
 
+// Check a voter record against event filters (case-insensitive exact match)
+const matchesFilters = (
+  voter: FormattedVoterInfo,
+  filters: VoterLookupFilters
+): boolean => {
+  const same = (a: string, b: string) =>
+    a.trim().toLowerCase() === b.trim().toLowerCase();
+
+  return (
+    (!filters.county || same(voter.county, filters.county)) &&
+    (!filters.constituency || same(voter.constituency, filters.constituency)) &&
+    (!filters.ward || same(voter.ward, filters.ward))
+  );
+};
+
+/**
+ * Resolve a voter through the admin's imported register and the local cache
+ * first, falling back to the external API. Records fetched from the API are
+ * cached; when the API fails, an expired cache record is served instead of
+ * failing the lookup.
+ */
+export const resolveVoter = async (
+  idNumber: string,
+  filters: VoterLookupFilters,
+  adminId?: string
+): Promise<VoterLookupResult> => {
+  if (adminId) {
+    const registered = await findRegisteredVoter(adminId, idNumber);
+    if (registered) {
+      return {
+        voter: matchesFilters(registered, filters) ? registered : null,
+        source: 'register',
+      };
+    }
+  }
+
+  const cached = await voterCache.find(idNumber);
+
+  if (cached && voterCache.isFresh(cached)) {
+    await voterCache.recordHit(cached, false);
+    const voter = cachedVoterInfo(cached);
+    return { voter: matchesFilters(voter, filters) ? voter : null, source: 'cache' };
+  }
+
+  voterCache.recordMiss();
+
+  try {
+    const voter = await fetchVoterFromApi(idNumber, filters);
+    if (voter) {
+      await voterCache.store(voter);
+    }
+    return { voter, source: 'api' };
+  } catch (error) {
+    voterCache.recordUpstreamFailure();
+
+    if (!cached) {
+      throw error;
+    }
+
+    logger.warn('Voter lookup API unavailable, serving stale cache record', {
+      idNumber,
+      fetchedAt: cached.fetchedAt,
+    });
+    await voterCache.recordHit(cached, true);
+    const voter = cachedVoterInfo(cached);
+    return { voter: matchesFilters(voter, filters) ? voter : null, source: 'stale-cache' };
+  }
+};
+
+export const lookupVoter = async (
+  idNumber: string,
+  filters: VoterLookupFilters,
+  adminId?: string
+): Promise<FormattedVoterInfo | null> => {
+  const { voter } = await resolveVoter(idNumber, filters, adminId);
+  return voter;
+};
@@ -0,0 +1,229 @@
+import { Readable } from 'stream';
+import { parse } from 'csv-parse';
+import { AppDataSource } from '../config/database';
+import { VoterRegisterEntry } from '../entities/VoterRegisterEntry';
+import {
+  FormattedVoterInfo,
+  RegisteredVoter,
+  SEX_VALUES,
+  formatRegisteredVoter,
+  normaliseSex,
+} from './voterLookup';
+
+// Columns every register extract must contain (same names as RegisteredVoter)
+const REQUIRED_COLUMNS = [
+  'id_or_passport_number',
+  'first_name',
+  'middle_name',
+  'surname',
+  'date_of_birth',
+  'sex',
+  'county',
+  'constituency',
+  'ward',
+  'polling_center',
+];
+
+// Rows written to the database per upsert
+const BATCH_SIZE = 500;
+
+// Row-level errors returned in the import response
+const MAX_REPORTED_ERRORS = 100;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class RegisterImportError extends Error {}
+
+export interface RegisterRowError {
+  row: number; // 1-based data row, excluding the header
+  idNumber: string | null;
+  errors: string[];
+}
+
+export interface RegisterImportSummary {
+  totalRows: number;
+  imported: number;
+  failed: number;
+  errors: RegisterRowError[];
+  errorsTruncated: boolean;
+}
+
+function normaliseHeader(header: string[]): string[] {
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new RegisterImportError(`Missing required columns: ${missing.join(', ')}`);
+  }
+  return columns;
+}
+
+// Validate a CSV row against the RegisteredVoter shape
+function validateRow(record: Record<string, string>): {
+  voter?: RegisteredVoter;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const value = (column: string) => (record[column] || '').trim();
+  const optional = (column: string) => value(column) || null;
+
+  const idNumber = value('id_or_passport_number');
+  if (!idNumber) {
+    errors.push('id_or_passport_number is required');
+  } else if (idNumber.length > 50 || !/^[A-Za-z0-9]+$/.test(idNumber)) {
+    errors.push('id_or_passport_number must be alphanumeric (max 50 characters)');
+  }
+
+  if (!value('first_name') && !value('middle_name') && !value('surname')) {
+    errors.push('at least one of first_name, middle_name or surname is required');
+  }
+
+  const dateOfBirth = value('date_of_birth');
+  if (!DATE_PATTERN.test(dateOfBirth) || isNaN(new Date(dateOfBirth).getTime())) {
+    errors.push('date_of_birth must be a valid date in YYYY-MM-DD format');
+  }
+
+  // Stored as Male or Female, the only values check-ins accept
+  const sex = normaliseSex(value('sex')) || '';
+  if (!sex) {
+    errors.push(`sex must be one of: ${SEX_VALUES.join(', ')} (M and F are accepted)`);
+  }
+
+  for (const column of ['county', 'constituency', 'ward', 'polling_center']) {
+    if (!value(column)) {
+      errors.push(`${column} is required`);
+    } else if (value(column).length > 255) {
+      errors.push(`${column} must be at most 255 characters`);
+    }
+  }
+
+  if (value('stream').length > 50) {
+    errors.push('stream must be at most 50 characters');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    errors,
+    voter: {
+      id_or_passport_number: idNumber,
+      first_name: optional('first_name'),
+      middle_name: optional('middle_name'),
+      surname: optional('surname'),
+      date_of_birth: dateOfBirth,
+      sex,
+      county: value('county'),
+      constituency: value('constituency'),
+      ward: value('ward'),
+      polling_center: value('polling_center'),
+      stream: value('stream') || undefined,
+    },
+  };
+}
+
+/**
+ * Stream a voter register CSV into the admin's local register. Rows are
+ * validated individually and upserted in batches, so a large extract is
+ * never held in memory and a bad row does not abort the import.
+ */
+export async function importVoterRegister(
+  adminId: string,
+  input: Readable
+): Promise<RegisterImportSummary> {
+  const repository = AppDataSource.getRepository(VoterRegisterEntry);
+  const summary: RegisterImportSummary = {
+    totalRows: 0,
+    imported: 0,
+    failed: 0,
+    errors: [],
+    errorsTruncated: false,
+  };
+  let batch: Partial<VoterRegisterEntry>[] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) {
+      return;
+    }
+    await repository.upsert(batch, ['adminId', 'idNumber']);
+    summary.imported += batch.length;
+    batch = [];
+  };
+
+  const parser = input.pipe(
+    parse({
+      columns: normaliseHeader,
+      bom: true,
+      skip_empty_lines: true,
+      trim: true,
+      relax_column_count: true,
+    })
+  );
+
+  try {
+    for await (const record of parser as AsyncIterable<Record<string, string>>) {
+      summary.totalRows++;
+      const { voter, errors } = validateRow(record);
+
+      if (!voter) {
+        summary.failed++;
+        if (summary.errors.length < MAX_REPORTED_ERRORS) {
+          summary.errors.push({
+            row: summary.totalRows,
+            idNumber: record.id_or_passport_number || null,
+            errors,
+          });
+        } else {
+          summary.errorsTruncated = true;
+        }
+        continue;
+      }
+
+      batch.push({
+        adminId,
+        ...formatRegisteredVoter(voter),
+        stream: voter.stream || null,
+      });
+
+      if (batch.length >= BATCH_SIZE) {
+        await flush();
+      }
+    }
+  } catch (error) {
+    // Header errors surface through the parser; keep their type
+    if (error instanceof RegisterImportError) {
+      throw error;
+    }
+    if ((error as { code?: string }).code?.startsWith('CSV_')) {
+      throw new RegisterImportError(`Malformed CSV: ${(error as Error).message}`);
+    }
+    throw error;
+  }
+
+  await flush();
+  return summary;
+}
+
+export async function findRegisteredVoter(
+  adminId: string,
+  idNumber: string
+): Promise<FormattedVoterInfo | null> {
+  const entry = await AppDataSource.getRepository(VoterRegisterEntry).findOne({
+    where: { adminId, idNumber },
+  });
+
+  if (!entry) {
+    return null;
+  }
+
+  return {
+    idNumber: entry.idNumber,
+    name: entry.name,
+    dateOfBirth: entry.dateOfBirth,
+    sex: normaliseSex(entry.sex) || entry.sex,
+    county: entry.county,
+    constituency: entry.constituency,
+    ward: entry.ward,
+    pollingCenter: entry.pollingCenter,
+  };
+}
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { env } from '../config/env';
@@ -10,6 +11,15 @@ export interface TokenPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId?: string; // Session the token was issued for
+  tokenVersion?: number; // User's tokenVersion when issued
+}
+
+// Refresh tokens are bound to a session; tokenId changes on every rotation
+export interface RefreshTokenPayload extends TokenPayload {
+  sessionId: string;
+  tokenId: string;
+  exp?: number;
 }
 
 export const generateAccessToken = (payload: TokenPayload): string => {
@@ -18,7 +28,7 @@ export const generateAccessToken = (payload: TokenPayload): string => {
   });
 };
 
-export const generateRefreshToken = (payload: TokenPayload): string => {
+export const generateRefreshToken = (payload: RefreshTokenPayload): string => {
   return jwt.sign(payload, JWT_SECRET, {
     expiresIn: REFRESH_TOKEN_EXPIRY,
   });
@@ -28,10 +38,44 @@ export const verifyToken = (token: string): TokenPayload => {
   return jwt.verify(token, JWT_SECRET) as TokenPayload;
 };
 
+// Short-lived proof that the password was correct, exchanged for tokens
+// once the second factor is verified. It carries no session, so it is not
+// accepted as an access token.
+const TWO_FACTOR_CHALLENGE_AUDIENCE = 'two-factor-challenge';
+const TWO_FACTOR_CHALLENGE_EXPIRY = '5m';
+
+export interface TwoFactorChallengePayload {
+  userId: string;
+  tokenVersion: number;
+}
+
+export const generateTwoFactorChallengeToken = (payload: TwoFactorChallengePayload): string => {
+  return jwt.sign(payload, JWT_SECRET, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY,
+    audience: TWO_FACTOR_CHALLENGE_AUDIENCE,
+  });
+};
+
+export const verifyTwoFactorChallengeToken = (token: string): TwoFactorChallengePayload => {
+  return jwt.verify(token, JWT_SECRET, {
+    audience: TWO_FACTOR_CHALLENGE_AUDIENCE,
+  }) as TwoFactorChallengePayload;
+};
+
 export const hashPassword = async (password: string): Promise<string> => {
   return bcrypt.hash(password, 10);
 };
 
+// Random URL-safe secret for emailed links (password resets, invitations)
+export const generateLinkToken = (): string => {
+  return crypto.randomBytes(32).toString('base64url');
+};
+
+// Emailed link tokens are stored as SHA-256 hashes
+export const hashLinkToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
 export const comparePassword = async (
   password: string,
   hashedPassword: string
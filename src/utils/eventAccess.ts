@@ -0,0 +1,145 @@
+import { Brackets, SelectQueryBuilder } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Event } from '../entities/Event';
+import { User } from '../entities/User';
+import { OrganisationUnit } from '../entities/OrganisationUnit';
+import { EventStaffAssignment, EventStaffRole } from '../entities/EventStaffAssignment';
+
+// Shared event access policy (on top of the route's required permission):
+// - the user who created an event can do everything on it;
+// - users assigned to the event as staff can do what their role allows,
+//   while the assignment is active (see STAFF_ROLE_ACTIONS);
+// - users who coordinate an organisation unit can view and report on events
+//   of that unit and its descendants (national > county > constituency > ward).
+
+// What a user wants to do on an event
+//   view:      event details, participant listings, live feed and reports
+//   checkin:   voter search, check-in/out (typed, scanned or synced), voiding own check-ins
+//   supervise: voiding check-ins recorded by other staff
+export type EventAction = 'view' | 'checkin' | 'supervise';
+
+export const STAFF_ROLE_ACTIONS: Record<EventStaffRole, EventAction[]> = {
+  [EventStaffRole.VIEWER]: ['view'],
+  [EventStaffRole.REGISTRAR]: ['view', 'checkin'],
+  [EventStaffRole.SUPERVISOR]: ['view', 'checkin', 'supervise'],
+};
+
+// Organisation unit of the user, if any
+export async function findUserUnit(user: User): Promise<OrganisationUnit | null> {
+  if (!user.organisationUnitId) {
+    return null;
+  }
+  return AppDataSource.getRepository(OrganisationUnit).findOne({
+    where: { id: user.organisationUnitId },
+  });
+}
+
+// Whether a unit is the user's own unit or one of its descendants
+export async function isUnitInScope(user: User, unitId: string): Promise<boolean> {
+  if (!user.organisationUnitId) {
+    return false;
+  }
+
+  const match = await AppDataSource.getRepository(OrganisationUnit)
+    .createQueryBuilder('unit')
+    .innerJoin(OrganisationUnit, 'scope', 'scope.id = :scopeId', {
+      scopeId: user.organisationUnitId,
+    })
+    .where('unit.id = :unitId', { unitId })
+    .andWhere("unit.path LIKE CONCAT(scope.path, '%')")
+    .getCount();
+
+  return match > 0;
+}
+
+// Whether a unit is strictly below the user's own unit
+export async function isUnitBelowScope(user: User, unitId: string): Promise<boolean> {
+  if (!user.organisationUnitId || user.organisationUnitId === unitId) {
+    return false;
+  }
+  return isUnitInScope(user, unitId);
+}
+
+// Whether an admin manages another user: one they created, or one placed below their unit
+export async function managesUser(admin: User, target: User): Promise<boolean> {
+  if (target.id === admin.id) {
+    return false;
+  }
+  if (target.adminId === admin.id) {
+    return true;
+  }
+  return target.organisationUnitId !== null && isUnitBelowScope(admin, target.organisationUnitId);
+}
+
+// SQL condition for an assignment (aliased) being active at :at
+function activeAssignmentCondition(alias: string): string {
+  return `(${alias}.startsAt IS NULL OR ${alias}.startsAt <= :at) AND (${alias}.endsAt IS NULL OR ${alias}.endsAt > :at)`;
+}
+
+// The user's staff assignment to an event, if active at the given moment
+export async function findActiveAssignment(
+  eventId: string,
+  userId: string,
+  at: Date = new Date()
+): Promise<EventStaffAssignment | null> {
+  return AppDataSource.getRepository(EventStaffAssignment)
+    .createQueryBuilder('assignment')
+    .where('assignment.eventId = :eventId AND assignment.userId = :userId', { eventId, userId })
+    .andWhere(activeAssignmentCondition('assignment'), { at })
+    .getOne();
+}
+
+function isEventOwner(event: Event, user: User): boolean {
+  return event.createdById === user.id;
+}
+
+/**
+ * Check whether a user can perform an action on an event. `at` is the moment
+ * the action happened, used for time-bounded staff assignments (offline
+ * check-ins are checked against their original time).
+ */
+export async function checkEventAccess(
+  event: Event,
+  user: User,
+  action: EventAction = 'view',
+  at: Date = new Date()
+): Promise<boolean> {
+  if (isEventOwner(event, user)) {
+    return true;
+  }
+
+  const assignment = await findActiveAssignment(event.eventId, user.id, at);
+  if (assignment && STAFF_ROLE_ACTIONS[assignment.role].includes(action)) {
+    return true;
+  }
+
+  if (action === 'view' && event.organisationUnitId) {
+    return isUnitInScope(user, event.organisationUnitId);
+  }
+  return false;
+}
+
+/**
+ * Query for the events a user can view, aliased as "event" with the
+ * organisation unit joined as "unit": events they created, events
+ * they are actively assigned to, and events within their organisation unit.
+ */
+export async function accessibleEventsQuery(user: User): Promise<SelectQueryBuilder<Event>> {
+  const unit = await findUserUnit(user);
+
+  return AppDataSource.getRepository(Event)
+    .createQueryBuilder('event')
+    .leftJoinAndSelect('event.organisationUnit', 'unit')
+    .where(
+      new Brackets((qb) => {
+        qb.orWhere('event.createdById = :ownerId', { ownerId: user.id });
+        qb.orWhere(
+          `EXISTS (SELECT 1 FROM event_staff assignment WHERE assignment.eventId = event.eventId AND assignment.userId = :staffUserId AND ${activeAssignmentCondition('assignment')})`,
+          { staffUserId: user.id, at: new Date() }
+        );
+        if (unit) {
+          qb.orWhere('unit.path LIKE :unitPath', { unitPath: `${unit.path}%` });
+        }
+      })
+    );
+}
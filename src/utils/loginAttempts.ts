@@ -0,0 +1,105 @@
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import { AuditAction, AuditOutcome } from '../entities/AuditLog';
+import { User } from '../entities/User';
+import { auditLog } from '../services/auditLog';
+import { emailService } from '../services/email';
+import { loginThrottle } from '../services/loginThrottle';
+
+// Client IP used for login throttling
+export function clientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || 'unknown';
+}
+
+// A login attempt reserved with the throttle; settled once, as a failure, a success or a release
+export interface LoginAttempt {
+  email?: string;
+  settled: boolean;
+}
+
+// Reserve an attempt for the IP (and account); replies 429 and returns null if it has too many recent failures
+export async function reserveLoginAttempt(req: Request, res: Response, email?: string): Promise<LoginAttempt | null> {
+  const check = await loginThrottle.reserve(clientIp(req), email);
+  if (check.allowed) {
+    return { email, settled: false };
+  }
+
+  res.set('Retry-After', String(check.retryAfterSeconds));
+  res.status(429).json(
+    check.scope === 'account' && check.reason === 'locked'
+      ? {
+          message: 'This account is temporarily locked after too many failed login attempts',
+          code: 'ACCOUNT_LOCKED',
+          retryAfter: check.retryAfterSeconds,
+        }
+      : {
+          message: 'Too many failed attempts. Please wait before trying again.',
+          code: 'TOO_MANY_ATTEMPTS',
+          retryAfter: check.retryAfterSeconds,
+        }
+  );
+  return null;
+}
+
+// The attempt passed: clear the account's failures
+export async function recordLoginSuccess(req: Request, attempt: LoginAttempt): Promise<void> {
+  if (attempt.settled) {
+    return;
+  }
+  attempt.settled = true;
+  await loginThrottle.recordSuccess(clientIp(req), attempt.email);
+}
+
+// The attempt ended without a verdict (two-factor challenge, deactivated account, error)
+export async function releaseLoginAttempt(req: Request, attempt: LoginAttempt): Promise<void> {
+  if (attempt.settled) {
+    return;
+  }
+  attempt.settled = true;
+  try {
+    await loginThrottle.release(clientIp(req), attempt.email);
+  } catch (error) {
+    logger.warn('Failed to release login attempt', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+export type LoginFailureReason = 'unknown_email' | 'wrong_password' | 'wrong_two_factor_code' | 'email_taken';
+
+// Record a failed attempt; tell the account owner if it locked their account
+export async function recordLoginFailure(
+  req: Request,
+  attempt: LoginAttempt,
+  reason: LoginFailureReason,
+  user?: User | null
+): Promise<void> {
+  const ip = clientIp(req);
+  const { email } = attempt;
+  attempt.settled = true;
+  const { accountLockedUntil } = await loginThrottle.recordFailure(ip, email);
+
+  auditLog.record(req, {
+    action: reason === 'email_taken' ? AuditAction.SIGNUP : AuditAction.LOGIN_FAILED,
+    outcome: AuditOutcome.FAILURE,
+    actor: user || null,
+    actorEmail: email,
+    target: user ? { type: 'user', id: user.id } : null,
+    metadata: { reason },
+  });
+
+  if (accountLockedUntil) {
+    logger.warn('Account locked after failed login attempts', { email, ip, lockedUntil: accountLockedUntil });
+    auditLog.record(req, {
+      action: AuditAction.ACCOUNT_LOCKED,
+      actor: user || null,
+      actorEmail: email,
+      target: user ? { type: 'user', id: user.id } : null,
+      metadata: { lockedUntil: accountLockedUntil },
+    });
+    // Not awaited, so the response time does not reveal whether the account exists
+    if (user) {
+      void emailService.sendAccountLocked(user.email, user.name, accountLockedUntil, ip);
+    }
+  }
+}
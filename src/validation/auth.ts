@@ -0,0 +1,137 @@
+import Joi from 'joi';
+import { InvitationStatus } from '../entities/UserInvitation';
+import { email, newPassword, uuid } from './common';
+
+export const signupSchema = {
+  body: Joi.object({
+    name: Joi.string().trim().max(255).required(),
+    email: email().required(),
+    password: newPassword().required(),
+  }),
+};
+
+export const loginSchema = {
+  body: Joi.object({
+    email: email().required(),
+    password: Joi.string().max(1024).required(),
+  }),
+};
+
+export const twoFactorLoginSchema = {
+  body: Joi.object({
+    challengeToken: Joi.string().required(),
+    code: Joi.string().trim().max(16),
+    recoveryCode: Joi.string().trim().max(64),
+  })
+    .or('code', 'recoveryCode')
+    .messages({ 'object.missing': 'A code or recovery code is required' }),
+};
+
+export const sessionParamsSchema = {
+  params: Joi.object({
+    sessionId: uuid().required(),
+  }),
+};
+
+export const forgotPasswordSchema = {
+  body: Joi.object({
+    email: email().required(),
+  }),
+};
+
+export const resetPasswordSchema = {
+  body: Joi.object({
+    token: Joi.string().trim().max(255).required(),
+    password: newPassword().required(),
+  }),
+};
+
+export const changePasswordSchema = {
+  body: Joi.object({
+    currentPassword: Joi.string().max(1024).required(),
+    newPassword: newPassword().required(),
+  }),
+};
+
+export const lockoutParamsSchema = {
+  params: Joi.object({
+    scope: Joi.string().valid('accounts', 'ips').required(),
+    identifier: Joi.string().max(255).required(),
+  }),
+};
+
+export const twoFactorRequirementSchema = {
+  body: Joi.object({
+    required: Joi.boolean().strict().required(),
+  }),
+};
+
+export const userParamsSchema = {
+  params: Joi.object({
+    userId: uuid().required(),
+  }),
+};
+
+export const userEmailParamsSchema = {
+  params: Joi.object({
+    email: email().required(),
+  }),
+};
+
+// Invitations (/api/auth/invitations)
+
+export const invitationListSchema = {
+  query: Joi.object({
+    status: Joi.string().valid(...Object.values(InvitationStatus)),
+  }),
+};
+
+export const createInvitationSchema = {
+  body: Joi.object({
+    name: Joi.string().trim().max(255).required(),
+    email: email().required(),
+  }),
+};
+
+export const invitationParamsSchema = {
+  params: Joi.object({
+    invitationId: uuid().required(),
+  }),
+};
+
+export const invitationTokenParamsSchema = {
+  params: Joi.object({
+    token: Joi.string().trim().max(255).required(),
+  }),
+};
+
+export const acceptInvitationSchema = {
+  ...invitationTokenParamsSchema,
+  body: Joi.object({
+    password: newPassword().required(),
+  }),
+};
+
+// Two-factor authentication (/api/auth/2fa)
+
+export const twoFactorSetupSchema = {
+  body: Joi.object({
+    password: Joi.string().max(1024).required(),
+  }),
+};
+
+export const twoFactorCodeSchema = {
+  body: Joi.object({
+    code: Joi.string().trim().max(16).required(),
+  }),
+};
+
+export const twoFactorDisableSchema = {
+  body: Joi.object({
+    password: Joi.string().max(1024).required(),
+    code: Joi.string().trim().max(16),
+    recoveryCode: Joi.string().trim().max(64),
+  })
+    .or('code', 'recoveryCode')
+    .messages({ 'object.missing': 'A code or recovery code is required' }),
+};
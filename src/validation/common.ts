@@ -0,0 +1,74 @@
+import Joi from 'joi';
+import { MIN_PASSWORD_LENGTH } from '../services/passwordReset';
+import { DATE_PATTERN } from '../services/reportRange';
+import { SEX_VALUES, normaliseSex } from '../services/voterLookup';
+
+// National ID or passport number, as accepted by voter register imports
+export const ID_NUMBER_PATTERN = /^[A-Za-z0-9]{1,50}$/;
+
+// bcrypt ignores anything past 72 bytes
+const MAX_PASSWORD_LENGTH = 72;
+
+export const uuid = () =>
+  Joi.string().trim().guid().messages({ 'string.guid': '{#label} must be a valid UUID' });
+
+export const email = () => Joi.string().trim().max(255).email({ tlds: { allow: false } });
+
+// Accepts numeric IDs sent as JSON numbers; always converted to a string
+export const idNumber = () =>
+  Joi.alternatives()
+    .try(
+      Joi.string()
+        .trim()
+        .pattern(ID_NUMBER_PATTERN)
+        .messages({
+          'string.pattern.base': '{#label} must be 1 to 50 letters or digits',
+        }),
+      Joi.number().integer().min(1).custom((value: number) => String(value))
+    )
+    .description('National ID or passport number');
+
+// Date of birth of a voter: a past date, YYYY-MM-DD or ISO 8601
+export const dateOfBirth = () =>
+  Joi.date()
+    .iso()
+    .min('1900-01-01')
+    .max('now')
+    .messages({
+      'date.format': '{#label} must be a valid date in YYYY-MM-DD format',
+      'date.max': '{#label} cannot be in the future',
+    })
+    .description('Date of birth, YYYY-MM-DD');
+
+// Male or Female, case insensitive; M and F are expanded
+export const sex = () =>
+  Joi.string()
+    .trim()
+    .custom((value: string, helpers) => normaliseSex(value) || helpers.error('any.only'))
+    .messages({ 'any.only': `{#label} must be one of: ${SEX_VALUES.join(', ')}` })
+    .description(`${SEX_VALUES.join(' or ')}; case insensitive, M and F are accepted`);
+
+// Password being set (signup, reset, change)
+export const newPassword = () =>
+  Joi.string()
+    .min(MIN_PASSWORD_LENGTH)
+    .max(MAX_PASSWORD_LENGTH)
+    .messages({
+      'string.min': `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+    });
+
+// Calendar date in YYYY-MM-DD format, kept as a string
+export const calendarDate = () =>
+  Joi.string()
+    .pattern(DATE_PATTERN)
+    .custom((value: string, helpers) =>
+      isNaN(new Date(value).getTime()) ? helpers.error('string.isoDate') : value
+    )
+    .messages({
+      'string.pattern.base': '{#label} must be a date in YYYY-MM-DD format',
+      'string.isoDate': '{#label} must be a date in YYYY-MM-DD format',
+    })
+    .description('Date, YYYY-MM-DD');
+
+// Optional free-text location filter or field; empty strings clear it
+export const optionalText = (max = 255) => Joi.string().trim().max(max).allow(null, '');
@@ -0,0 +1,34 @@
+import Joi from 'joi';
+import { EventStaffRole } from '../entities/EventStaffAssignment';
+import { uuid } from './common';
+
+// Start or end of an access window; null or an empty string clears it
+const windowDateTime = () =>
+  Joi.string()
+    .isoDate()
+    .allow(null, '')
+    .messages({ 'string.isoDate': '{#label} must be an ISO 8601 date-time' });
+
+export const staffListSchema = {
+  params: Joi.object({
+    eventId: uuid().required(),
+  }),
+};
+
+export const staffMemberParamsSchema = {
+  params: Joi.object({
+    eventId: uuid().required(),
+    userId: uuid().required(),
+  }),
+};
+
+export const assignStaffSchema = {
+  ...staffMemberParamsSchema,
+  body: Joi.object({
+    role: Joi.string()
+      .valid(...Object.values(EventStaffRole))
+      .required(),
+    startsAt: windowDateTime(),
+    endsAt: windowDateTime(),
+  }),
+};
@@ -0,0 +1,65 @@
+import Joi from 'joi';
+import { EventStatus } from '../entities/Event';
+import { TIME_PATTERN } from '../services/eventSchedule';
+import { optionalText, uuid } from './common';
+
+const isoDateTime = () =>
+  Joi.string()
+    .isoDate()
+    .allow(null, '')
+    .messages({ 'string.isoDate': '{#label} must be a valid ISO 8601 date-time' });
+
+const timeOfDay = () =>
+  Joi.string()
+    .trim()
+    .pattern(TIME_PATTERN)
+    .allow(null, '')
+    .messages({ 'string.pattern.base': '{#label} must be in HH:MM format' });
+
+// Scheduling fields shared by create and update; cross-field rules are
+// checked by parseScheduleInput against the event's current schedule
+const scheduleFields = {
+  status: Joi.string().valid(...Object.values(EventStatus)),
+  startDate: isoDateTime(),
+  endDate: isoDateTime(),
+  dailyOpenTime: timeOfDay(),
+  dailyCloseTime: timeOfDay(),
+};
+
+const locationFields = {
+  county: optionalText(),
+  constituency: optionalText(),
+  ward: optionalText(),
+};
+
+export const eventParamsSchema = {
+  params: Joi.object({
+    eventId: uuid().required(),
+  }),
+};
+
+export const createEventSchema = {
+  body: Joi.object({
+    eventName: Joi.string().trim().max(255).required(),
+    ...locationFields,
+    organisationUnitId: uuid().allow(null, ''),
+    ...scheduleFields,
+  }),
+};
+
+export const updateEventSchema = {
+  ...eventParamsSchema,
+  body: Joi.object({
+    eventName: Joi.string().trim().max(255),
+    ...locationFields,
+    ...scheduleFields,
+  }),
+};
+
+export const updateRegistrationSchema = {
+  ...eventParamsSchema,
+  body: Joi.object({
+    open: Joi.boolean().strict().required(),
+    regenerateLink: Joi.boolean().strict(),
+  }),
+};
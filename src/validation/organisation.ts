@@ -0,0 +1,13 @@
+import Joi from 'joi';
+import { uuid } from './common';
+
+export const assignUnitSchema = {
+  params: Joi.object({
+    userId: uuid().required(),
+  }),
+  body: Joi.object({
+    organisationUnitId: uuid().allow(null).required().messages({
+      'any.required': 'organisationUnitId must be a unit ID or null',
+    }),
+  }),
+};
@@ -0,0 +1,160 @@
+import Joi from 'joi';
+import { ParticipantStatus } from '../entities/Participant';
+import { BADGE_IMAGE_FORMATS } from '../services/badges';
+import { PARTICIPANT_SORT_FIELDS } from '../services/participantListing';
+import { calendarDate, dateOfBirth, idNumber, optionalText, sex, uuid } from './common';
+
+// Maximum number of queued check-ins accepted in one sync request
+export const MAX_SYNC_BATCH_SIZE = 500;
+
+// Length limits for the reason given when voiding a check-in
+export const MIN_VOID_REASON_LENGTH = 3;
+export const MAX_VOID_REASON_LENGTH = 500;
+
+// Page sizes for the participant listing
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const eventId = () => uuid().required();
+
+// Voter details sent with a check-in, as returned by the voter lookup
+const participantDetails = {
+  idNumber: idNumber().required(),
+  name: Joi.string().trim().max(255).required(),
+  dateOfBirth: dateOfBirth().required(),
+  sex: sex().required(),
+  county: optionalText(),
+  constituency: optionalText(),
+  ward: optionalText(),
+  pollingCenter: optionalText(),
+};
+
+const eventParams = Joi.object({
+  eventId: eventId(),
+});
+
+export const searchParticipantSchema = {
+  body: Joi.object({
+    eventId: eventId(),
+    idNumber: idNumber().required(),
+  }),
+};
+
+export const checkInSchema = {
+  body: Joi.object({
+    eventId: eventId(),
+    ...participantDetails,
+  }),
+};
+
+export const scanCheckInSchema = {
+  body: Joi.object({
+    eventId: eventId(),
+    token: Joi.string().trim().max(1024).required(),
+  }),
+};
+
+export const checkOutSchema = {
+  body: Joi.object({
+    eventId: eventId(),
+    idNumber: idNumber().required(),
+  }),
+};
+
+// Items are validated one by one, so a bad item does not reject the batch
+export const syncCheckInsSchema = {
+  body: Joi.object({
+    checkIns: Joi.array()
+      .min(1)
+      .max(MAX_SYNC_BATCH_SIZE)
+      .required()
+      .messages({
+        'array.max': `A maximum of ${MAX_SYNC_BATCH_SIZE} check-ins can be synced per request`,
+      }),
+  }),
+};
+
+export interface SyncCheckInItem {
+  idempotencyKey: string;
+  eventId: string;
+  idNumber: string;
+  name: string;
+  dateOfBirth: Date;
+  sex: string;
+  county?: string | null;
+  constituency?: string | null;
+  ward?: string | null;
+  pollingCenter?: string | null;
+  checkedInAt: Date;
+}
+
+export const syncCheckInItemSchema = Joi.object({
+  idempotencyKey: Joi.string().max(100).required(),
+  eventId: eventId(),
+  ...participantDetails,
+  checkedInAt: Joi.date()
+    .iso()
+    .required()
+    .messages({ 'date.format': '{#label} must be a valid ISO 8601 date-time' }),
+})
+  .required()
+  .label('check-in');
+
+export const listParticipantsSchema = {
+  params: eventParams,
+  query: Joi.object({
+    limit: Joi.number().integer().min(1).max(MAX_PAGE_SIZE),
+    cursor: Joi.string().max(1024),
+    sortBy: Joi.string().valid(...PARTICIPANT_SORT_FIELDS),
+    order: Joi.string().lowercase().valid('asc', 'desc'),
+    search: Joi.string().trim().max(255).allow(''),
+    sex: sex(),
+    ward: Joi.string().max(255),
+    pollingCenter: Joi.string().max(255),
+    status: Joi.string().valid(...Object.values(ParticipantStatus)),
+    checkedInFrom: calendarDate(),
+    checkedInTo: calendarDate(),
+    checkedInById: uuid(),
+  }),
+};
+
+export const eventParticipantsSchema = {
+  params: eventParams,
+};
+
+export const badgeSheetSchema = {
+  params: eventParams,
+  query: Joi.object({
+    ward: Joi.string().max(255),
+    pollingCenter: Joi.string().max(255),
+  }),
+};
+
+export const badgeSchema = {
+  params: Joi.object({
+    participantId: uuid().required(),
+  }),
+  query: Joi.object({
+    format: Joi.string().valid(...BADGE_IMAGE_FORMATS),
+  }),
+};
+
+export const participantsByDateSchema = {
+  params: Joi.object({
+    eventId: eventId(),
+    date: calendarDate().required(),
+  }),
+};
+
+export const voidCheckInSchema = {
+  params: Joi.object({
+    checkInId: uuid().required(),
+  }),
+  body: Joi.object({
+    reason: Joi.string()
+      .trim()
+      .min(MIN_VOID_REASON_LENGTH)
+      .max(MAX_VOID_REASON_LENGTH)
+      .required(),
+  }),
+};
@@ -0,0 +1,13 @@
+import Joi from 'joi';
+import { uuid } from './common';
+
+export const assignRoleSchema = {
+  params: Joi.object({
+    userId: uuid().required(),
+  }),
+  body: Joi.object({
+    roleId: uuid().allow(null).required().messages({
+      'any.required': 'roleId must be a role ID or null',
+    }),
+  }),
+};